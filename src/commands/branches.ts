@@ -0,0 +1,205 @@
+import chalk from "chalk";
+import { isInitialized, NotInitializedError, getContextStore } from "../core/context";
+import { getCurrentBranch } from "../core/git";
+import { BranchContextInfo, DEFAULT_STALE_DAYS, foldBranchContext, listBranchContexts, resolveLastMergeFold } from "../core/branches";
+import { injectContext } from "../core/resume";
+import { ContextStore } from "../core/store";
+import { UsageError } from "../core/errors";
+import { loadConfig } from "../utils/config";
+import { fail, print, setResult } from "../utils/output";
+
+export interface BranchesOptions {
+    /** Branch to compare against / fold into (default: current branch) */
+    into?: string;
+    merged?: boolean;
+    gone?: boolean;
+    stale?: boolean;
+    staleDays?: string;
+    archived?: boolean;
+    /** fold: the branch merged by the last `git merge` (used by the post-merge hook) */
+    lastMerge?: boolean;
+}
+
+/**
+ * Manage per-branch context after branches are merged, renamed or deleted.
+ *
+ *   valyrianctx branches [list]                  branch contexts and their status
+ *   valyrianctx branches archive <b...>          archive named branches
+ *   valyrianctx branches archive --merged        ...or every merged/gone/stale one
+ *   valyrianctx branches fold <branch>           fold decisions into the current branch
+ *   valyrianctx branches rename <old> <new>      move entries to a new branch name
+ */
+export async function branchesCommand(action: string = "list", args: string[] = [], options: BranchesOptions = {}) {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        const store = await getContextStore();
+        const current = await getCurrentBranch();
+        const target = options.into || current;
+        const staleDays = options.staleDays !== undefined ? parseInt(options.staleDays, 10) : DEFAULT_STALE_DAYS;
+        if (isNaN(staleDays) || staleDays < 0) {
+            throw new UsageError(`Invalid --stale-days: ${options.staleDays}`);
+        }
+
+        switch (action) {
+            case "list":
+                if (options.archived) {
+                    await listArchived(store);
+                } else {
+                    const infos = await listBranchContexts(store, target, staleDays);
+                    setResult({ action, target, branches: infos });
+                    printBranchContexts(infos, target);
+                }
+                return;
+
+            case "archive": {
+                const selected = args.length > 0 ? args : await selectBranches(store, target, staleDays, options);
+                const result: { branch: string; archived: number; skipped?: "checked-out" }[] = [];
+                setResult({ action, branches: result });
+                if (selected.length === 0) {
+                    console.log(chalk.yellow("⚠ No branches to archive."));
+                    console.log(chalk.gray("  Name them, or pick them with --merged, --gone or --stale."));
+                    return;
+                }
+                for (const branch of selected) {
+                    if (branch === current) {
+                        console.log(chalk.yellow(`  ⚠ Skipped ${branch}: it is checked out`));
+                        result.push({ branch, archived: 0, skipped: "checked-out" });
+                        continue;
+                    }
+                    const archived = await store.archiveBranch(branch);
+                    result.push({ branch, archived: archived.length });
+                    if (archived.length === 0) {
+                        console.log(chalk.yellow(`  ⚠ No context for branch: ${branch}`));
+                    } else {
+                        console.log(chalk.green(`  ✓ Archived ${branch} (${archived.length} sessions)`));
+                    }
+                }
+                return;
+            }
+
+            case "fold": {
+                const source = options.lastMerge ? await resolveLastMergeFold(store, target) : args[0];
+                if (!source) {
+                    // Not a merge of a child branch with context back into its parent: nothing to do
+                    if (options.lastMerge) return;
+                    fail(new UsageError("Usage: valyrianctx branches fold <branch> [--into <branch>]"));
+                    return;
+                }
+
+                const { dedupThreshold } = await loadConfig();
+                const entry = await foldBranchContext(store, source, target, dedupThreshold);
+                setResult({ action, source, target, entry });
+                if (!entry) {
+                    console.log(chalk.yellow(`⚠ No context found for branch: ${source}`));
+                    return;
+                }
+                console.log(chalk.green(`✓ Folded ${source} into ${target}`));
+                console.log(chalk.gray(`  ${entry.decisions.length} decisions carried over, ${source} archived`));
+                if (target === current) await reinject(store, current);
+                return;
+            }
+
+            case "rename": {
+                const [from, to] = args;
+                if (!from || !to) {
+                    fail(new UsageError("Usage: valyrianctx branches rename <old> <new>"));
+                    return;
+                }
+                const moved = await store.renameBranch(from, to);
+                setResult({ action, from, to, moved });
+                if (moved === 0) {
+                    console.log(chalk.yellow(`⚠ No context found for branch: ${from}`));
+                    return;
+                }
+                console.log(chalk.green(`✓ Moved ${moved} sessions from ${from} to ${to}`));
+                if (to === current) await reinject(store, current);
+                return;
+            }
+
+            default:
+                fail(new UsageError(`Unknown action: ${action}`), "  Usage: valyrianctx branches [list|archive|fold|rename]");
+        }
+    } catch (err: any) {
+        fail(err);
+    }
+}
+
+function printBranchContexts(infos: BranchContextInfo[], target: string): void {
+    if (infos.length === 0) {
+        console.log(chalk.yellow("No branch context found."));
+        return;
+    }
+
+    const width = Math.max(...infos.map((i) => i.branch.length));
+    const colors = { current: chalk.green, active: chalk.cyan, merged: chalk.magenta, gone: chalk.red };
+
+    print(chalk.bold(`\nBranch contexts (compared with ${target}):\n`));
+    for (const info of infos) {
+        const flags = [colors[info.status](info.status), ...(info.stale ? [chalk.yellow("stale")] : [])];
+        const date = new Date(info.lastSave).toLocaleDateString();
+        print(
+            `  ${info.branch.padEnd(width)}  ${String(info.sessions).padStart(3)} sessions  ${chalk.gray(date.padEnd(10))}  ${flags.join(", ")}`
+        );
+    }
+
+    const stale = infos.filter((i) => i.status === "merged" || i.status === "gone" || i.stale);
+    if (stale.length > 0) {
+        print(chalk.gray(`\n  Archive with: valyrianctx branches archive --merged --gone --stale`));
+    }
+    print();
+}
+
+async function listArchived(store: ContextStore): Promise<void> {
+    const archived = await store.loadArchived();
+    if (archived.length === 0) {
+        setResult({ action: "list", archived: [] });
+        console.log(chalk.yellow("No archived branch context."));
+        return;
+    }
+
+    const counts = new Map<string, number>();
+    for (const entry of archived) counts.set(entry.branch, (counts.get(entry.branch) || 0) + 1);
+    setResult({
+        action: "list",
+        archived: Array.from(counts.entries()).sort().map(([branch, sessions]) => ({ branch, sessions })),
+    });
+
+    print(chalk.bold("\nArchived branch contexts:\n"));
+    for (const [branch, count] of Array.from(counts.entries()).sort()) {
+        print(`  ${branch}  ${chalk.gray(`${count} sessions`)}`);
+    }
+    print();
+}
+
+async function selectBranches(
+    store: ContextStore,
+    target: string,
+    staleDays: number,
+    options: BranchesOptions
+): Promise<string[]> {
+    if (!options.merged && !options.gone && !options.stale) return [];
+
+    const infos = await listBranchContexts(store, target, staleDays);
+    return infos
+        .filter((i) => i.status !== "current")
+        .filter(
+            (i) =>
+                (options.merged && i.status === "merged") ||
+                (options.gone && i.status === "gone") ||
+                (options.stale && i.stale)
+        )
+        .map((i) => i.branch);
+}
+
+/** Refresh the context injected into IDE rule files after a branch changed */
+async function reinject(store: ContextStore, branch: string): Promise<void> {
+    try {
+        await injectContext(await store.loadBranch(branch));
+    } catch {
+        // Non-fatal — injection is best-effort
+    }
+}
@@ -1,26 +1,25 @@
 import chalk from "chalk";
-import fs from "fs";
-import path from "path";
-import {
-    isInitialized,
-    loadBranchContext,
-    getValyrianCtxDir,
-} from "../core/context";
+import { isInitialized, NotInitializedError, getContextStore } from "../core/context";
 import { getCurrentBranch } from "../core/git";
-import { callAI } from "../core/ai";
+import { callAI, AIError } from "../core/ai";
+import { dedup } from "../core/dedup";
 import { ContextEntry } from "../core/types";
+import { loadConfig } from "../utils/config";
+import { fail, setResult } from "../utils/output";
 
 export async function compressCommand(options?: { force?: boolean }) {
     if (!(await isInitialized())) {
-        console.log(chalk.red("✗ ValyrianCtx not initialized. Run `valyrianctx init` first."));
+        fail(new NotInitializedError());
         return;
     }
 
     try {
+        const store = await getContextStore();
         const branch = await getCurrentBranch();
-        const entries = await loadBranchContext(branch);
+        const entries = await store.loadBranch(branch);
 
         if (entries.length <= 2) {
+            setResult({ branch, compressed: 0 });
             console.log(chalk.yellow("⚠ Not enough context to compress (need at least 3 entries)."));
             return;
         }
@@ -69,7 +68,7 @@ Be concise but preserve important decisions and learnings.`;
         ]);
 
         if (result.error) {
-            console.log(chalk.red(`✗ ${result.error}`));
+            fail(new AIError(result.error));
             return;
         }
 
@@ -79,32 +78,34 @@ Be concise but preserve important decisions and learnings.`;
                 [null, result.content];
             parsed = JSON.parse(jsonMatch[1]!.trim());
         } catch {
-            console.log(chalk.red("✗ Could not parse AI compression result."));
+            fail(new AIError("Could not parse AI compression result."));
             return;
         }
 
-        // Create compressed entry from the oldest entry's metadata
+        // Create compressed entry from the oldest entry's metadata. The model
+        // tends to restate items across sessions, so drop near-duplicates.
+        const { dedupThreshold } = await loadConfig();
         const compressed: ContextEntry = {
             ...toCompress[0],
             task: parsed.task || toCompress[0].task,
-            approaches: parsed.approaches || [],
-            decisions: parsed.decisions || [],
+            approaches: dedup(parsed.approaches || [], dedupThreshold),
+            decisions: dedup(parsed.decisions || [], dedupThreshold),
             currentState: parsed.currentState || "",
-            nextSteps: parsed.nextSteps || [],
+            nextSteps: dedup(parsed.nextSteps || [], dedupThreshold),
             timestamp: toCompress[0].timestamp, // keep oldest timestamp
+            source: "ai",
         };
 
-        // Replace branch file with compressed + latest
-        const dir = await getValyrianCtxDir();
-        const branchFile = path.join(
-            dir,
-            "branches",
-            `${branch.replace(/\//g, "__")}.json`
-        );
-
-        const newEntries = [compressed, latest];
-        fs.writeFileSync(branchFile, JSON.stringify(newEntries, null, 2));
+        // Replace branch log with compressed + latest. Entries saved by another
+        // process while the AI call was running are kept after them.
+        const compressedIds = new Set(entries.map((e) => e.id));
+        await store.updateBranch(branch, (current) => [
+            compressed,
+            latest,
+            ...current.filter((e) => !compressedIds.has(e.id)),
+        ]);
 
+        setResult({ branch, compressed: entries.length, summary: compressed });
         console.log(
             chalk.green(
                 `✓ Compressed ${entries.length} entries → 2 entries for branch: ${chalk.bold(branch)}`
@@ -114,6 +115,6 @@ Be concise but preserve important decisions and learnings.`;
         console.log(chalk.cyan(`  Summary: ${parsed.task}`));
         console.log();
     } catch (err: any) {
-        console.log(chalk.red(`✗ Error: ${err.message}`));
+        fail(err);
     }
 }
@@ -1,83 +1,241 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawnSync } from "child_process";
 import chalk from "chalk";
-import { isInitialized } from "../core/context";
-import { loadConfig, saveConfig, UserConfig } from "../utils/config";
-
-const VALID_KEYS: (keyof UserConfig)[] = [
-    "defaultOutput",
-    "autoGitCapture",
-    "recentCommitCount",
-    "defaultLogCount",
-    "watchInterval",
-    "autoHook",
-    "aiProvider",
-    "aiModel",
-    "aiApiKey",
-];
-
-export async function configCommand(action?: string, key?: string, value?: string) {
-    if (!(await isInitialized())) {
-        console.log(chalk.red("✗ ValyrianCtx not initialized. Run `valyrianctx init` first."));
+import inquirer from "inquirer";
+import { isInitialized, NotInitializedError } from "../core/context";
+import {
+    loadConfigWithOrigins,
+    saveConfig,
+    unsetConfig,
+    readConfigLayer,
+    replaceConfigLayer,
+    getConfigPath,
+    ConfigScope,
+    ConfigValueOrigin,
+    CONFIG_ENV_VARS,
+} from "../utils/config";
+import {
+    CONFIG_KEYS,
+    ConfigKey,
+    assertConfigKey,
+    parseConfigValue,
+    describeConfigKey,
+    validateConfigLayer,
+} from "../utils/config-schema";
+import { UsageError, ValyrianCtxError } from "../core/errors";
+import { fail, isJsonOutput, print, setResult } from "../utils/output";
+import { PRIVATE_FILE_MODE } from "../utils/fs-safe";
+
+interface ConfigOptions {
+    /** Write to your global config (all repos) */
+    global?: boolean;
+    /** Write to the shared repo config (team defaults) */
+    repo?: boolean;
+    /** Write to your personal overrides for this repo (default) */
+    local?: boolean;
+    /** Show which file or env var each value comes from */
+    showOrigin?: boolean;
+}
+
+const SCOPE_LABELS: Record<ConfigScope, string> = {
+    global: "global config",
+    repo: "shared repo config",
+    local: "local config",
+};
+
+const USAGE = "valyrianctx config [list|get|set|unset|describe|edit] [key] [value] [--global|--repo|--local]";
+
+export async function configCommand(
+    action?: string,
+    key?: string,
+    value?: string,
+    options: ConfigOptions = {}
+) {
+    const scopeFlags = [options.global, options.repo, options.local].filter(Boolean).length;
+    if (scopeFlags > 1) {
+        fail(new UsageError("Use only one of --global, --repo or --local."));
+        return;
+    }
+    const scope: ConfigScope = options.global ? "global" : options.repo ? "repo" : "local";
+
+    // Global config works anywhere; everything else needs an initialized repo
+    if (scope !== "global" && !(await isInitialized())) {
+        fail(new NotInitializedError());
         return;
     }
 
     try {
-        const config = await loadConfig();
+        const { config, origins, problems } = await loadConfigWithOrigins();
 
         if (!action || action === "list") {
-            console.log(chalk.bold("\nValyrianCtx Configuration:\n"));
+            setResult({ config: redact(config), origins, problems });
+            print(chalk.bold("\nValyrianCtx Configuration:\n"));
             for (const [k, v] of Object.entries(config)) {
-                if (k === "aiApiKey" && v) {
-                    console.log(`  ${chalk.cyan(k)}: ${chalk.gray("****" + String(v).slice(-4))}`);
-                } else {
-                    console.log(`  ${chalk.cyan(k)}: ${chalk.white(String(v))}`);
-                }
+                const origin = options.showOrigin ? chalk.gray(`  (${formatOrigin(origins[k])})`) : "";
+                print(`  ${chalk.cyan(k)}: ${formatValue(k, v)}${origin}`);
+            }
+            print();
+            for (const problem of problems) {
+                console.log(chalk.yellow(`⚠ Ignored ${problem}`));
             }
-            console.log();
             return;
         }
 
         if (action === "get") {
             if (!key) {
-                console.log(chalk.red("✗ Usage: valyrianctx config get <key>"));
+                fail(new UsageError("Usage: valyrianctx config get <key>"));
                 return;
             }
-            if (!VALID_KEYS.includes(key as keyof UserConfig)) {
-                console.log(chalk.red(`✗ Unknown config key: ${key}`));
-                console.log(chalk.gray(`  Valid keys: ${VALID_KEYS.join(", ")}`));
-                return;
-            }
-            const val = config[key as keyof UserConfig];
-            console.log(`${chalk.cyan(key)}: ${chalk.white(String(val ?? "(not set)"))}`);
+            assertConfigKey(key);
+            const val = config[key];
+            setResult({ key, value: val ?? null, origin: origins[key] ?? { origin: "default" } });
+            const origin = options.showOrigin && origins[key] ? chalk.gray(`  (${formatOrigin(origins[key])})`) : "";
+            const shown = typeof val === "object" ? JSON.stringify(val) : String(val ?? "(not set)");
+            print(`${chalk.cyan(key)}: ${chalk.white(shown)}${origin}`);
             return;
         }
 
         if (action === "set") {
             if (!key || value === undefined) {
-                console.log(chalk.red("✗ Usage: valyrianctx config set <key> <value>"));
+                fail(new UsageError("Usage: valyrianctx config set <key> <value> [--global|--repo|--local]"));
+                return;
+            }
+            const typedValue = parseConfigValue(key, value);
+
+            await saveConfig({ [key]: typedValue }, scope);
+            setResult({ key, value: typedValue, scope });
+            const shown = typeof typedValue === "object" ? JSON.stringify(typedValue) : typedValue;
+            console.log(chalk.green(`✓ Set ${chalk.bold(key)} = ${shown}`) + chalk.gray(` (${SCOPE_LABELS[scope]})`));
+            return;
+        }
+
+        if (action === "unset") {
+            if (!key) {
+                fail(new UsageError("Usage: valyrianctx config unset <key> [--global|--repo|--local]"));
                 return;
             }
-            if (!VALID_KEYS.includes(key as keyof UserConfig)) {
-                console.log(chalk.red(`✗ Unknown config key: ${key}`));
-                console.log(chalk.gray(`  Valid keys: ${VALID_KEYS.join(", ")}`));
+            assertConfigKey(key);
+            const removed = await unsetConfig([key], scope);
+            setResult({ key, removed: removed.length > 0, scope });
+            if (removed.length === 0) {
+                console.log(chalk.gray(`  ${key} is not set in the ${SCOPE_LABELS[scope]}.`));
                 return;
             }
+            console.log(chalk.green(`✓ Unset ${chalk.bold(key)}`) + chalk.gray(` (${SCOPE_LABELS[scope]})`));
+            return;
+        }
 
-            // Type coercion
-            let typedValue: any = value;
-            if (value === "true") typedValue = true;
-            else if (value === "false") typedValue = false;
-            else if (!isNaN(Number(value)) && key !== "aiApiKey" && key !== "aiProvider" && key !== "aiModel") {
-                typedValue = Number(value);
+        if (action === "describe") {
+            const keys: ConfigKey[] = key ? [assertedKey(key)] : CONFIG_KEYS;
+            setResult(keys.map((k) => describeConfigKey(k)));
+            print();
+            for (const k of keys) {
+                const info = describeConfigKey(k);
+                print(`${chalk.cyan.bold(k)} ${chalk.gray(`— ${info.description}`)}`);
+                print(`  Type:    ${info.type}`);
+                print(`  Default: ${info.defaultValue === undefined ? "(not set)" : JSON.stringify(info.defaultValue)}`);
+                if (key) {
+                    print(`  Current: ${formatValue(k, config[k])} ${chalk.gray(`(${formatOrigin(origins[k] ?? { origin: "default" })})`)}`);
+                }
+                if (CONFIG_ENV_VARS[k]) {
+                    print(`  Env:     ${CONFIG_ENV_VARS[k]}`);
+                }
+                print();
             }
+            return;
+        }
 
-            await saveConfig({ [key]: typedValue });
-            console.log(chalk.green(`✓ Set ${chalk.bold(key)} = ${typedValue}`));
+        if (action === "edit") {
+            await editConfig(scope);
             return;
         }
 
-        console.log(chalk.red(`✗ Unknown action: ${action}`));
-        console.log(chalk.gray("  Usage: valyrianctx config [list|get|set] [key] [value]"));
+        fail(new UsageError(`Unknown action: ${action}`), `  Usage: ${USAGE}`);
     } catch (err: any) {
-        console.log(chalk.red(`✗ Error: ${err.message}`));
+        fail(err);
     }
 }
+
+/**
+ * Open one scope's settings in $VISUAL/$EDITOR as JSON. The result is only
+ * written back once it passes the schema; otherwise the user can re-open the
+ * editor with their changes intact or abandon the edit (with --json it fails
+ * instead). The copy being edited
+ * can hold the API key, so it lives in a private temp directory.
+ */
+async function editConfig(scope: ConfigScope): Promise<void> {
+    const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === "win32" ? "notepad" : "vi");
+    const configPath = await getConfigPath(scope);
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "valyrianctx-config-"));
+    const tmpFile = path.join(tmpDir, `${scope}.json`);
+    fs.writeFileSync(tmpFile, JSON.stringify(await readConfigLayer(scope), null, 2) + "\n", { mode: PRIVATE_FILE_MODE });
+
+    try {
+        while (true) {
+            const result = spawnSync(`${editor} "${tmpFile}"`, { stdio: "inherit", shell: true });
+            if (result.status !== 0) {
+                fail(new ValyrianCtxError(`Editor exited with status ${result.status ?? result.signal}. Config not saved.`, "ERROR"));
+                return;
+            }
+
+            const problems: string[] = [];
+            let values: Record<string, any> = {};
+            try {
+                const parsed = JSON.parse(fs.readFileSync(tmpFile, "utf-8"));
+                const validation = validateConfigLayer(parsed);
+                if (validation.ok) values = validation.values;
+                else problems.push(...validation.problems);
+            } catch (err: any) {
+                problems.push(`Invalid JSON: ${err.message}`);
+            }
+
+            if (problems.length === 0) {
+                try {
+                    await replaceConfigLayer(values, scope);
+                    setResult({ scope, config: redact(values) });
+                    console.log(chalk.green(`✓ Saved ${SCOPE_LABELS[scope]}`) + chalk.gray(` (${configPath})`));
+                    return;
+                } catch (err: any) {
+                    problems.push(err.message);
+                }
+            }
+
+            if (isJsonOutput()) {
+                fail(new UsageError(`Config is invalid: ${problems.join("; ")}`));
+                return;
+            }
+            console.error(chalk.red("✗ Config is invalid:"));
+            problems.forEach((p) => console.error(chalk.red(`  • ${p}`)));
+            const { retry } = await inquirer.prompt([
+                { type: "confirm", name: "retry", message: "Re-open the editor to fix it?", default: true },
+            ]);
+            if (!retry) {
+                console.log(chalk.gray("  Config not saved."));
+                return;
+            }
+        }
+    } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+}
+
+function assertedKey(key: string): ConfigKey {
+    assertConfigKey(key);
+    return key;
+}
+
+/** The config with the API key masked, as `list` shows it */
+function redact<T extends Record<string, any>>(config: T): T {
+    return config.aiApiKey ? { ...config, aiApiKey: "****" + String(config.aiApiKey).slice(-4) } : config;
+}
+
+function formatValue(key: string, value: unknown): string {
+    if (key === "aiApiKey" && value) return chalk.gray("****" + String(value).slice(-4));
+    return chalk.white(typeof value === "object" && value !== null ? JSON.stringify(value) : String(value));
+}
+
+function formatOrigin(origin: ConfigValueOrigin): string {
+    return origin.source ? `${origin.origin}: ${origin.source}` : origin.origin;
+}
@@ -1,6 +1,9 @@
 import chalk from "chalk";
-import { isInitialized, loadBranchContext } from "../core/context";
+import { isInitialized, NotInitializedError, getContextStore } from "../core/context";
 import { getCurrentBranch, getChangedFiles, getStagedFiles } from "../core/git";
+import { hasNearDuplicate } from "../core/dedup";
+import { loadConfig } from "../utils/config";
+import { fail, print, setResult } from "../utils/output";
 
 function getTimeAgo(timestamp: string): string {
     const diff = Date.now() - new Date(timestamp).getTime();
@@ -14,15 +17,17 @@ function getTimeAgo(timestamp: string): string {
 
 export async function diffCommand() {
     if (!(await isInitialized())) {
-        console.log(chalk.red("✗ ValyrianCtx not initialized. Run `valyrianctx init` first."));
+        fail(new NotInitializedError());
         return;
     }
 
     try {
+        const store = await getContextStore();
         const branch = await getCurrentBranch();
-        const entries = await loadBranchContext(branch);
+        const entries = await store.loadBranch(branch, { limit: 2 });
 
         if (entries.length === 0) {
+            setResult({ branch, since: null });
             console.log(chalk.yellow(`⚠ No context found for branch: ${branch}`));
             console.log(chalk.gray("  Run `valyrianctx save` to capture context first."));
             return;
@@ -36,7 +41,7 @@ export async function diffCommand() {
 
         const lastSaveTime = getTimeAgo(latest.timestamp);
 
-        console.log(chalk.bold(`\nSince last save (${lastSaveTime}):\n`));
+        print(chalk.bold(`\nSince last save (${lastSaveTime}):\n`));
 
         // --- Files ---
         const previousFiles = new Set(latest.filesChanged);
@@ -47,55 +52,57 @@ export async function diffCommand() {
         const stillChanged = [...currentFiles].filter((f) => previousFiles.has(f));
 
         if (newFiles.length > 0) {
-            newFiles.forEach((f) => console.log(`  ${chalk.green("+")} ${f} ${chalk.green("(new)")}`));
+            newFiles.forEach((f) => print(`  ${chalk.green("+")} ${f} ${chalk.green("(new)")}`));
         }
         if (stillChanged.length > 0) {
-            stillChanged.forEach((f) => console.log(`  ${chalk.yellow("~")} ${f} ${chalk.gray("(still modified)")}`));
+            stillChanged.forEach((f) => print(`  ${chalk.yellow("~")} ${f} ${chalk.gray("(still modified)")}`));
         }
         if (removedFiles.length > 0) {
-            removedFiles.forEach((f) => console.log(`  ${chalk.red("-")} ${f} ${chalk.gray("(resolved)")}`));
+            removedFiles.forEach((f) => print(`  ${chalk.red("-")} ${f} ${chalk.gray("(resolved)")}`));
         }
         if (newFiles.length === 0 && removedFiles.length === 0 && stillChanged.length === 0) {
-            console.log(chalk.gray("  No file changes since last save."));
+            print(chalk.gray("  No file changes since last save."));
         }
 
         // --- Decisions ---
-        if (entries.length >= 2) {
-            const previous = entries[entries.length - 2];
-            const prevDecisions = new Set(previous.decisions);
-            const newDecisions = latest.decisions.filter((d) => !prevDecisions.has(d));
+        // A decision restated in other words isn't a new one
+        const previous = entries.length >= 2 ? entries[entries.length - 2] : undefined;
+        const { dedupThreshold } = await loadConfig();
+        const newDecisions = previous
+            ? latest.decisions.filter((d) => !hasNearDuplicate(d, previous.decisions, dedupThreshold))
+            : latest.decisions;
+        if (previous) {
             if (newDecisions.length > 0) {
-                console.log();
+                print();
                 newDecisions.forEach((d) =>
-                    console.log(`  ${chalk.cyan("Decision added:")} "${d}"`)
+                    print(`  ${chalk.cyan("Decision added:")} "${d}"`)
                 );
             }
         } else if (latest.decisions.length > 0) {
-            console.log();
+            print();
             latest.decisions.forEach((d) =>
-                console.log(`  ${chalk.cyan("Decision:")} "${d}"`)
+                print(`  ${chalk.cyan("Decision:")} "${d}"`)
             );
         }
 
         // --- Next Steps Progress ---
-        if (entries.length >= 2) {
-            const previous = entries[entries.length - 2];
-            const completedSteps = previous.nextSteps.filter(
-                (step) => !latest.nextSteps.includes(step)
-            );
+        const completedSteps = previous
+            ? previous.nextSteps.filter((step) => !latest.nextSteps.includes(step))
+            : [];
+        const newSteps = previous
+            ? latest.nextSteps.filter((step) => !previous.nextSteps.includes(step))
+            : [];
+        if (previous) {
             if (completedSteps.length > 0) {
-                console.log();
+                print();
                 completedSteps.forEach((s) =>
-                    console.log(`  ${chalk.green("✓")} Next step completed: "${s}"`)
+                    print(`  ${chalk.green("✓")} Next step completed: "${s}"`)
                 );
             }
 
-            const newSteps = latest.nextSteps.filter(
-                (step) => !previous.nextSteps.includes(step)
-            );
             if (newSteps.length > 0) {
                 newSteps.forEach((s) =>
-                    console.log(`  ${chalk.blue("→")} New next step: "${s}"`)
+                    print(`  ${chalk.blue("→")} New next step: "${s}"`)
                 );
             }
         }
@@ -105,14 +112,23 @@ export async function diffCommand() {
         const totalModified = stillChanged.length;
         const totalResolved = removedFiles.length;
 
-        console.log();
-        console.log(
+        print();
+        print(
             chalk.gray(
                 `  Summary: +${totalNew} new, ~${totalModified} modified, -${totalResolved} resolved`
             )
         );
-        console.log();
+        print();
+
+        setResult({
+            branch,
+            since: latest.timestamp,
+            files: { new: newFiles, modified: stillChanged, resolved: removedFiles },
+            decisions: newDecisions,
+            nextStepsCompleted: completedSteps,
+            nextStepsAdded: newSteps,
+        });
     } catch (err: any) {
-        console.log(chalk.red(`✗ Error: ${err.message}`));
+        fail(err);
     }
 }
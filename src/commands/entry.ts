@@ -0,0 +1,276 @@
+import chalk from "chalk";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import inquirer from "inquirer";
+import { spawnSync } from "child_process";
+import { isInitialized, NotInitializedError, getContextStore } from "../core/context";
+import { getCurrentBranch, getRepoRoot } from "../core/git";
+import { captureGitState } from "../core/options";
+import { entryToMarkdown, findEntry, parseEntryMarkdown, replaceEntry, shortId } from "../core/entry-edit";
+import { getEntrySource } from "../core/source";
+import { injectContext } from "../core/resume";
+import { clearContextFromRules } from "../core/agent-rules";
+import { ContextStore } from "../core/store";
+import { ContextEntry } from "../core/types";
+import { UsageError, ValyrianCtxError } from "../core/errors";
+import { fail, isJsonOutput, print, setResult } from "../utils/output";
+
+interface AmendOptions {
+    goal?: string;
+    approaches?: string;
+    decisions?: string;
+    state?: string;
+    nextSteps?: string;
+    blockers?: string;
+    edit?: boolean;
+}
+
+/*
+ * Commands for a single saved entry:
+ *
+ *   valyrianctx show <id>        print an entry (--json for the raw document)
+ *   valyrianctx edit <id>        edit it as markdown in $EDITOR
+ *   valyrianctx amend [message]  update the latest entry instead of appending one
+ *   valyrianctx drop <id>        delete it
+ *
+ * IDs can be shortened to any unique prefix of 4+ characters (`log` shows 8).
+ * Edited entries are marked as manual saves, so gc keeps them with the rest.
+ */
+
+export async function showCommand(id: string) {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        const entry = await findEntry(await getContextStore(), id);
+        if (!entry) {
+            fail(new ValyrianCtxError(`No context entry with ID ${id}`, "ERROR"));
+            return;
+        }
+
+        setResult(entry);
+        const date = new Date(entry.timestamp).toLocaleString();
+        print(chalk.bold(`\n${entry.task}\n`));
+        print(chalk.gray(`  ID:      ${entry.id}`));
+        print(chalk.gray(`  Branch:  ${entry.branch}`));
+        print(chalk.gray(`  Saved:   ${date}${entry.author ? ` by ${entry.author}` : ""} (${getEntrySource(entry)})`));
+        if (entry.goal) print(chalk.gray(`  Goal:    ${entry.goal}`));
+        if (entry.assignee) print(chalk.gray(`  Assignee: ${entry.assignee}`));
+
+        printList("Approaches", entry.approaches);
+        printList("Decisions", entry.decisions, true);
+        if (entry.currentState) {
+            print(chalk.bold("\n  Current State"));
+            print(`    ${entry.currentState}`);
+        }
+        printList("Next Steps", entry.nextSteps);
+        printList("Blockers", entry.blockers ?? []);
+        if (entry.handoffNote) {
+            print(chalk.bold("\n  Handoff Note"));
+            print(`    ${entry.handoffNote}`);
+        }
+        printList("Files Changed", entry.filesChanged);
+        printList("Recent Commits", entry.recentCommits);
+        print();
+    } catch (err: any) {
+        fail(err);
+    }
+}
+
+export async function editCommand(id: string) {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        const store = await getContextStore();
+        const entry = await findEntry(store, id);
+        if (!entry) {
+            fail(new ValyrianCtxError(`No context entry with ID ${id}`, "ERROR"));
+            return;
+        }
+
+        setResult({ updated: false, entry });
+        const edited = await editInEditor(entry);
+        if (!edited) return;
+        if (edited === entry) {
+            console.log(chalk.gray("  No changes, entry not updated."));
+            return;
+        }
+
+        await applyEdit(store, edited, `✓ Updated entry ${shortId(entry)} on branch: ${chalk.bold(entry.branch)}`);
+    } catch (err: any) {
+        fail(err);
+    }
+}
+
+export async function amendCommand(message?: string, options: AmendOptions = {}) {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        const store = await getContextStore();
+        const branch = await getCurrentBranch();
+        const [latest] = await store.loadBranch(branch, { limit: 1 });
+        if (!latest) {
+            console.log(chalk.yellow(`No context for branch: ${branch}. Use \`valyrianctx save\` to create one.`));
+            return;
+        }
+
+        const split = (value: string) => value.split(";;").map((s) => s.trim()).filter(Boolean);
+        const { filesChanged, filesStaged, recentCommits } = await captureGitState();
+        let amended: ContextEntry = {
+            ...latest,
+            timestamp: new Date().toISOString(),
+            filesChanged,
+            filesStaged,
+            recentCommits,
+            ...(message !== undefined && { task: message }),
+            ...(options.goal !== undefined && { goal: options.goal }),
+            ...(options.approaches !== undefined && { approaches: split(options.approaches) }),
+            ...(options.decisions !== undefined && { decisions: split(options.decisions) }),
+            ...(options.state !== undefined && { currentState: options.state }),
+            ...(options.nextSteps !== undefined && { nextSteps: split(options.nextSteps) }),
+            ...(options.blockers !== undefined && { blockers: split(options.blockers) }),
+        };
+
+        // Like `git commit --amend`: with nothing given on the command line, edit the entry
+        const hasChanges = message !== undefined || Object.keys(options).some((k) => k !== "edit");
+        if (options.edit || !hasChanges) {
+            setResult({ updated: false, entry: latest });
+            const edited = await editInEditor(amended);
+            if (!edited) return;
+            amended = edited;
+        }
+
+        await applyEdit(store, amended, `✓ Amended latest entry (${shortId(latest)}) for branch: ${chalk.bold(branch)}`);
+    } catch (err: any) {
+        fail(err);
+    }
+}
+
+export async function dropCommand(id: string, options: { yes?: boolean } = {}) {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        const store = await getContextStore();
+        const entry = await findEntry(store, id);
+        if (!entry) {
+            fail(new ValyrianCtxError(`No context entry with ID ${id}`, "ERROR"));
+            return;
+        }
+
+        setResult({ dropped: false, entry });
+        if (!options.yes) {
+            if (isJsonOutput()) {
+                fail(new UsageError("Use --yes to drop an entry with --json."));
+                return;
+            }
+            const date = new Date(entry.timestamp).toLocaleString();
+            const { confirm } = await inquirer.prompt([
+                {
+                    type: "confirm",
+                    name: "confirm",
+                    message: `Drop "${entry.task}" (${entry.branch}, ${date})?`,
+                    default: false,
+                },
+            ]);
+            if (!confirm) return;
+        }
+
+        await store.delete(entry.id);
+        console.log(chalk.green(`✓ Dropped entry ${shortId(entry)} from branch: ${chalk.bold(entry.branch)}`));
+        setResult({ dropped: true, entry });
+        await reinject(store, entry.branch);
+    } catch (err: any) {
+        fail(err);
+    }
+}
+
+async function applyEdit(store: ContextStore, entry: ContextEntry, message: string): Promise<void> {
+    const updated: ContextEntry = { ...entry, source: "manual" };
+    if (!(await replaceEntry(store, updated))) {
+        fail(new ValyrianCtxError(`Entry ${shortId(entry)} was removed while you were editing it.`, "ERROR"));
+        return;
+    }
+    console.log(chalk.green(message));
+    setResult({ updated: true, entry: updated });
+    await reinject(store, entry.branch);
+}
+
+/**
+ * Open an entry in $VISUAL/$EDITOR as markdown (see entryToMarkdown). Returns
+ * null if the edit was cancelled, and the same entry if the file was left as
+ * is. On invalid input the user can re-open the editor with their changes intact
+ * (with --json, which has no prompts, it fails instead).
+ */
+async function editInEditor(entry: ContextEntry): Promise<ContextEntry | null> {
+    const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === "win32" ? "notepad" : "vi");
+    const original = entryToMarkdown(entry);
+    const tmpFile = path.join(os.tmpdir(), `valyrianctx-entry-${shortId(entry)}-${process.pid}.md`);
+    fs.writeFileSync(tmpFile, original);
+
+    try {
+        while (true) {
+            const result = spawnSync(`${editor} "${tmpFile}"`, { stdio: "inherit", shell: true });
+            if (result.status !== 0) {
+                fail(new ValyrianCtxError(`Editor exited with status ${result.status ?? result.signal}. Entry not changed.`, "ERROR"));
+                return null;
+            }
+
+            const content = fs.readFileSync(tmpFile, "utf-8");
+            try {
+                const edited = parseEntryMarkdown(content, entry);
+                if (!edited) {
+                    console.log(chalk.gray("  Empty document, entry not changed."));
+                    return null;
+                }
+                return content === original ? entry : edited;
+            } catch (err: any) {
+                if (isJsonOutput()) {
+                    fail(new UsageError(err.message));
+                    return null;
+                }
+                console.error(chalk.red(`✗ ${err.message}`));
+                const { retry } = await inquirer.prompt([
+                    { type: "confirm", name: "retry", message: "Re-open the editor to fix it?", default: true },
+                ]);
+                if (!retry) {
+                    console.log(chalk.gray("  Entry not changed."));
+                    return null;
+                }
+            }
+        }
+    } finally {
+        fs.rmSync(tmpFile, { force: true });
+    }
+}
+
+async function reinject(store: ContextStore, branch: string): Promise<void> {
+    try {
+        if (branch !== (await getCurrentBranch())) return;
+        const entries = await store.loadBranch(branch);
+        if (entries.length > 0) {
+            await injectContext(entries);
+        } else {
+            await clearContextFromRules(await getRepoRoot());
+        }
+    } catch {
+        // Non-fatal — injection is best-effort
+    }
+}
+
+function printList(title: string, items: string[], numbered = false): void {
+    if (items.length === 0) return;
+    print(chalk.bold(`\n  ${title}`));
+    items.forEach((item, i) => print(`    ${numbered ? `${i + 1}.` : "-"} ${item}`));
+}
@@ -0,0 +1,75 @@
+import chalk from "chalk";
+import { isInitialized, NotInitializedError, getValyrianCtxDir, withStoreLock } from "../core/context";
+import { checkStore, rebuildStore, FsckProblem, RebuildTarget } from "../core/fsck";
+import { UsageError, ValyrianCtxError } from "../core/errors";
+import { fail, print, setResult } from "../utils/output";
+
+const REBUILD_TARGETS: RebuildTarget[] = ["branches", "sessions"];
+
+/**
+ * Validate the context store, or rebuild branches/ or sessions/ from the other.
+ * Exits with the STORE_CORRUPT code when problems are found, so it can run in CI.
+ */
+export async function fsckCommand(options: { rebuild?: string; dryRun?: boolean } = {}) {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        const dir = await getValyrianCtxDir();
+
+        if (options.rebuild !== undefined) {
+            const target = options.rebuild as RebuildTarget;
+            if (!REBUILD_TARGETS.includes(target)) {
+                fail(new UsageError(`Unknown rebuild target "${options.rebuild}". Use: ${REBUILD_TARGETS.join(", ")}`));
+                return;
+            }
+
+            const changes = options.dryRun
+                ? rebuildStore(dir, target, { dryRun: true })
+                : await withStoreLock(() => rebuildStore(dir, target));
+            setResult({ rebuild: target, dryRun: !!options.dryRun, changes });
+
+            if (changes.length === 0) {
+                console.log(chalk.green(`✓ ${target}/ already matches, nothing to rebuild`));
+                return;
+            }
+            console.log(chalk.bold(`\n${options.dryRun ? "Would rebuild" : "Rebuilt"} ${target}/:\n`));
+            for (const change of changes) {
+                print(chalk.gray(`  ${options.dryRun ? "would" : "✓"} ${change}`));
+            }
+            console.log();
+            if (options.dryRun) {
+                console.log(chalk.gray(`  Dry run — nothing was written. Run \`valyrianctx fsck --rebuild ${target}\` to apply.`));
+                console.log();
+            }
+            return;
+        }
+
+        const report = checkStore(dir);
+        setResult(report);
+        if (report.problems.length === 0) {
+            console.log(chalk.green(`✓ Context store OK: ${report.entries} entries in ${report.files} files`));
+            return;
+        }
+
+        console.log(chalk.bold(`\nChecked ${report.entries} entries in ${report.files} files\n`));
+        for (const problem of report.problems) {
+            print(`  ${chalk.cyan(formatLocation(problem))} ${chalk.yellow(problem.kind)}`);
+            print(chalk.gray(`    ${problem.entryId ? `${problem.entryId}: ` : ""}${problem.message}`));
+        }
+
+        console.log(chalk.gray("\n  To repair (add --dry-run to preview):"));
+        console.log(chalk.gray("    valyrianctx fsck --rebuild branches   rewrite branch logs from every valid entry, recovering sessions"));
+        console.log(chalk.gray("    valyrianctx fsck --rebuild sessions   make sessions/ match the branch logs"));
+        console.log();
+        fail(new ValyrianCtxError(`${report.problems.length} problem(s) found`, "STORE_CORRUPT"));
+    } catch (err: any) {
+        fail(err);
+    }
+}
+
+function formatLocation(problem: FsckProblem): string {
+    return problem.line !== undefined ? `${problem.file}:${problem.line}` : problem.file;
+}
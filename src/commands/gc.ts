@@ -0,0 +1,73 @@
+import chalk from "chalk";
+import { isInitialized, NotInitializedError, getContextStore } from "../core/context";
+import { collectGarbage, hasRetentionLimits } from "../core/retention";
+import { resolveRetentionPolicy, GcFlags } from "../core/options";
+import { getEntrySource } from "../core/source";
+import { fail, print, setResult } from "../utils/output";
+
+interface GcOptions extends GcFlags {
+    dryRun?: boolean;
+    branch?: string;
+}
+
+/**
+ * Remove old context entries according to the retention settings
+ * (retentionMaxAge, retentionMaxEntries, retentionKeepManual), or the
+ * limits given on the command line.
+ */
+export async function gcCommand(options: GcOptions = {}) {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        const policy = await resolveRetentionPolicy(options);
+        if (!hasRetentionLimits(policy)) {
+            setResult({ dryRun: !!options.dryRun, removed: 0, branches: [] });
+            console.log(chalk.yellow("⚠ No retention limits set, nothing to remove."));
+            console.log(chalk.gray("  Set one with `valyrianctx config set retentionMaxAge 30` (days)"));
+            console.log(chalk.gray("  or `valyrianctx config set retentionMaxEntries 50` (per branch)."));
+            return;
+        }
+
+        const store = await getContextStore();
+        const results = await collectGarbage(store, policy, {
+            branches: options.branch ? [options.branch] : undefined,
+            dryRun: options.dryRun,
+        });
+        const affected = results.filter((r) => r.removed.length > 0);
+        const total = affected.reduce((sum, r) => sum + r.removed.length, 0);
+        setResult({
+            dryRun: !!options.dryRun,
+            removed: total,
+            branches: affected.map((r) => ({ branch: r.branch, removed: r.removed, remaining: r.remaining })),
+        });
+
+        if (total === 0) {
+            console.log(chalk.green("✓ Nothing to remove: every branch is within the retention limits."));
+            return;
+        }
+
+        if (options.dryRun) {
+            console.log(chalk.bold(`\nWould remove ${total} entries from ${affected.length} branch(es):\n`));
+            for (const result of affected) {
+                print(`  ${chalk.cyan(result.branch)} ${chalk.gray(`(${result.remaining} would remain)`)}`);
+                for (const entry of result.removed) {
+                    const date = new Date(entry.timestamp).toLocaleString();
+                    print(`    ${chalk.gray(`[${date}]`)} ${entry.task} ${chalk.gray(`(${getEntrySource(entry)})`)}`);
+                }
+            }
+            console.log(chalk.gray("\n  Run without --dry-run to remove them."));
+            console.log();
+            return;
+        }
+
+        console.log(chalk.green(`✓ Removed ${total} entries from ${affected.length} branch(es)`));
+        for (const result of affected) {
+            console.log(chalk.gray(`  ${result.branch}: -${result.removed.length}, ${result.remaining} remaining`));
+        }
+    } catch (err: any) {
+        fail(err);
+    }
+}
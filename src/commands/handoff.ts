@@ -1,23 +1,16 @@
 import chalk from "chalk";
 import inquirer from "inquirer";
-import { v4 as uuid } from "uuid";
-import { isInitialized, saveContext } from "../core/context";
-import {
-    getCurrentBranch,
-    getRepoName,
-    getChangedFiles,
-    getStagedFiles,
-    getRecentCommits,
-    getAuthor,
-} from "../core/git";
-import { ContextEntry } from "../core/types";
+import { isInitialized, NotInitializedError } from "../core/context";
+import { UsageError } from "../core/errors";
+import { saveContext, SaveInput } from "../core/save";
+import { fail, isJsonOutput, setResult } from "../utils/output";
 
 export async function handoffCommand(
     assignee?: string,
     message?: string
 ) {
     if (!(await isInitialized())) {
-        console.log(chalk.red("✗ ValyrianCtx not initialized. Run `valyrianctx init` first."));
+        fail(new NotInitializedError());
         return;
     }
 
@@ -25,8 +18,13 @@ export async function handoffCommand(
         // Clean up @ prefix if present
         let targetAssignee = assignee?.replace(/^@/, "") || "";
         let handoffNote = message || "";
+        let input: SaveInput;
 
         if (!targetAssignee || !handoffNote) {
+            if (isJsonOutput()) {
+                fail(new UsageError("Pass an assignee and a handoff note to hand off with --json."));
+                return;
+            }
             const answers = await inquirer.prompt([
                 ...(!targetAssignee
                     ? [
@@ -81,99 +79,39 @@ export async function handoffCommand(
             targetAssignee = targetAssignee || answers.assignee;
             handoffNote = handoffNote || answers.handoffNote;
 
-            const [branch, repo, filesChanged, filesStaged, recentCommits, author] =
-                await Promise.all([
-                    getCurrentBranch(),
-                    getRepoName(),
-                    getChangedFiles(),
-                    getStagedFiles(),
-                    getRecentCommits(),
-                    getAuthor(),
-                ]);
-
-            const entry: ContextEntry = {
-                id: uuid(),
-                timestamp: new Date().toISOString(),
-                branch,
-                repo,
-                author,
+            input = {
                 task: answers.task,
-                approaches: [],
-                decisions: [],
                 currentState: answers.currentState,
-                nextSteps: answers.nextSteps
-                    ? answers.nextSteps
-                        .split(",")
-                        .map((s: string) => s.trim())
-                        .filter(Boolean)
-                    : [],
-                blockers: answers.blockers
-                    ? answers.blockers
-                        .split(",")
-                        .map((s: string) => s.trim())
-                        .filter(Boolean)
-                    : undefined,
-                filesChanged,
-                filesStaged,
-                recentCommits,
-                assignee: targetAssignee,
-                handoffNote,
+                nextSteps: splitList(answers.nextSteps),
+                blockers: splitList(answers.blockers),
             };
-
-            await saveContext(entry);
-
-            console.log(chalk.green(`\n✓ Handoff created for ${chalk.bold("@" + targetAssignee)}`));
-            console.log(chalk.gray(`  Branch: ${branch}`));
-            console.log(chalk.cyan(`\n  📝 Handoff Note:`));
-            console.log(chalk.white(`  ${handoffNote}\n`));
-            console.log(
-                chalk.gray(
-                    `  They can resume with: ${chalk.white("valyrianctx resume --branch " + branch)}`
-                )
-            );
         } else {
             // Quick mode — minimal context with handoff
-            const [branch, repo, filesChanged, filesStaged, recentCommits, author] =
-                await Promise.all([
-                    getCurrentBranch(),
-                    getRepoName(),
-                    getChangedFiles(),
-                    getStagedFiles(),
-                    getRecentCommits(),
-                    getAuthor(),
-                ]);
-
-            const entry: ContextEntry = {
-                id: uuid(),
-                timestamp: new Date().toISOString(),
-                branch,
-                repo,
-                author,
-                task: `Handoff to @${targetAssignee}`,
-                approaches: [],
-                decisions: [],
-                currentState: handoffNote,
-                nextSteps: [],
-                filesChanged,
-                filesStaged,
-                recentCommits,
-                assignee: targetAssignee,
-                handoffNote,
-            };
+            input = { task: `Handoff to @${targetAssignee}`, currentState: handoffNote };
+        }
 
-            await saveContext(entry);
+        const result = await saveContext({ ...input, assignee: targetAssignee, handoffNote });
+        if (!result.saved) return;
+        const { entry } = result;
+        setResult({ branch: entry.branch, assignee: targetAssignee, entry });
 
-            console.log(chalk.green(`\n✓ Handoff created for ${chalk.bold("@" + targetAssignee)}`));
-            console.log(chalk.gray(`  Branch: ${branch}`));
-            console.log(chalk.cyan(`\n  📝 Handoff Note:`));
-            console.log(chalk.white(`  ${handoffNote}\n`));
-            console.log(
-                chalk.gray(
-                    `  They can resume with: ${chalk.white("valyrianctx resume --branch " + branch)}`
-                )
-            );
-        }
+        console.log(chalk.green(`\n✓ Handoff created for ${chalk.bold("@" + targetAssignee)}`));
+        console.log(chalk.gray(`  Branch: ${entry.branch}`));
+        console.log(chalk.cyan(`\n  📝 Handoff Note:`));
+        console.log(chalk.white(`  ${handoffNote}\n`));
+        console.log(
+            chalk.gray(
+                `  They can resume with: ${chalk.white("valyrianctx resume --branch " + entry.branch)}`
+            )
+        );
     } catch (err: any) {
-        console.log(chalk.red(`✗ Error: ${err.message}`));
+        fail(err);
     }
 }
+
+function splitList(value: string): string[] {
+    return value
+        .split(",")
+        .map((s) => s.trim())
+        .filter(Boolean);
+}
@@ -2,6 +2,7 @@ import fs from "fs";
 import path from "path";
 import chalk from "chalk";
 import { getRepoRoot } from "../core/git";
+import { fail, setResult } from "../utils/output";
 
 const MARKER_START = "# valyrianctx:hook:start";
 const MARKER_END = "# valyrianctx:hook:end";
@@ -22,6 +23,9 @@ interface HookDefinition {
  * 
  * post-checkout: When switching branches, inject that branch's context
  *   into rule files. The AI reads the correct context without any commands.
+ *
+ * post-merge: After `git merge <branch>`, fold the merged branch's decisions
+ *   into this branch and archive its context (see `valyrianctx branches`).
  */
 const HOOKS: HookDefinition[] = [
     {
@@ -43,27 +47,47 @@ const HOOKS: HookDefinition[] = [
         ].join("\n"),
         description: "Branch context auto-injected into IDE rule files on checkout",
     },
+    {
+        name: "post-merge",
+        script: [
+            `# Carry a merged child branch's decisions into this branch (not on catch-up merges of the base)`,
+            `valyrianctx branches fold --last-merge 2>/dev/null || true`,
+        ].join("\n"),
+        description: "Merged branch context folded into the target branch",
+    },
 ];
 
+/**
+ * True if every ValyrianCtx hook is installed in `hooksDir`.
+ */
+export function hooksInstalled(hooksDir: string): boolean {
+    return HOOKS.every((hook) => {
+        const hookPath = path.join(hooksDir, hook.name);
+        return fs.existsSync(hookPath) && fs.readFileSync(hookPath, "utf-8").includes(MARKER_START);
+    });
+}
+
 export async function hookCommand(action?: string) {
     try {
         const root = await getRepoRoot();
         const hooksDir = path.join(root, ".git", "hooks");
 
         if (action === "remove") {
-            await removeHooks(hooksDir);
+            setResult({ action: "remove", hooks: await removeHooks(hooksDir) });
             return;
         }
 
         // Default: install all hooks
-        await installHooks(hooksDir);
+        setResult({ action: "install", hooks: await installHooks(hooksDir) });
     } catch (err: any) {
-        console.log(chalk.red(`✗ Error: ${err.message}`));
+        fail(err);
     }
 }
 
-async function installHooks(hooksDir: string): Promise<void> {
+/** Returns the names of the hooks installed (not those already there) */
+async function installHooks(hooksDir: string): Promise<string[]> {
     fs.mkdirSync(hooksDir, { recursive: true });
+    const installed: string[] = [];
 
     for (const hook of HOOKS) {
         const hookPath = path.join(hooksDir, hook.name);
@@ -86,13 +110,16 @@ async function installHooks(hooksDir: string): Promise<void> {
         fs.chmodSync(hookPath, "755");
 
         console.log(chalk.green(`  ✓ ${hook.name}: ${hook.description}`));
+        installed.push(hook.name);
     }
 
     console.log(chalk.gray("  Remove with: valyrianctx hook remove"));
+    return installed;
 }
 
-async function removeHooks(hooksDir: string): Promise<void> {
-    let removedCount = 0;
+/** Returns the names of the hooks removed */
+async function removeHooks(hooksDir: string): Promise<string[]> {
+    const removed: string[] = [];
 
     for (const hook of HOOKS) {
         const hookPath = path.join(hooksDir, hook.name);
@@ -121,14 +148,15 @@ async function removeHooks(hooksDir: string): Promise<void> {
             fs.chmodSync(hookPath, "755");
         }
 
-        removedCount++;
+        removed.push(hook.name);
     }
 
-    if (removedCount === 0) {
+    if (removed.length === 0) {
         console.log(chalk.yellow("⚠ No ValyrianCtx git hooks found."));
     } else {
-        console.log(chalk.green(`✓ Removed ${removedCount} ValyrianCtx git hook(s)`));
+        console.log(chalk.green(`✓ Removed ${removed.length} ValyrianCtx git hook(s)`));
     }
+    return removed;
 }
 
 function escapeRegex(str: string): string {
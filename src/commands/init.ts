@@ -3,9 +3,13 @@ import path from "path";
 import chalk from "chalk";
 import { getRepoRoot, getRepoName } from "../core/git";
 import { ValyrianCtxConfig } from "../core/types";
+import { CURRENT_SCHEMA_VERSION } from "../core/migrations";
+import { ensureStoreGitignore } from "../core/store-gitignore";
+import { ensureMergeDriver } from "../core/merge-driver";
 import { writeIDERules, listIDERules } from "../core/agent-rules";
-import { hookCommand } from "./hook";
+import { hookCommand, hooksInstalled } from "./hook";
 import { loadConfig } from "../utils/config";
+import { fail, setResult } from "../utils/output";
 
 export async function initCommand() {
   try {
@@ -24,9 +28,14 @@ export async function initCommand() {
         version: "0.1.0",
         createdAt: new Date().toISOString(),
         repo: await getRepoName(),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        settings: {},
       };
       fs.writeFileSync(path.join(valyrianCtxDir, "config.json"), JSON.stringify(config, null, 2));
 
+      // Personal settings, locks and indexes stay local even if .valyrianctx/ is shared
+      ensureStoreGitignore(valyrianCtxDir);
+
       // Add to .gitignore
       const gitignorePath = path.join(root, ".gitignore");
       const gitignoreContent = fs.existsSync(gitignorePath)
@@ -42,6 +51,14 @@ export async function initCommand() {
     } else {
       console.log(chalk.green(`✓ ValyrianCtx already initialized in ${root}`));
     }
+    setResult({ root, created: !alreadyInitialized, ruleFiles: [] });
+
+    // Merge concurrent saves instead of leaving conflict markers in shared
+    // context files. The driver lives in local git config, so every clone
+    // (including teammates who pulled a shared .valyrianctx/) registers it here.
+    if (await ensureMergeDriver(valyrianCtxDir)) {
+      console.log(chalk.gray("  Registered the valyrianctx git merge driver"));
+    }
 
     // Always generate/update IDE rule files
     // Check if any IDE rules are missing
@@ -87,15 +104,12 @@ export async function initCommand() {
     // Auto-install git hooks (respects config.autoHook, default: true)
     // - post-commit: auto-save + inject context into rule files
     // - post-checkout: inject correct branch context on switch
+    // - post-merge: fold the merged branch's context into the target
     const config = await loadConfig();
     if (config.autoHook) {
       const hooksDir = path.join(root, ".git", "hooks");
-      const postCommitPath = path.join(hooksDir, "post-commit");
-      const postCheckoutPath = path.join(hooksDir, "post-checkout");
-      const hasPostCommit = fs.existsSync(postCommitPath) && fs.readFileSync(postCommitPath, "utf-8").includes("valyrianctx:hook:start");
-      const hasPostCheckout = fs.existsSync(postCheckoutPath) && fs.readFileSync(postCheckoutPath, "utf-8").includes("valyrianctx:hook:start");
 
-      if (!hasPostCommit || !hasPostCheckout) {
+      if (!hooksInstalled(hooksDir)) {
         console.log("");
         console.log(chalk.blue("Installing git hooks..."));
         await hookCommand("install");
@@ -108,11 +122,9 @@ export async function initCommand() {
       console.log("");
       console.log(chalk.gray("Run `valyrianctx save` to capture your first context."));
     }
+    // After the hook install, which reports its own result
+    setResult({ root, created: !alreadyInitialized, ruleFiles: written });
   } catch (err: any) {
-    if (err.message?.includes("not a git repository")) {
-      console.log(chalk.red("✗ Not a git repository. Run `git init` first."));
-    } else {
-      console.log(chalk.red(`✗ Error: ${err.message}`));
-    }
+    fail(err);
   }
 }
@@ -1,51 +1,79 @@
 import chalk from "chalk";
-import { isInitialized, loadBranchContext, loadAllSessions } from "../core/context";
-import { getCurrentBranch } from "../core/git";
+import { isInitialized, NotInitializedError } from "../core/context";
+import { resolveLogOptions, LogFlags, LogFormat } from "../core/options";
+import { queryLog } from "../core/history";
+import { shortId } from "../core/entry-edit";
+import { hasFilters } from "../core/entry-filter";
+import { getEntrySource } from "../core/source";
+import { ContextEntry } from "../core/types";
+import { fail, isJsonOutput, print, setResult } from "../utils/output";
 
-export async function logCommand(options?: { all?: boolean; count?: string }) {
+export async function logCommand(flags?: LogFlags) {
   if (!(await isInitialized())) {
-    console.log(chalk.red("✗ ValyrianCtx not initialized. Run `valyrianctx init` first."));
+    fail(new NotInitializedError());
     return;
   }
 
   try {
-    const count = parseInt(options?.count || "10", 10);
-
-    if (options?.all) {
-      const sessions = await loadAllSessions();
-      if (sessions.length === 0) {
-        console.log(chalk.yellow("No context entries found."));
-        return;
-      }
-
-      console.log(chalk.bold("\nAll branches:\n"));
-      sessions.slice(0, count).forEach((s) => {
-        const date = new Date(s.timestamp).toLocaleString();
-        console.log(`  ${chalk.gray(`[${date}]`)} ${chalk.cyan(s.branch)} ${s.task}`);
+    const options = await resolveLogOptions({ ...flags, json: isJsonOutput() });
+    const { format } = options;
+    const filtered = hasFilters(options.filters);
+    const { branch, entries } = await queryLog(options);
+
+    setResult(entries);
+    if (format === "json") return;
+    if (format === "ndjson") {
+      entries.forEach((e) => print(JSON.stringify(e)));
+      return;
+    }
+
+    if (entries.length === 0) {
+      if (filtered) console.log(chalk.yellow("No context entries match the filters."));
+      else console.log(chalk.yellow(branch ? `No context for branch: ${branch}` : "No context entries found."));
+      return;
+    }
+
+    if (format === "oneline") {
+      entries.forEach((e) => {
+        const date = e.timestamp.slice(0, 10);
+        print(`${chalk.yellow(shortId(e))} ${chalk.gray(date)} ${branch ? "" : `${chalk.cyan(e.branch)} `}${e.task}`);
       });
-    } else {
-      const branch = await getCurrentBranch();
-      const entries = await loadBranchContext(branch);
-
-      if (entries.length === 0) {
-        console.log(chalk.yellow(`No context for branch: ${branch}`));
-        return;
-      }
-
-      console.log(chalk.bold(`\nBranch: ${branch}\n`));
-      entries
-        .slice(-count)
-        .reverse()
-        .forEach((e) => {
-          const date = new Date(e.timestamp).toLocaleString();
-          console.log(`  ${chalk.gray(`[${date}]`)} ${e.task}`);
-          if (e.currentState) {
-            console.log(`    ${chalk.gray("└─")} ${e.currentState}`);
-          }
-        });
+      return;
     }
-    console.log();
+
+    print(chalk.bold(branch ? `\nBranch: ${branch}\n` : "\nAll branches:\n"));
+    entries.forEach((e) => printEntry(e, format, !branch));
+    if (format !== "full") print();
   } catch (err: any) {
-    console.log(chalk.red(`✗ Error: ${err.message}`));
+    fail(err);
   }
 }
+
+function printEntry(e: ContextEntry, format: LogFormat, showBranch: boolean): void {
+  const date = new Date(e.timestamp).toLocaleString();
+  const branch = showBranch ? `${chalk.cyan(e.branch)} ` : "";
+  print(`  ${chalk.gray(`[${date}]`)} ${chalk.yellow(shortId(e))} ${branch}${e.task}`);
+
+  if (format !== "full") {
+    if (e.currentState && !showBranch) {
+      print(`    ${chalk.gray("└─")} ${e.currentState}`);
+    }
+    return;
+  }
+
+  print(chalk.gray(`    ${e.author ? `by ${e.author}, ` : ""}${getEntrySource(e)} save`));
+  if (e.goal) print(`    ${chalk.gray("Goal:")} ${e.goal}`);
+  if (e.currentState) print(`    ${chalk.gray("State:")} ${e.currentState}`);
+  printList("Approaches", e.approaches);
+  printList("Decisions", e.decisions);
+  printList("Next steps", e.nextSteps);
+  printList("Blockers", e.blockers ?? []);
+  if (e.handoffNote) print(`    ${chalk.gray("Handoff:")} ${e.handoffNote}`);
+  print();
+}
+
+function printList(title: string, items: string[]): void {
+  if (items.length === 0) return;
+  print(`    ${chalk.gray(`${title}:`)}`);
+  items.forEach((item) => print(`      - ${item}`));
+}
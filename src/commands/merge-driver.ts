@@ -0,0 +1,21 @@
+import fs from "fs";
+import { mergeContextFile } from "../core/merge-driver";
+
+/**
+ * Entry point git calls to merge `.valyrianctx/` files (see core/merge-driver.ts):
+ *
+ *   valyrianctx merge-driver %O %A %B %P
+ *
+ * The merged result is written over %A. A non-zero exit tells git the merge
+ * failed, in which case it falls back to reporting a conflict.
+ */
+export async function mergeDriverCommand(base: string, ours: string, theirs: string, filePath?: string) {
+    try {
+        const read = (file: string) => (fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : "");
+        const merged = mergeContextFile(read(base), read(ours), read(theirs), filePath || ours);
+        fs.writeFileSync(ours, merged);
+    } catch (err: any) {
+        console.error(`valyrianctx merge-driver: ${err.message}`);
+        process.exitCode = 1;
+    }
+}
@@ -0,0 +1,50 @@
+import chalk from "chalk";
+import { isInitialized, NotInitializedError, getValyrianCtxDir, withStoreLock } from "../core/context";
+import { migrateStore, CURRENT_SCHEMA_VERSION } from "../core/migrations";
+import { fail, setResult } from "../utils/output";
+
+export async function migrateCommand(options?: { dryRun?: boolean }) {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        const dir = await getValyrianCtxDir();
+        const dryRun = !!options?.dryRun;
+        const report = dryRun
+            ? migrateStore(dir, { dryRun })
+            : await withStoreLock(() => migrateStore(dir));
+        setResult({ dryRun, ...report });
+
+        if (report.steps.length === 0) {
+            console.log(chalk.green(`✓ Context store is up to date (schema v${CURRENT_SCHEMA_VERSION})`));
+            return;
+        }
+
+        console.log(
+            chalk.bold(
+                `\n${dryRun ? "Would migrate" : "Migrated"} context store: schema v${report.from} → v${report.to}\n`
+            )
+        );
+
+        for (const step of report.steps) {
+            console.log(`  ${chalk.cyan(`v${step.to}`)} ${step.description}`);
+            if (step.changes.length === 0) {
+                console.log(chalk.gray("    (no file changes needed)"));
+            }
+            for (const change of step.changes) {
+                console.log(chalk.gray(`    ${dryRun ? "would" : "✓"} ${change}`));
+            }
+        }
+
+        console.log();
+        if (dryRun) {
+            console.log(chalk.gray("  Dry run — nothing was written. Run `valyrianctx migrate` to apply."));
+        } else {
+            console.log(chalk.gray("  If .valyrianctx/ is shared, commit the result so teammates get the same layout."));
+        }
+    } catch (err: any) {
+        fail(err);
+    }
+}
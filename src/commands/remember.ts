@@ -0,0 +1,85 @@
+import chalk from "chalk";
+import { isInitialized, NotInitializedError } from "../core/context";
+import { getProjectMemory, parseMemoryKind, remember } from "../core/remember";
+import { isProjectMemoryEmpty, MEMORY_KINDS, MEMORY_KIND_NAMES } from "../core/project-memory";
+import { UsageError } from "../core/errors";
+import { fail, print, setResult } from "../utils/output";
+
+interface RememberOptions {
+    kind?: string;
+    from?: string;
+    pick?: string;
+}
+
+/*
+ * Project memory (see core/project-memory.ts):
+ *
+ *   valyrianctx remember <text>                   add a decision (or --kind convention|glossary)
+ *   valyrianctx remember --from <id> [--pick 1,3]  promote a saved entry's decisions
+ *   valyrianctx remember                          show what the project remembers
+ */
+
+export async function rememberCommand(words: string[] = [], options: RememberOptions = {}) {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        const kind = options.kind !== undefined ? parseMemoryKind(options.kind) : undefined;
+        if (words.length === 0 && options.from === undefined) {
+            if (options.pick !== undefined) throw new UsageError("--pick needs --from <id>");
+            await showProjectMemory();
+            return;
+        }
+
+        const result = await remember({
+            items: words.length > 0 ? [words.join(" ")] : undefined,
+            from: options.from,
+            pick: options.pick !== undefined ? parsePick(options.pick) : undefined,
+            kind,
+        });
+        setResult(result);
+
+        const label = MEMORY_KINDS[result.kind].heading.toLowerCase();
+        if (result.added.length > 0) {
+            console.log(chalk.green(`✓ Added to ${label}: ${chalk.bold(result.file)}`));
+            result.added.forEach((item) => console.log(`  - ${item}`));
+        }
+        if (result.skipped.length > 0) {
+            console.log(chalk.gray(`  Already remembered: ${result.skipped.join("; ")}`));
+        }
+        if (result.injectedRuleFiles > 0) {
+            console.log(chalk.gray(`  Context synced to ${result.injectedRuleFiles} IDE rule file(s) for auto-resume`));
+        }
+    } catch (err: any) {
+        fail(err);
+    }
+}
+
+async function showProjectMemory(): Promise<void> {
+    const memory = await getProjectMemory();
+    setResult(memory);
+
+    if (isProjectMemoryEmpty(memory)) {
+        console.log(chalk.yellow("No project memory yet."));
+        console.log(chalk.gray("  Add some with `valyrianctx remember <text>` or `valyrianctx remember --from <id>`."));
+        return;
+    }
+
+    for (const kind of MEMORY_KIND_NAMES) {
+        const items = memory[MEMORY_KINDS[kind].field];
+        if (items.length === 0) continue;
+        print(chalk.bold(`\n  ${MEMORY_KINDS[kind].heading}`));
+        items.forEach((item) => print(`    - ${item}`));
+    }
+    print();
+}
+
+function parsePick(value: string): number[] {
+    const picks = value.split(",").map((s) => Number(s.trim()));
+    if (picks.some((n) => !Number.isInteger(n) || n < 1)) {
+        throw new UsageError(`Invalid --pick: ${value} (expected decision numbers, e.g. 1,3)`);
+    }
+    return picks;
+}
@@ -1,60 +1,74 @@
 import chalk from "chalk";
-import { isInitialized, loadBranchContext } from "../core/context";
-import { getCurrentBranch, getRepoRoot } from "../core/git";
-import { generatePrompt } from "../core/prompt";
+import { isInitialized, NotInitializedError } from "../core/context";
+import { injectResumeContext, resumeContext, ResumeResult } from "../core/resume";
+import { describeTrims } from "../core/prompt-budget";
 import { copyToClipboard } from "../utils/clipboard";
-import { injectContextIntoRules, clearContextFromRules } from "../core/agent-rules";
+import { resolveResumeOptions, ResumeFlags } from "../core/options";
+import { fail, isJsonOutput, print, setResult, warn } from "../utils/output";
 
-export async function resumeCommand(options?: { branch?: string; stdout?: boolean; inject?: boolean }) {
+export async function resumeCommand(flags?: ResumeFlags) {
   if (!(await isInitialized())) {
-    console.log(chalk.red("✗ ValyrianCtx not initialized. Run `valyrianctx init` first."));
+    fail(new NotInitializedError());
     return;
   }
 
   try {
-    const branch = options?.branch || (await getCurrentBranch());
-    const entries = await loadBranchContext(branch);
-    const root = await getRepoRoot();
+    const options = await resolveResumeOptions(flags);
 
-    if (entries.length === 0) {
-      if (options?.inject) {
-        // No context for this branch — clear any stale context from rule files
-        await clearContextFromRules(root);
-        return;
+    if (options.inject) {
+      // Inject mode: write context directly into IDE rule files.
+      // Called by git hooks (post-checkout, post-commit) so the AI reads
+      // the context automatically on next session — no commands needed.
+      // With no context for this branch or its parent, stale context is cleared.
+      const result = await injectResumeContext(options.branch, {
+        maxTokens: options.maxTokens,
+        format: options.format,
+      });
+      if (result.injectedRuleFiles > 0) {
+        console.log(chalk.gray(`  Context injected into ${result.injectedRuleFiles} IDE rule file(s)`));
       }
-      console.log(chalk.yellow(`⚠ No context found for branch: ${branch}`));
-      console.log(chalk.gray("  Run `valyrianctx save` to capture context first."));
+      setResult(result.prompt === null ? result : { ...result, output: "inject" });
       return;
     }
 
-    const prompt = generatePrompt(entries);
+    const result = await resumeContext(options.branch, {
+      maxTokens: options.maxTokens,
+      format: options.format,
+    });
+    const { branch, prompt } = result;
 
-    if (options?.inject) {
-      // Inject mode: write context directly into IDE rule files.
-      // Called by git hooks (post-checkout, post-commit) so the AI reads
-      // the context automatically on next session — no commands needed.
-      const injected = await injectContextIntoRules(root, prompt);
-      if (injected > 0) {
-        console.log(chalk.gray(`  Context injected into ${injected} IDE rule file(s)`));
-      }
+    if (prompt === null) {
+      setResult(result);
+      console.log(chalk.yellow(`⚠ No context found for branch: ${branch}`));
+      console.log(chalk.gray("  Run `valyrianctx save` to capture context first."));
       return;
     }
 
-    if (options?.stdout) {
-      console.log(prompt);
+    if (options.output === "stdout") {
+      print(prompt);
+      setResult({ ...result, output: "stdout" });
     } else {
-      const copied = await copyToClipboard(prompt);
+      // With --json the prompt is in the result; don't touch the clipboard
+      const copied = !isJsonOutput() && (await copyToClipboard(prompt));
+      setResult({ ...result, output: copied ? "clipboard" : "stdout" });
       if (copied) {
         console.log(chalk.green("📋 Context copied to clipboard!"));
-        console.log(
-          chalk.gray(`  Branch: ${branch} | ${entries.length} sessions | Paste into any AI tool`)
-        );
+        const sessions = result.inheritedFrom
+          ? `inherited from ${result.inheritedFrom}`
+          : `${result.sessions} sessions`;
+        console.log(chalk.gray(`  Branch: ${branch} | ${sessions} | ~${result.tokens} tokens | Paste into any AI tool`));
       } else {
         // Fallback: print to stdout if clipboard failed
-        console.log(prompt);
+        print(prompt);
       }
     }
+    reportTrims(result);
   } catch (err: any) {
-    console.log(chalk.red(`✗ Error: ${err.message}`));
+    fail(err);
   }
 }
+
+function reportTrims(result: ResumeResult): void {
+  if (result.trimmed.length === 0 && !result.truncated) return;
+  warn(`Prompt cut to ~${result.tokens} tokens to fit the budget: ${describeTrims(result)}`);
+}
@@ -7,6 +7,8 @@ import {
     listIDERules,
     getAllIDERules,
 } from "../core/agent-rules";
+import { UsageError } from "../core/errors";
+import { fail, print, setResult } from "../utils/output";
 
 interface RulesOptions {
     ide?: string;
@@ -23,6 +25,7 @@ export async function rulesCommand(
         // Validate action
         const validActions = ["generate", "remove", "list"];
         if (!action || !validActions.includes(action)) {
+            if (action) fail(new UsageError(`Unknown action: ${action}`));
             console.log(chalk.yellow("Usage: valyrianctx rules <generate|remove|list>"));
             console.log("");
             console.log("Commands:");
@@ -49,11 +52,7 @@ export async function rulesCommand(
                 break;
         }
     } catch (err: any) {
-        if (err.message?.includes("not a git repository")) {
-            console.log(chalk.red("✗ Not a git repository."));
-        } else {
-            console.log(chalk.red(`✗ Error: ${err.message}`));
-        }
+        fail(err);
     }
 }
 
@@ -66,8 +65,7 @@ async function handleGenerate(root: string, options: RulesOptions) {
         const validIds = getAllIDERules().map(r => r.id);
         const invalid = ides.filter(id => !validIds.includes(id));
         if (invalid.length > 0) {
-            console.log(chalk.red(`✗ Unknown IDE(s): ${invalid.join(", ")}`));
-            console.log(chalk.gray(`  Valid IDs: ${validIds.join(", ")}`));
+            fail(new UsageError(`Unknown IDE(s): ${invalid.join(", ")}`), `  Valid IDs: ${validIds.join(", ")}`);
             return;
         }
 
@@ -81,6 +79,7 @@ async function handleGenerate(root: string, options: RulesOptions) {
     console.log("");
 
     const written = await writeIDERules(root, { ides, includeMcp });
+    setResult({ action: "generate", written });
 
     if (written.length === 0) {
         console.log(chalk.yellow("No files written."));
@@ -125,6 +124,7 @@ async function handleRemove(root: string) {
     console.log("");
 
     const removed = await removeIDERules(root);
+    setResult({ action: "remove", removed });
 
     if (removed.length === 0) {
         console.log(chalk.yellow("No valyrianctx rules found to remove."));
@@ -141,9 +141,10 @@ async function handleRemove(root: string) {
 
 async function handleList(root: string) {
     const statuses = await listIDERules(root);
+    setResult({ action: "list", rules: statuses });
 
-    console.log(chalk.blue("IDE Rule Status:"));
-    console.log("");
+    print(chalk.blue("IDE Rule Status:"));
+    print("");
 
     const maxIdeLen = Math.max(...statuses.map(s => s.ide.length));
     const maxPathLen = Math.max(...statuses.map(s => s.filePath.length));
@@ -159,17 +160,17 @@ async function handleList(root: string) {
         const ide = s.ide.padEnd(maxIdeLen);
         const filePath = chalk.gray(s.filePath.padEnd(maxPathLen));
         
-        console.log(`  ${ruleStatus} ${ide}  ${filePath}${mcpStatus}`);
+        print(`  ${ruleStatus} ${ide}  ${filePath}${mcpStatus}`);
     }
 
-    console.log("");
+    print("");
     
     const activeCount = statuses.filter(s => s.exists).length;
     const mcpCount = statuses.filter(s => s.hasMcpConfig).length;
     
     if (activeCount === 0) {
-        console.log(chalk.yellow("No IDE rules configured. Run `valyrianctx rules generate` to set up."));
+        print(chalk.yellow("No IDE rules configured. Run `valyrianctx rules generate` to set up."));
     } else {
-        console.log(chalk.gray(`${activeCount}/${statuses.length} IDEs configured, ${mcpCount} with MCP`));
+        print(chalk.gray(`${activeCount}/${statuses.length} IDEs configured, ${mcpCount} with MCP`));
     }
 }
@@ -0,0 +1,96 @@
+import chalk from "chalk";
+import { isInitialized, NotInitializedError } from "../core/context";
+import { resolveSearchOptions, SearchFlags } from "../core/options";
+import { searchHistory } from "../core/history";
+import { highlightParts, parseQuery, ParsedQuery, SearchField, SearchResult } from "../core/search";
+import { shortId } from "../core/entry-edit";
+import { fail, print, setResult } from "../utils/output";
+
+const FIELD_LABELS: Record<SearchField, string> = {
+    task: "task",
+    approaches: "tried",
+    decisions: "decided",
+    currentState: "state",
+    nextSteps: "next",
+    blockers: "blocker",
+    handoffNote: "handoff",
+};
+
+/** Matching lines shown per result, and how much of each line around the match */
+const MAX_MATCH_LINES = 3;
+const SNIPPET_WIDTH = 100;
+
+/**
+ * Search every branch's context history (task, approaches, decisions, state,
+ * next steps, blockers and handoff notes).
+ */
+export async function searchCommand(queryWords: string[], options: SearchFlags = {}) {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        const query = queryWords.join(" ");
+        const searchOptions = resolveSearchOptions(options);
+        const { limit } = searchOptions;
+        const results = await searchHistory(query, searchOptions);
+
+        setResult(results.map((r) => ({ score: Number(r.score.toFixed(3)), matches: r.matches, entry: r.entry })));
+
+        if (results.length === 0) {
+            console.log(chalk.yellow(`No context entries match "${query}".`));
+            return;
+        }
+
+        const parsed = parseQuery(query);
+        print(chalk.bold(`\n${results.length} result(s) for "${query}":\n`));
+        for (const result of results) printResult(result, parsed);
+        if (limit > 0 && results.length === limit) {
+            console.log(chalk.gray(`  Showing the top ${limit}. Use -n to see more.`));
+            console.log();
+        }
+    } catch (err: any) {
+        fail(err);
+    }
+}
+
+function printResult({ entry, matches }: SearchResult, query: ParsedQuery): void {
+    const date = new Date(entry.timestamp).toLocaleString();
+    const author = entry.author ? chalk.gray(` (${entry.author})`) : "";
+    print(
+        `  ${chalk.gray(`[${date}]`)} ${chalk.yellow(shortId(entry))} ${chalk.cyan(entry.branch)} ${highlight(entry.task, query)}${author}`
+    );
+
+    const details = matches.filter((m) => m.field !== "task");
+    for (const match of details.slice(0, MAX_MATCH_LINES)) {
+        const label = chalk.gray(`${FIELD_LABELS[match.field]}:`);
+        print(`    ${chalk.gray("└─")} ${label} ${highlight(snippet(match.text, query), query)}`);
+    }
+    if (details.length > MAX_MATCH_LINES) {
+        print(chalk.gray(`       … ${details.length - MAX_MATCH_LINES} more match(es), see \`valyrianctx show ${shortId(entry)}\``));
+    }
+    print();
+}
+
+function highlight(text: string, query: ParsedQuery): string {
+    return highlightParts(text, query)
+        .map((part) => (part.match ? chalk.bold.yellow(part.text) : part.text))
+        .join("");
+}
+
+/** One line of text, cropped around the first match */
+function snippet(text: string, query: ParsedQuery): string {
+    const line = text.replace(/\s+/g, " ").trim();
+    if (line.length <= SNIPPET_WIDTH) return line;
+
+    const parts = highlightParts(line, query);
+    let offset = 0;
+    for (const part of parts) {
+        if (part.match) break;
+        offset += part.text.length;
+    }
+    const start = Math.max(0, Math.min(offset - 30, line.length - SNIPPET_WIDTH));
+    const end = start + SNIPPET_WIDTH;
+    return `${start > 0 ? "…" : ""}${line.slice(start, end)}${end < line.length ? "…" : ""}`;
+}
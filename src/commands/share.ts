@@ -1,10 +1,13 @@
 import fs from "fs";
 import path from "path";
 import chalk from "chalk";
-import simpleGit from "simple-git";
-import { getRepoRoot } from "../core/git";
-
-const git = simpleGit();
+import { commitPaths, getRepoRoot } from "../core/git";
+import { NotInitializedError } from "../core/context";
+import { ensureStoreGitignore } from "../core/store-gitignore";
+import { ensureMergeDriver } from "../core/merge-driver";
+import { getStoreSchemaVersion, CURRENT_SCHEMA_VERSION } from "../core/migrations";
+import { ValyrianCtxError } from "../core/errors";
+import { fail, setResult } from "../utils/output";
 
 export async function shareCommand(options?: { stop?: boolean }) {
     try {
@@ -13,7 +16,7 @@ export async function shareCommand(options?: { stop?: boolean }) {
         const valyrianCtxDir = path.join(root, ".valyrianctx");
 
         if (!fs.existsSync(valyrianCtxDir)) {
-            console.log(chalk.red("✗ ValyrianCtx not initialized. Run `valyrianctx init` first."));
+            fail(new NotInitializedError());
             return;
         }
 
@@ -27,6 +30,7 @@ export async function shareCommand(options?: { stop?: boolean }) {
                 fs.appendFileSync(gitignorePath, "\n.valyrianctx/\n");
             }
 
+            setResult({ shared: false });
             console.log(chalk.green("✓ Stopped sharing ValyrianCtx"));
             console.log(chalk.gray("  .valyrianctx/ added back to .gitignore"));
             console.log(
@@ -35,6 +39,15 @@ export async function shareCommand(options?: { stop?: boolean }) {
             return;
         }
 
+        // Older stores keep personal preferences (possibly aiApiKey) in config.json
+        if (getStoreSchemaVersion(valyrianCtxDir) < CURRENT_SCHEMA_VERSION) {
+            fail(
+                new ValyrianCtxError(".valyrianctx/ uses an older schema that may contain personal settings.", "ERROR"),
+                "  Run `valyrianctx migrate` first, then `valyrianctx share`."
+            );
+            return;
+        }
+
         // Remove .valyrianctx/ from .gitignore
         if (fs.existsSync(gitignorePath)) {
             let content = fs.readFileSync(gitignorePath, "utf-8");
@@ -50,9 +63,16 @@ export async function shareCommand(options?: { stop?: boolean }) {
             fs.writeFileSync(gitignorePath, content);
         }
 
+        // Keep personal settings (config.local.json, API keys), locks and
+        // derived indexes out of the shared commit
+        ensureStoreGitignore(valyrianCtxDir);
+
+        // Merge teammates' concurrent saves entry by entry (see core/merge-driver.ts)
+        await ensureMergeDriver(valyrianCtxDir);
+
         // Stage .valyrianctx/ and commit
-        await git.add([".valyrianctx/", ".gitignore"]);
-        await git.commit("chore: share ValyrianCtx with team");
+        const commit = await commitPaths([".valyrianctx/", ".gitignore"], "chore: share ValyrianCtx with team");
+        setResult({ shared: true, commit: commit || null });
 
         console.log(chalk.green("✓ ValyrianCtx is now shared with your team!"));
         console.log(chalk.gray("  .valyrianctx/ removed from .gitignore"));
@@ -60,6 +80,6 @@ export async function shareCommand(options?: { stop?: boolean }) {
         console.log(chalk.gray("\n  Push to share: git push"));
         console.log(chalk.gray("  Stop sharing: valyrianctx share --stop"));
     } catch (err: any) {
-        console.log(chalk.red(`✗ Error: ${err.message}`));
+        fail(err);
     }
 }
@@ -1,27 +1,30 @@
 import chalk from "chalk";
-import { isInitialized, loadBranchContext } from "../core/context";
+import { isInitialized, NotInitializedError, getContextStore } from "../core/context";
 import {
     getCurrentBranch,
     getChangedFiles,
     getRecentCommits,
 } from "../core/git";
-import { callAI } from "../core/ai";
+import { callAI, AIError } from "../core/ai";
+import { fail, print, setResult } from "../utils/output";
 
 export async function suggestCommand() {
     if (!(await isInitialized())) {
-        console.log(chalk.red("✗ ValyrianCtx not initialized. Run `valyrianctx init` first."));
+        fail(new NotInitializedError());
         return;
     }
 
     try {
+        const store = await getContextStore();
         const branch = await getCurrentBranch();
-        const entries = await loadBranchContext(branch);
+        const entries = await store.loadBranch(branch);
         const [filesChanged, recentCommits] = await Promise.all([
             getChangedFiles(),
             getRecentCommits(10),
         ]);
 
         if (entries.length === 0 && filesChanged.length === 0) {
+            setResult({ branch, suggestions: null });
             console.log(chalk.yellow("⚠ No context or changes found. Nothing to analyze."));
             return;
         }
@@ -60,14 +63,15 @@ Provide 3-5 specific, actionable next steps. For each step, briefly explain WHY
         ]);
 
         if (result.error) {
-            console.log(chalk.red(`✗ ${result.error}`));
+            fail(new AIError(result.error));
             return;
         }
 
-        console.log(chalk.bold.cyan("\n💡 Suggested Next Steps\n"));
-        console.log(result.content);
-        console.log();
+        setResult({ branch, suggestions: result.content });
+        print(chalk.bold.cyan("\n💡 Suggested Next Steps\n"));
+        print(result.content);
+        print();
     } catch (err: any) {
-        console.log(chalk.red(`✗ Error: ${err.message}`));
+        fail(err);
     }
 }
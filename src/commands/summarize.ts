@@ -1,6 +1,5 @@
 import chalk from "chalk";
-import { v4 as uuid } from "uuid";
-import { isInitialized, saveContext } from "../core/context";
+import { isInitialized, NotInitializedError } from "../core/context";
 import {
     getCurrentBranch,
     getRepoName,
@@ -8,16 +7,15 @@ import {
     getStagedFiles,
     getRecentCommits,
     getAuthor,
+    getDiffStat,
 } from "../core/git";
-import { callAI } from "../core/ai";
-import { ContextEntry } from "../core/types";
-import simpleGit from "simple-git";
-
-const git = simpleGit();
+import { callAI, AIError } from "../core/ai";
+import { saveContext } from "../core/save";
+import { fail, setResult } from "../utils/output";
 
 export async function summarizeCommand() {
     if (!(await isInitialized())) {
-        console.log(chalk.red("✗ ValyrianCtx not initialized. Run `valyrianctx init` first."));
+        fail(new NotInitializedError());
         return;
     }
 
@@ -37,7 +35,7 @@ export async function summarizeCommand() {
         // Get git diff for context
         let diffSummary = "";
         try {
-            const diff = await git.diff(["--stat"]);
+            const diff = await getDiffStat();
             diffSummary = diff.slice(0, 2000); // cap at 2k chars
         } catch {
             diffSummary = "No diff available";
@@ -77,7 +75,7 @@ Be concise. Only include approaches/decisions if they're clearly evident from th
         ]);
 
         if (result.error) {
-            console.log(chalk.red(`✗ ${result.error}`));
+            fail(new AIError(result.error));
             return;
         }
 
@@ -99,23 +97,17 @@ Be concise. Only include approaches/decisions if they're clearly evident from th
             };
         }
 
-        const entry: ContextEntry = {
-            id: uuid(),
-            timestamp: new Date().toISOString(),
-            branch,
-            repo,
-            author,
+        const saved = await saveContext({
             task: parsed.task || "AI-generated summary",
             approaches: parsed.approaches || [],
             decisions: parsed.decisions || [],
             currentState: parsed.currentState || "",
             nextSteps: parsed.nextSteps || [],
-            filesChanged,
-            filesStaged,
-            recentCommits,
-        };
-
-        await saveContext(entry);
+            source: "ai",
+        });
+        if (!saved.saved) return;
+        const { entry } = saved;
+        setResult({ branch, entry });
 
         console.log(chalk.green(`\n✓ AI-generated context saved for branch: ${chalk.bold(branch)}`));
         console.log(chalk.cyan(`\n  Task: ${entry.task}`));
@@ -130,6 +122,6 @@ Be concise. Only include approaches/decisions if they're clearly evident from th
         }
         console.log();
     } catch (err: any) {
-        console.log(chalk.red(`✗ Error: ${err.message}`));
+        fail(err);
     }
 }
@@ -0,0 +1,72 @@
+import chalk from "chalk";
+import { isInitialized, NotInitializedError, withStoreLock } from "../core/context";
+import { hasRef, fetchNotes, mergeNotes, pushNotes } from "../core/git";
+import { NOTES_REF, remoteNotesRef, readNotesEntries } from "../core/notes-store";
+import { UsageError, ValyrianCtxError } from "../core/errors";
+import { fail, setResult } from "../utils/output";
+
+/**
+ * Exchange the git-notes context ref (refs/notes/valyrianctx) with a remote.
+ *
+ *   valyrianctx sync pull [remote]   fetch and merge teammates' context
+ *   valyrianctx sync push [remote]   publish your context
+ */
+export async function syncCommand(action?: string, remote: string = "origin") {
+    if (!(await isInitialized())) {
+        fail(new NotInitializedError());
+        return;
+    }
+
+    try {
+        if (action === "pull") {
+            const trackingRef = remoteNotesRef(remote);
+            const fetched = await fetchNotes(remote, NOTES_REF, trackingRef);
+            if (!fetched) {
+                setResult({ action, remote, newEntries: 0, total: null });
+                console.log(chalk.yellow(`⚠ No shared context on ${remote} yet.`));
+                console.log(chalk.gray("  Teammates publish theirs with `valyrianctx sync push`."));
+                return;
+            }
+
+            const before = (await readNotesEntries()).length;
+            await withStoreLock(() => mergeNotes(NOTES_REF, trackingRef));
+            const after = (await readNotesEntries()).length;
+            setResult({ action, remote, newEntries: after - before, total: after });
+
+            console.log(chalk.green(`✓ Pulled context from ${remote}`));
+            console.log(chalk.gray(`  ${after - before} new entries (${after} in git notes)`));
+            return;
+        }
+
+        if (action === "push") {
+            if (!(await hasRef(NOTES_REF))) {
+                setResult({ action, remote, pushed: false });
+                console.log(chalk.yellow("⚠ Nothing to push: no context stored in git notes yet."));
+                console.log(chalk.gray("  Use `valyrianctx config set storage git-notes` to save new context there."));
+                return;
+            }
+
+            try {
+                await pushNotes(remote, NOTES_REF);
+            } catch (err: any) {
+                if (/rejected|fetch first|non-fast-forward/i.test(err.message)) {
+                    fail(
+                        new ValyrianCtxError(`${remote} has context you don't have yet.`, "ERROR"),
+                        "  Run `valyrianctx sync pull` first, then push again."
+                    );
+                    return;
+                }
+                throw err;
+            }
+
+            setResult({ action, remote, pushed: true });
+            console.log(chalk.green(`✓ Pushed context to ${remote}`));
+            console.log(chalk.gray(`  Teammates get it with: valyrianctx sync pull`));
+            return;
+        }
+
+        fail(new UsageError(`Unknown action: ${action ?? "(none)"}`), "  Usage: valyrianctx sync <push|pull> [remote]");
+    } catch (err: any) {
+        fail(err);
+    }
+}
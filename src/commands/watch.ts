@@ -1,27 +1,20 @@
 import chalk from "chalk";
 import chokidar from "chokidar";
-import { v4 as uuid } from "uuid";
-import { isInitialized, saveContext, getValyrianCtxDir } from "../core/context";
-import {
-    getCurrentBranch,
-    getRepoName,
-    getChangedFiles,
-    getStagedFiles,
-    getRecentCommits,
-    getAuthor,
-    getRepoRoot,
-} from "../core/git";
+import { isInitialized, NotInitializedError, getValyrianCtxDir, getContextStore } from "../core/context";
+import { getRepoRoot } from "../core/git";
 import { extractFromEditorSessions } from "../core/parser";
-import { ContextEntry } from "../core/types";
+import { createEntry } from "../core/save";
 import { loadConfig } from "../utils/config";
+import { fail } from "../utils/output";
 
 export async function watchCommand(options?: { interval?: string }) {
     if (!(await isInitialized())) {
-        console.log(chalk.red("✗ ValyrianCtx not initialized. Run `valyrianctx init` first."));
+        fail(new NotInitializedError());
         return;
     }
 
     try {
+        const store = await getContextStore();
         const config = await loadConfig();
         const intervalMinutes = parseInt(options?.interval || String(config.watchInterval), 10);
         const intervalMs = intervalMinutes * 60 * 1000;
@@ -58,41 +51,24 @@ export async function watchCommand(options?: { interval?: string }) {
             if (changeCount === 0) return;
 
             try {
-                const [branch, repo, filesChanged, filesStaged, recentCommits, author] =
-                    await Promise.all([
-                        getCurrentBranch(),
-                        getRepoName(),
-                        getChangedFiles(),
-                        getStagedFiles(),
-                        getRecentCommits(),
-                        getAuthor(),
-                    ]);
-
                 // Try to enrich from editor session data
                 const chatContext = await extractFromEditorSessions(root);
 
-                const entry: ContextEntry = {
-                    id: uuid(),
-                    timestamp: new Date().toISOString(),
-                    branch,
-                    repo,
-                    author,
+                const entry = await createEntry({
                     task: chatContext?.task || `Auto-captured: ${changeCount} file changes`,
                     approaches: chatContext?.approaches || [],
                     decisions: chatContext?.decisions || [],
                     currentState: `${changeCount} files changed since last auto-save`,
                     nextSteps: chatContext?.nextSteps || [],
-                    filesChanged,
-                    filesStaged,
-                    recentCommits,
-                };
+                    source: "auto",
+                });
 
-                await saveContext(entry);
+                await store.save(entry);
 
                 const now = new Date();
                 console.log(
                     chalk.gray(
-                        `  [${now.toLocaleTimeString()}] Auto-saved: ${changeCount} changes on ${branch}`
+                        `  [${now.toLocaleTimeString()}] Auto-saved: ${changeCount} changes on ${entry.branch}`
                     )
                 );
 
@@ -114,6 +90,6 @@ export async function watchCommand(options?: { interval?: string }) {
         process.on("SIGINT", cleanup);
         process.on("SIGTERM", cleanup);
     } catch (err: any) {
-        console.log(chalk.red(`✗ Error: ${err.message}`));
+        fail(err);
     }
 }
@@ -9,6 +9,7 @@
 import fs from "fs";
 import path from "path";
 import os from "os";
+import { PromptFormat } from "./prompt-renderers";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -27,6 +28,8 @@ export interface IDERuleConfig {
     generateContent: () => string;
     /** Whether this file should be gitignored (IDE-local) or committed (team-shared) */
     gitignore: boolean;
+    /** Shape of the session context injected into gitignored files (see prompt-renderers.ts). Default: markdown */
+    contextFormat?: PromptFormat;
     /** MCP config location, if this IDE supports MCP */
     mcpConfigPath?: string;
     /** Generate MCP server configuration */
@@ -228,6 +231,7 @@ export function getAllIDERules(): IDERuleConfig[] {
             sectionMarker: { start: "", end: "" },
             generateContent: generateCursorRules,
             gitignore: true, // IDE-local
+            contextFormat: "markdown",
             mcpConfigPath: ".cursor/mcp.json",
             generateMcpConfig: () => ({
                 mcpServers: {
@@ -255,6 +259,7 @@ export function getAllIDERules(): IDERuleConfig[] {
             sectionMarker: { start: "", end: "" },
             generateContent: generateGeminiDirectoryRules,
             gitignore: true, // IDE-local
+            contextFormat: "markdown",
         },
         {
             id: "opencode",
@@ -273,6 +278,7 @@ export function getAllIDERules(): IDERuleConfig[] {
             sectionMarker: { start: "", end: "" },
             generateContent: generateTraeRules,
             gitignore: true, // IDE-local
+            contextFormat: "markdown",
         },
         {
             id: "warp",
@@ -282,6 +288,7 @@ export function getAllIDERules(): IDERuleConfig[] {
             sectionMarker: { start: "", end: "" },
             generateContent: generateWarpRules,
             gitignore: true, // IDE-local (best-effort, Warp has no formal rule loading)
+            contextFormat: "markdown",
         },
     ];
 }
@@ -617,28 +624,16 @@ const CONTEXT_MARKERS = {
  * commands needed, no cooperation required.
  * 
  * @param repoRoot - Root directory of the git repository
- * @param contextMarkdown - Formatted context (output of generatePrompt)
+ * @param contextMarkdown - Formatted context (output of generatePrompt), or a
+ *   function giving it for each IDE (e.g. to fit each one's token budget)
  */
 export async function injectContextIntoRules(
     repoRoot: string,
-    contextMarkdown: string
+    contextMarkdown: string | ((rule: IDERuleConfig) => string)
 ): Promise<number> {
     const allRules = getAllIDERules();
     let injectedCount = 0;
 
-    const section = [
-        CONTEXT_MARKERS.start,
-        "",
-        "## Session Context (auto-synced by valyrianctx)",
-        "",
-        "> This section is auto-updated after every save and branch switch.",
-        "> The AI reads this automatically — no commands needed to resume.",
-        "",
-        contextMarkdown,
-        "",
-        CONTEXT_MARKERS.end,
-    ].join("\n");
-
     for (const rule of allRules) {
         // Only inject into gitignored (dedicated) files — not committed shared files
         if (!rule.gitignore) continue;
@@ -647,6 +642,18 @@ export async function injectContextIntoRules(
         if (!fs.existsSync(fullPath)) continue;
 
         const content = fs.readFileSync(fullPath, "utf-8");
+        const section = [
+            CONTEXT_MARKERS.start,
+            "",
+            "## Session Context (auto-synced by valyrianctx)",
+            "",
+            "> This section is auto-updated after every save and branch switch.",
+            "> The AI reads this automatically — no commands needed to resume.",
+            "",
+            typeof contextMarkdown === "string" ? contextMarkdown : contextMarkdown(rule),
+            "",
+            CONTEXT_MARKERS.end,
+        ].join("\n");
 
         if (content.includes(CONTEXT_MARKERS.start)) {
             // Update existing context section
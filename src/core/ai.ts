@@ -1,4 +1,12 @@
 import { loadConfig } from "../utils/config";
+import { ValyrianCtxError } from "./errors";
+
+export class AIError extends ValyrianCtxError {
+    constructor(message: string) {
+        super(message, "AI_ERROR");
+        this.name = "AIError";
+    }
+}
 
 interface ChatMessage {
     role: "system" | "user" | "assistant";
@@ -18,10 +26,11 @@ export async function callAI(
     messages: ChatMessage[],
     options?: { maxTokens?: number; temperature?: number }
 ): Promise<AIResponse> {
+    // VALYRIANCTX_AI_* env vars are applied by loadConfig() as the top layer
     const config = await loadConfig();
-    const apiKey = process.env.VALYRIANCTX_AI_KEY || config.aiApiKey;
-    const baseUrl = process.env.VALYRIANCTX_AI_PROVIDER || config.aiProvider;
-    const model = process.env.VALYRIANCTX_AI_MODEL || config.aiModel;
+    const apiKey = config.aiApiKey;
+    const baseUrl = config.aiProvider;
+    const model = config.aiModel;
 
     if (!apiKey && baseUrl.includes("openai.com")) {
         return {
@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import {
+    appendToBranchLog,
+    readBranchLog,
+    writeBranchLog,
+    countBranchLog,
+    listBranchLogs,
+    getBranchLogPath,
+} from "./branch-log";
+import { atMinute, makeEntry } from "./test-fixtures";
+import { StoreCorruptError } from "./store";
+
+const TEST_DIR = path.join(os.tmpdir(), `valyrianctx-branch-log-${Date.now()}`);
+
+/** The nth save on a branch */
+const nthEntry = (n: number, branch = "feature/auth") => makeEntry(`entry-${n}`, { branch, timestamp: atMinute(n) });
+
+beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("Branch Log", () => {
+    it("should append one JSON line per entry", () => {
+        appendToBranchLog(TEST_DIR, nthEntry(1));
+        appendToBranchLog(TEST_DIR, nthEntry(2));
+
+        const raw = fs.readFileSync(getBranchLogPath(TEST_DIR, "feature/auth"), "utf-8");
+        expect(raw.trim().split("\n")).toHaveLength(2);
+        expect(fs.existsSync(path.join(TEST_DIR, "feature__auth.jsonl"))).toBe(true);
+    });
+
+    it("should read all entries oldest first", () => {
+        for (let i = 1; i <= 3; i++) appendToBranchLog(TEST_DIR, nthEntry(i));
+
+        const entries = readBranchLog(TEST_DIR, "feature/auth");
+        expect(entries.map((e) => e.id)).toEqual(["entry-1", "entry-2", "entry-3"]);
+    });
+
+    it("should read only the latest N entries", () => {
+        for (let i = 1; i <= 5; i++) appendToBranchLog(TEST_DIR, nthEntry(i));
+
+        const entries = readBranchLog(TEST_DIR, "feature/auth", { last: 2 });
+        expect(entries.map((e) => e.id)).toEqual(["entry-4", "entry-5"]);
+        expect(countBranchLog(TEST_DIR, "feature/auth")).toBe(5);
+    });
+
+    it("should rebuild a stale index after the log changes underneath it", () => {
+        appendToBranchLog(TEST_DIR, nthEntry(1));
+        // Simulate a git pull appending a teammate's entry without touching the index
+        fs.appendFileSync(
+            getBranchLogPath(TEST_DIR, "feature/auth"),
+            JSON.stringify(nthEntry(2)) + "\n"
+        );
+
+        const entries = readBranchLog(TEST_DIR, "feature/auth", { last: 1 });
+        expect(entries.map((e) => e.id)).toEqual(["entry-2"]);
+    });
+
+    it("should replace the log when rewritten", () => {
+        for (let i = 1; i <= 3; i++) appendToBranchLog(TEST_DIR, nthEntry(i));
+        writeBranchLog(TEST_DIR, "feature/auth", [nthEntry(3)]);
+
+        expect(readBranchLog(TEST_DIR, "feature/auth").map((e) => e.id)).toEqual(["entry-3"]);
+    });
+
+    it("should name the file when a line other than the last is corrupt", () => {
+        appendToBranchLog(TEST_DIR, nthEntry(1));
+        const logPath = getBranchLogPath(TEST_DIR, "feature/auth");
+        fs.appendFileSync(logPath, "<<<<<<< HEAD\n");
+        appendToBranchLog(TEST_DIR, nthEntry(2));
+
+        expect(() => readBranchLog(TEST_DIR, "feature/auth")).toThrow(StoreCorruptError);
+        expect(() => readBranchLog(TEST_DIR, "feature/auth")).toThrow(/feature__auth\.jsonl is corrupt \(git conflict markers\)/);
+    });
+
+    it("should migrate a legacy JSON array file transparently", () => {
+        const legacyPath = path.join(TEST_DIR, "feature__auth.json");
+        fs.writeFileSync(legacyPath, JSON.stringify([nthEntry(1), nthEntry(2)], null, 2));
+
+        appendToBranchLog(TEST_DIR, nthEntry(3));
+
+        expect(fs.existsSync(legacyPath)).toBe(false);
+        expect(readBranchLog(TEST_DIR, "feature/auth").map((e) => e.id)).toEqual([
+            "entry-1",
+            "entry-2",
+            "entry-3",
+        ]);
+    });
+
+    it("should list branches from both log and legacy files", () => {
+        appendToBranchLog(TEST_DIR, nthEntry(1, "main"));
+        fs.writeFileSync(path.join(TEST_DIR, "feature__old.json"), "[]");
+
+        expect(listBranchLogs(TEST_DIR)).toEqual(["feature/old", "main"]);
+    });
+});
@@ -0,0 +1,320 @@
+import fs from "fs";
+import path from "path";
+import { ContextEntry } from "./types";
+import { StoreCorruptError } from "./store";
+import { writeFileAtomic } from "../utils/fs-safe";
+
+/**
+ * Append-only branch log.
+ *
+ * Each branch is stored as `branches/<branch>.jsonl` with one ContextEntry per
+ * line, so a save only appends a line instead of rewriting the whole history.
+ * A small `<branch>.idx` sidecar records the byte offset of every line, which
+ * lets "latest N" reads seek straight to the tail of the file.
+ *
+ * The index is derived data: if it is missing or doesn't match the log size
+ * (e.g. the log was rewritten by git), it is rebuilt from the log.
+ *
+ * Callers that write are expected to hold the store lock (see withStoreLock).
+ */
+
+interface BranchLogIndex {
+  /** Size in bytes of the log the offsets were computed against */
+  size: number;
+  /** Byte offset of the start of each entry line */
+  offsets: number[];
+}
+
+const LOG_EXT = ".jsonl";
+const INDEX_EXT = ".idx";
+const LEGACY_EXT = ".json";
+
+/** Encode a branch name into a flat file name (`feature/x` → `feature__x`). */
+export function branchFileName(branch: string): string {
+  return branch.replace(/\//g, "__");
+}
+
+export function getBranchLogPath(branchesDir: string, branch: string): string {
+  return path.join(branchesDir, `${branchFileName(branch)}${LOG_EXT}`);
+}
+
+function getIndexPath(branchesDir: string, branch: string): string {
+  return path.join(branchesDir, `${branchFileName(branch)}${INDEX_EXT}`);
+}
+
+function getLegacyPath(branchesDir: string, branch: string): string {
+  return path.join(branchesDir, `${branchFileName(branch)}${LEGACY_EXT}`);
+}
+
+/**
+ * Append a single entry to the branch log and extend the index.
+ */
+export function appendToBranchLog(branchesDir: string, entry: ContextEntry): void {
+  migrateLegacyBranchFile(branchesDir, entry.branch);
+
+  const logPath = getBranchLogPath(branchesDir, entry.branch);
+  repairTornTail(logPath);
+
+  const index = loadIndex(branchesDir, entry.branch);
+  const offset = fs.existsSync(logPath) ? fs.statSync(logPath).size : 0;
+  const line = JSON.stringify(entry) + "\n";
+
+  fs.appendFileSync(logPath, line);
+
+  index.offsets.push(offset);
+  index.size = offset + Buffer.byteLength(line);
+  saveIndex(branchesDir, entry.branch, index);
+}
+
+/**
+ * Read entries from a branch log, oldest first.
+ * With `last`, only the newest N entries are read from disk.
+ */
+export function readBranchLog(
+  branchesDir: string,
+  branch: string,
+  options: { last?: number } = {}
+): ContextEntry[] {
+  // Reads don't hold the lock, so a legacy file is merged in memory here
+  // and only migrated on disk by the next (locked) write.
+  const legacy = readLegacyMerged(branchesDir, branch);
+  if (legacy) {
+    return options.last !== undefined
+      ? legacy.slice(Math.max(0, legacy.length - options.last))
+      : legacy;
+  }
+
+  const logPath = getBranchLogPath(branchesDir, branch);
+  if (!fs.existsSync(logPath)) return [];
+
+  const index = loadIndex(branchesDir, branch);
+  if (index.offsets.length === 0) return [];
+
+  const first =
+    options.last !== undefined ? Math.max(0, index.offsets.length - options.last) : 0;
+  const start = index.offsets[first];
+  const length = index.size - start;
+  if (length <= 0) return [];
+
+  const buffer = Buffer.alloc(length);
+  const fd = fs.openSync(logPath, "r");
+  try {
+    fs.readSync(fd, buffer, 0, length, start);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return parseLines(buffer.toString("utf-8"), storeRelative(logPath));
+}
+
+/**
+ * Count the entries in a branch log without parsing them.
+ */
+export function countBranchLog(branchesDir: string, branch: string): number {
+  const legacy = readLegacyMerged(branchesDir, branch);
+  if (legacy) return legacy.length;
+  if (!fs.existsSync(getBranchLogPath(branchesDir, branch))) return 0;
+  return loadIndex(branchesDir, branch).offsets.length;
+}
+
+/**
+ * Replace the whole branch log (used by compress and sync).
+ * This is the only operation that rewrites existing lines.
+ */
+export function writeBranchLog(
+  branchesDir: string,
+  branch: string,
+  entries: ContextEntry[]
+): void {
+  const logPath = getBranchLogPath(branchesDir, branch);
+  const offsets: number[] = [];
+  let size = 0;
+  let content = "";
+
+  for (const entry of entries) {
+    const line = JSON.stringify(entry) + "\n";
+    offsets.push(size);
+    size += Buffer.byteLength(line);
+    content += line;
+  }
+
+  writeFileAtomic(logPath, content);
+  saveIndex(branchesDir, branch, { size, offsets });
+
+  const legacyPath = getLegacyPath(branchesDir, branch);
+  if (fs.existsSync(legacyPath)) fs.unlinkSync(legacyPath);
+}
+
+/**
+ * Delete a branch log, its index and any legacy file. Returns false if there was none.
+ */
+export function removeBranchLog(branchesDir: string, branch: string): boolean {
+  const paths = [
+    getBranchLogPath(branchesDir, branch),
+    getIndexPath(branchesDir, branch),
+    getLegacyPath(branchesDir, branch),
+  ];
+  const existed = fs.existsSync(paths[0]) || fs.existsSync(paths[2]);
+  for (const p of paths) fs.rmSync(p, { force: true });
+  return existed;
+}
+
+/**
+ * List the branch names that have a log (or a not-yet-migrated legacy file).
+ */
+export function listBranchLogs(branchesDir: string): string[] {
+  if (!fs.existsSync(branchesDir)) return [];
+
+  const names = new Set<string>();
+  for (const file of fs.readdirSync(branchesDir)) {
+    if (file.endsWith(LOG_EXT)) {
+      names.add(file.slice(0, -LOG_EXT.length));
+    } else if (file.endsWith(LEGACY_EXT)) {
+      names.add(file.slice(0, -LEGACY_EXT.length));
+    }
+  }
+
+  return Array.from(names)
+    .map((name) => name.replace(/__/g, "/"))
+    .sort();
+}
+
+export function hasLegacyBranchFile(branchesDir: string, branch: string): boolean {
+  return fs.existsSync(getLegacyPath(branchesDir, branch));
+}
+
+/**
+ * Convert a pre-0.7 `branches/<branch>.json` array into the JSONL log.
+ *
+ * If a log already exists (e.g. a teammate's legacy file arrived via git pull
+ * after we migrated), entries from both are kept, deduplicated by ID.
+ * Returns true if a legacy file was migrated.
+ */
+export function migrateLegacyBranchFile(branchesDir: string, branch: string): boolean {
+  const combined = readLegacyMerged(branchesDir, branch);
+  if (!combined) return false;
+
+  writeBranchLog(branchesDir, branch, combined);
+  return true;
+}
+
+/**
+ * Read a legacy array file combined with any existing log, or null if there
+ * is no legacy file for this branch.
+ */
+function readLegacyMerged(branchesDir: string, branch: string): ContextEntry[] | null {
+  const legacyPath = getLegacyPath(branchesDir, branch);
+  if (!fs.existsSync(legacyPath)) return null;
+
+  let legacy: ContextEntry[];
+  try {
+    legacy = JSON.parse(fs.readFileSync(legacyPath, "utf-8"));
+  } catch (err: any) {
+    throw new StoreCorruptError(storeRelative(legacyPath), err.message);
+  }
+  const logPath = getBranchLogPath(branchesDir, branch);
+  const existing = fs.existsSync(logPath)
+    ? parseLines(fs.readFileSync(logPath, "utf-8"), storeRelative(logPath))
+    : [];
+
+  const seen = new Set<string>();
+  return [...legacy, ...existing].filter((e) => {
+    if (seen.has(e.id)) return false;
+    seen.add(e.id);
+    return true;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse JSONL content. A malformed final line is a torn write (crash or a
+ * concurrent append in progress) and is skipped; anything else is corruption.
+ */
+function parseLines(content: string, file: string): ContextEntry[] {
+  const lines = content.split("\n").filter((line) => line.trim());
+
+  return lines.flatMap((line, i) => {
+    try {
+      return [JSON.parse(line) as ContextEntry];
+    } catch {
+      if (i === lines.length - 1 && !content.endsWith("\n")) return [];
+      const detail = /^(<{7}|={7}|>{7})/.test(line) ? "git conflict markers" : `unparseable entry ${i + 1}`;
+      throw new StoreCorruptError(file, detail);
+    }
+  });
+}
+
+/** `branches/main.jsonl` from a full path, for error messages */
+function storeRelative(filePath: string): string {
+  return path.join(path.basename(path.dirname(filePath)), path.basename(filePath));
+}
+
+/**
+ * Truncate a partially written last line left behind by a crash,
+ * so the next append starts on a clean line.
+ */
+function repairTornTail(logPath: string): void {
+  if (!fs.existsSync(logPath)) return;
+
+  const size = fs.statSync(logPath).size;
+  if (size === 0) return;
+
+  // Only the last byte is read in the common (healthy) case
+  const lastByte = Buffer.alloc(1);
+  const fd = fs.openSync(logPath, "r");
+  try {
+    fs.readSync(fd, lastByte, 0, 1, size - 1);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (lastByte[0] === 0x0a) return;
+
+  const content = fs.readFileSync(logPath);
+  fs.truncateSync(logPath, content.lastIndexOf(0x0a) + 1);
+}
+
+/**
+ * Load the index, rebuilding it from the log if it is missing or stale.
+ */
+function loadIndex(branchesDir: string, branch: string): BranchLogIndex {
+  const logPath = getBranchLogPath(branchesDir, branch);
+  const indexPath = getIndexPath(branchesDir, branch);
+  const size = fs.existsSync(logPath) ? fs.statSync(logPath).size : 0;
+
+  if (fs.existsSync(indexPath)) {
+    try {
+      const index: BranchLogIndex = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+      if (index.size === size && Array.isArray(index.offsets)) return index;
+    } catch {
+      // Corrupt index — rebuild below
+    }
+  }
+
+  const index = buildIndex(logPath);
+  if (size > 0) saveIndex(branchesDir, branch, index);
+  return index;
+}
+
+function buildIndex(logPath: string): BranchLogIndex {
+  if (!fs.existsSync(logPath)) return { size: 0, offsets: [] };
+
+  const buffer = fs.readFileSync(logPath);
+  const offsets: number[] = [];
+  let lineStart = 0;
+
+  for (let i = 0; i < buffer.length; i++) {
+    if (buffer[i] !== 0x0a) continue;
+    if (i > lineStart) offsets.push(lineStart);
+    lineStart = i + 1;
+  }
+  if (lineStart < buffer.length) offsets.push(lineStart);
+
+  return { size: buffer.length, offsets };
+}
+
+function saveIndex(branchesDir: string, branch: string, index: BranchLogIndex): void {
+  writeFileAtomic(getIndexPath(branchesDir, branch), JSON.stringify(index));
+}
@@ -0,0 +1,80 @@
+import { foldBranchContext, resolveLastMergeFold } from "./branches";
+import { createMemoryContextStore } from "./memory-store";
+import { getBranchCreatedFrom, getDefaultBranch, getLastMergedBranch } from "./git";
+import { atMinute, makeEntry } from "./test-fixtures";
+
+jest.mock("./git", () => ({
+    getRepoName: jest.fn().mockResolvedValue("repo"),
+    getAuthor: jest.fn().mockResolvedValue("dev"),
+    getLastMergedBranch: jest.fn(),
+    getRemoteNames: jest.fn().mockResolvedValue(["origin"]),
+    getDefaultBranch: jest.fn().mockResolvedValue("main"),
+    getBranchCreatedFrom: jest.fn().mockResolvedValue(null),
+    getClosestBranch: jest.fn().mockResolvedValue(null),
+}));
+
+describe("Branch Lifecycle", () => {
+    it("should fold a branch's decisions into the target and archive it", async () => {
+        const store = createMemoryContextStore([
+            makeEntry("m1", { timestamp: atMinute(1) }),
+            makeEntry("x1", { branch: "feature/x", timestamp: atMinute(2), decisions: ["Use Redis"] }),
+            makeEntry("x2", { branch: "feature/x", timestamp: atMinute(3), decisions: ["use redis", "Cache for 5 minutes"] }),
+        ]);
+
+        const folded = await foldBranchContext(store, "feature/x", "main");
+
+        expect(folded).toMatchObject({
+            branch: "main",
+            mergedFrom: "feature/x",
+            task: "Merged feature/x: Task x2",
+            decisions: ["Use Redis", "Cache for 5 minutes"],
+        });
+        expect((await store.loadBranch("main")).map((e) => e.id)).toEqual(["m1", folded!.id]);
+        expect(await store.listBranches()).toEqual(["main"]);
+        expect((await store.loadArchived("feature/x")).map((e) => e.id)).toEqual(["x1", "x2"]);
+    });
+
+    it("should do nothing for a branch without context", async () => {
+        const store = createMemoryContextStore([makeEntry("m1", { timestamp: atMinute(1) })]);
+
+        expect(await foldBranchContext(store, "feature/none", "main")).toBeNull();
+        expect(await store.loadArchived()).toEqual([]);
+    });
+});
+
+describe("post-merge fold (--last-merge)", () => {
+    const entries = [
+        makeEntry("m1", { timestamp: atMinute(1), decisions: ["Use Postgres"] }),
+        makeEntry("x1", { branch: "feature/x", timestamp: atMinute(2), decisions: ["Use Redis"] }),
+        makeEntry("y1", { branch: "feature/y", timestamp: atMinute(3), decisions: ["Cache for 5 minutes"] }),
+    ];
+
+    it("should fold a feature branch merged into the default branch", async () => {
+        const store = createMemoryContextStore(entries);
+        jest.mocked(getLastMergedBranch).mockResolvedValue("feature/x");
+
+        expect(await resolveLastMergeFold(store, "main")).toBe("feature/x");
+    });
+
+    it("should fold a branch merged back into the branch it was created from", async () => {
+        const store = createMemoryContextStore(entries);
+        jest.mocked(getLastMergedBranch).mockResolvedValue("origin/feature/y");
+        jest.mocked(getBranchCreatedFrom).mockImplementation(async (b) => (b === "feature/y" ? "feature/x" : null));
+
+        expect(await resolveLastMergeFold(store, "feature/x")).toBe("feature/y");
+    });
+
+    it("should treat merging the base into a feature branch as a no-op", async () => {
+        const store = createMemoryContextStore(entries);
+        jest.mocked(getBranchCreatedFrom).mockImplementation(async (b) => (b === "feature/x" ? "main" : null));
+
+        for (const merged of ["main", "origin/main"]) {
+            jest.mocked(getLastMergedBranch).mockResolvedValue(merged);
+            expect(await resolveLastMergeFold(store, "feature/x")).toBeNull();
+        }
+        jest.mocked(getDefaultBranch).mockResolvedValueOnce(null);
+        expect(await resolveLastMergeFold(store, "feature/x")).toBeNull();
+        expect(await store.listBranches()).toEqual(expect.arrayContaining(["main", "feature/x", "feature/y"]));
+        expect(await store.loadArchived()).toEqual([]);
+    });
+});
@@ -0,0 +1,160 @@
+import { v4 as uuid } from "uuid";
+import { ContextEntry } from "./types";
+import { ContextStore } from "./store";
+import { dedup, DEFAULT_DEDUP_THRESHOLD } from "./dedup";
+import { findParentBranch } from "./inheritance";
+import {
+  branchExists,
+  getAuthor,
+  getBranchTip,
+  getDefaultBranch,
+  getLastMergedBranch,
+  getRemoteNames,
+  getRepoName,
+  isAncestor,
+} from "./git";
+
+/**
+ * Branch context lifecycle.
+ *
+ * Context is keyed by branch name, so it outlives the git branch: once a PR
+ * merges, or a branch is renamed or deleted, its entries sit under a name
+ * nobody checks out any more. These helpers classify branch contexts and carry
+ * their decisions forward (fold) before moving them to the archive.
+ */
+
+export type BranchContextStatus = "current" | "active" | "merged" | "gone";
+
+export interface BranchContextInfo {
+  branch: string;
+  sessions: number;
+  /** Timestamp of the newest entry */
+  lastSave: string;
+  /**
+   * current: the target branch itself; active: a local branch with unmerged
+   * commits; merged: its tip is already in the target; gone: no local branch
+   * (deleted, renamed, or never fetched)
+   */
+  status: BranchContextStatus;
+  /** No save for at least `staleDays` days */
+  stale: boolean;
+}
+
+export const DEFAULT_STALE_DAYS = 30;
+
+/**
+ * Classify every branch with context relative to `target` (usually the
+ * current branch).
+ */
+export async function listBranchContexts(
+  store: ContextStore,
+  target: string,
+  staleDays: number = DEFAULT_STALE_DAYS
+): Promise<BranchContextInfo[]> {
+  const targetTip = await getBranchTip(target);
+  const staleBefore = Date.now() - staleDays * 24 * 60 * 60 * 1000;
+  const infos: BranchContextInfo[] = [];
+
+  for (const branch of await store.listBranches()) {
+    const entries = await store.loadBranch(branch);
+    if (entries.length === 0) continue;
+    const lastSave = entries[entries.length - 1].timestamp;
+
+    infos.push({
+      branch,
+      sessions: entries.length,
+      lastSave,
+      status: await branchStatus(branch, target, targetTip),
+      stale: new Date(lastSave).getTime() < staleBefore,
+    });
+  }
+
+  return infos;
+}
+
+async function branchStatus(
+  branch: string,
+  target: string,
+  targetTip: string | null
+): Promise<BranchContextStatus> {
+  if (branch === target) return "current";
+  if (!(await branchExists(branch))) return "gone";
+
+  // A branch sitting exactly at the target's tip has nothing merged yet (it
+  // was probably just created from it), so it counts as active.
+  const tip = await getBranchTip(branch);
+  if (tip && targetTip && tip !== targetTip && (await isAncestor(tip, targetTip))) {
+    return "merged";
+  }
+  return "active";
+}
+
+/**
+ * Fold a branch's context into `target` and archive it: one new entry on
+ * `target` records the merge and carries every decision made on `source`
+ * (without near-duplicates, see dedup.ts).
+ * Returns the new entry, or null if `source` has no context.
+ */
+export async function foldBranchContext(
+  store: ContextStore,
+  source: string,
+  target: string,
+  dedupThreshold = DEFAULT_DEDUP_THRESHOLD
+): Promise<ContextEntry | null> {
+  if (source === target) {
+    throw new Error(`Cannot fold ${source} into itself`);
+  }
+
+  const entries = await store.loadBranch(source);
+  if (entries.length === 0) return null;
+
+  const latest = entries[entries.length - 1];
+  const [repo, author] = await Promise.all([getRepoName(), getAuthor()]);
+
+  const entry: ContextEntry = {
+    id: uuid(),
+    timestamp: new Date().toISOString(),
+    branch: target,
+    repo,
+    author,
+    task: `Merged ${source}: ${latest.task}`,
+    approaches: [],
+    decisions: dedup(entries.flatMap((e) => e.decisions), dedupThreshold),
+    currentState: `${source} was merged into ${target} after ${entries.length} session(s). Its last state: ${latest.currentState}`,
+    nextSteps: [],
+    filesChanged: [],
+    filesStaged: [],
+    recentCommits: [],
+    mergedFrom: source,
+  };
+
+  await store.save(entry);
+  await store.archiveBranch(source);
+  return entry;
+}
+
+/**
+ * The branch to fold into `target` after the last `git merge` (the post-merge
+ * hook), or null. Only a branch merged back into where it came from is
+ * folded: one created from `target`, or anything merged into the default
+ * branch. Merging the base into a feature branch to catch up (`git merge
+ * main`) must leave the base's context alone.
+ */
+export async function resolveLastMergeFold(store: ContextStore, target: string): Promise<string | null> {
+  const merged = await getLastMergedBranch();
+  if (!merged) return null;
+
+  const withContext = await store.listBranches();
+  let source: string | null = withContext.includes(merged) ? merged : null;
+  if (!source) {
+    // `git merge origin/feature/x` folds the local branch's context
+    for (const remote of await getRemoteNames()) {
+      const local = merged.startsWith(`${remote}/`) ? merged.slice(remote.length + 1) : null;
+      if (local && withContext.includes(local)) source = local;
+    }
+  }
+  if (!source || source === target) return null;
+
+  if (target === (await getDefaultBranch())) return source;
+  return (await findParentBranch(store, source)) === target ? source : null;
+}
@@ -0,0 +1,90 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execFile, execFileSync } from "child_process";
+
+const TEST_REPO = path.join(os.tmpdir(), `valyrianctx-context-${Date.now()}`);
+const WORKERS = 4;
+const SAVES_PER_WORKER = 15;
+
+/**
+ * Child script: saves SAVES_PER_WORKER entries through the real file store,
+ * from its own process, as a hook or the MCP server would.
+ */
+const WORKER_SCRIPT = `
+require(${JSON.stringify(require.resolve("ts-node"))}).register({
+    transpileOnly: true,
+    project: ${JSON.stringify(path.join(__dirname, "../../tsconfig.json"))},
+});
+const { getContextStore } = require(${JSON.stringify(path.join(__dirname, "context"))});
+const worker = process.argv[1];
+(async () => {
+    const store = await getContextStore();
+    for (let i = 0; i < ${SAVES_PER_WORKER}; i++) {
+        await store.save({
+            id: worker + "-" + i,
+            timestamp: new Date().toISOString(),
+            branch: "main",
+            repo: "repo",
+            author: "worker-" + worker,
+            task: "Save " + i,
+            approaches: [],
+            decisions: [],
+            currentState: "",
+            nextSteps: [],
+            filesChanged: [],
+            filesStaged: [],
+            recentCommits: [],
+        });
+    }
+})().catch((err) => { console.error(err); process.exit(1); });
+`;
+
+function runWorker(id: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        execFile(process.execPath, ["-e", WORKER_SCRIPT, String(id)], { cwd: TEST_REPO }, (err, _stdout, stderr) =>
+            err ? reject(new Error(stderr || err.message)) : resolve()
+        );
+    });
+}
+
+beforeAll(() => {
+    fs.mkdirSync(path.join(TEST_REPO, ".valyrianctx"), { recursive: true });
+    execFileSync("git", ["init", "-q"], { cwd: TEST_REPO });
+});
+
+afterAll(() => {
+    fs.rmSync(TEST_REPO, { recursive: true, force: true });
+});
+
+describe("Context Store Concurrency", () => {
+    it("should not lose or corrupt entries when saving from parallel processes", async () => {
+        await Promise.all(Array.from({ length: WORKERS }, (_, i) => runWorker(i)));
+
+        const branchesDir = path.join(TEST_REPO, ".valyrianctx", "branches");
+        const lines = fs
+            .readFileSync(path.join(branchesDir, "main.jsonl"), "utf-8")
+            .split("\n")
+            .filter(Boolean);
+        const ids = lines.map((line) => JSON.parse(line).id);
+
+        expect(ids).toHaveLength(WORKERS * SAVES_PER_WORKER);
+        expect(new Set(ids).size).toBe(WORKERS * SAVES_PER_WORKER);
+
+        // The index must describe the final log exactly
+        const index = JSON.parse(fs.readFileSync(path.join(branchesDir, "main.idx"), "utf-8"));
+        expect(index.offsets).toHaveLength(WORKERS * SAVES_PER_WORKER);
+
+        // Every save keeps its own session file
+        const sessions = fs
+            .readdirSync(path.join(TEST_REPO, ".valyrianctx", "sessions"))
+            .filter((f) => f !== "index.json");
+        expect(sessions).toHaveLength(WORKERS * SAVES_PER_WORKER);
+
+        // No lock or temp files left behind
+        const leftovers = fs
+            .readdirSync(path.join(TEST_REPO, ".valyrianctx"))
+            .filter((f) => f.startsWith(".lock"));
+        expect(leftovers).toEqual([]);
+    }, 120_000);
+});
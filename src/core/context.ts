@@ -2,6 +2,20 @@ import fs from "fs";
 import path from "path";
 import { ContextEntry, ValyrianCtxConfig } from "./types";
 import { getRepoRoot } from "./git";
+import { ContextStore } from "./store";
+import { createFileContextStore } from "./file-store";
+import { withRetention } from "./retention";
+import { resolveRetentionPolicy } from "./options";
+import { ValyrianCtxError } from "./errors";
+import { withFileLock } from "../utils/fs-safe";
+import { loadConfig } from "../utils/config";
+
+export class NotInitializedError extends ValyrianCtxError {
+  constructor() {
+    super("ValyrianCtx not initialized. Run `valyrianctx init` first.", "NOT_INITIALIZED");
+    this.name = "NotInitializedError";
+  }
+}
 
 export async function getValyrianCtxDir(): Promise<string> {
   const root = await getRepoRoot();
@@ -13,49 +27,36 @@ export async function isInitialized(): Promise<boolean> {
   return fs.existsSync(dir);
 }
 
-export async function saveContext(entry: ContextEntry): Promise<string> {
+/**
+ * Run `fn` while holding the exclusive `.valyrianctx/.lock`.
+ * Every read-modify-write of the store must go through this.
+ */
+export async function withStoreLock<T>(fn: () => Promise<T> | T): Promise<T> {
   const dir = await getValyrianCtxDir();
-  const sessionsDir = path.join(dir, "sessions");
-  const branchesDir = path.join(dir, "branches");
-
-  fs.mkdirSync(sessionsDir, { recursive: true });
-  fs.mkdirSync(branchesDir, { recursive: true });
-
-  // Save session
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 16);
-  const sessionFile = path.join(sessionsDir, `${timestamp}.json`);
-  fs.writeFileSync(sessionFile, JSON.stringify(entry, null, 2));
-
-  // Update branch context (latest for this branch)
-  const branchFile = path.join(branchesDir, `${entry.branch.replace(/\//g, "__")}.json`);
-
-  // Load existing entries or start fresh
-  let branchEntries: ContextEntry[] = [];
-  if (fs.existsSync(branchFile)) {
-    branchEntries = JSON.parse(fs.readFileSync(branchFile, "utf-8"));
-  }
-  branchEntries.push(entry);
-  fs.writeFileSync(branchFile, JSON.stringify(branchEntries, null, 2));
-
-  return sessionFile;
+  fs.mkdirSync(dir, { recursive: true });
+  return withFileLock(path.join(dir, ".lock"), fn);
 }
 
-export async function loadBranchContext(branch: string): Promise<ContextEntry[]> {
-  const dir = await getValyrianCtxDir();
-  const branchFile = path.join(dir, "branches", `${branch.replace(/\//g, "__")}.json`);
+let storeOverride: ContextStore | null = null;
 
-  if (!fs.existsSync(branchFile)) return [];
-  return JSON.parse(fs.readFileSync(branchFile, "utf-8"));
+/**
+ * The context store for the current repo: the `.valyrianctx/` file store,
+ * writing new entries wherever the `storage` setting says, and applying the
+ * retention policy after each save when `autoGc` is on.
+ */
+export async function getContextStore(): Promise<ContextStore> {
+  if (storeOverride) return storeOverride;
+  const [dir, config] = await Promise.all([getValyrianCtxDir(), loadConfig()]);
+  const store = createFileContextStore(dir, { storage: config.storage });
+  return config.autoGc ? withRetention(store, await resolveRetentionPolicy()) : store;
 }
 
-export async function loadAllSessions(): Promise<ContextEntry[]> {
-  const dir = await getValyrianCtxDir();
-  const sessionsDir = path.join(dir, "sessions");
-
-  if (!fs.existsSync(sessionsDir)) return [];
-
-  const files = fs.readdirSync(sessionsDir).filter((f) => f.endsWith(".json")).sort().reverse();
-  return files.map((f) => JSON.parse(fs.readFileSync(path.join(sessionsDir, f), "utf-8")));
+/**
+ * Use `store` instead of the file store (e.g. an in-memory store in tests).
+ * Pass null to go back to the default.
+ */
+export function setContextStore(store: ContextStore | null): void {
+  storeOverride = store;
 }
 
 /**
@@ -85,17 +86,11 @@ export function mergeContexts(
  * Merges local entries with whatever is on disk (which may have been updated by git pull).
  */
 export async function syncBranchContext(branch: string): Promise<ContextEntry[]> {
-  const dir = await getValyrianCtxDir();
-  const branchFile = path.join(dir, "branches", `${branch.replace(/\//g, "__")}.json`);
-
-  if (!fs.existsSync(branchFile)) return [];
-
-  const diskEntries: ContextEntry[] = JSON.parse(fs.readFileSync(branchFile, "utf-8"));
+  const store = await getContextStore();
+  const diskEntries = await store.loadBranch(branch);
+  if (diskEntries.length === 0) return [];
 
   // Deduplicate (in case of merge conflicts resolved by git)
-  const deduped = mergeContexts([], diskEntries);
-  fs.writeFileSync(branchFile, JSON.stringify(deduped, null, 2));
-
-  return deduped;
+  return store.updateBranch(branch, (current) => mergeContexts([], current));
 }
 
@@ -0,0 +1,49 @@
+import { dedup, hasNearDuplicate, similarity } from "./dedup";
+import { generatePrompt } from "./prompt";
+import { makeEntry } from "./test-fixtures";
+
+describe("similarity", () => {
+    it("should score rephrasings of the same item high", () => {
+        expect(similarity("Use zod", "use ZOD.")).toBe(1);
+        expect(similarity("Use RS256 for JWT", "Using RS256 for JWT signing")).toBeGreaterThanOrEqual(0.8);
+        expect(similarity("Token bucket per API key", "Use a token bucket per API key")).toBeGreaterThanOrEqual(0.8);
+    });
+
+    it("should score different items low", () => {
+        expect(similarity("Tried a fixed window", "Tried a sliding window")).toBeLessThan(0.8);
+        expect(similarity("Use Redis", "Use Redis Streams instead of Redis pub/sub")).toBeLessThan(0.8);
+        expect(similarity("Keep CJS", "Use zod")).toBe(0);
+    });
+
+    it("should never match an item with its negation", () => {
+        expect(similarity("Cache sessions in Redis", "Don't cache sessions in Redis")).toBe(0);
+        expect(hasNearDuplicate("Never cache sessions in Redis", ["Cache sessions in Redis"])).toBe(false);
+    });
+});
+
+describe("dedup", () => {
+    it("should keep the most informative phrasing in the first one's place", () => {
+        expect(
+            dedup(["Use RS256 for JWT", "Keep CJS", "Using RS256 for JWT signing", "use rs256 for jwt", ""])
+        ).toEqual(["Using RS256 for JWT signing", "Keep CJS"]);
+    });
+
+    it("should only merge identical wording at threshold 1", () => {
+        expect(dedup(["Use RS256 for JWT", "Using RS256 for JWT signing", "use rs256 for JWT"], 1)).toEqual([
+            "Use RS256 for JWT",
+            "Using RS256 for JWT signing",
+        ]);
+    });
+
+    it("should drop near-duplicate decisions from the prompt", () => {
+        const entries = [
+            makeEntry("1", { decisions: ["Use RS256 for JWT"] }),
+            makeEntry("2", { decisions: ["Using RS256 for JWT signing", "Rotate keys monthly"] }),
+        ];
+
+        expect(generatePrompt(entries)).toContain(
+            "### Key Decisions\n- Using RS256 for JWT signing\n- Rotate keys monthly\n\n"
+        );
+        expect(generatePrompt(entries, { dedupThreshold: 1 })).toContain("- Use RS256 for JWT\n");
+    });
+});
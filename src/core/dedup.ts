@@ -0,0 +1,92 @@
+/*
+ * Near-duplicate detection for decisions, approaches and other list items.
+ * Sessions restate the same decision in different words ("Use RS256 for JWT",
+ * "Using RS256 for JWT signing"), and entries extracted from editor sessions
+ * add many more, so exact matching leaves the prompt full of repeats.
+ *
+ * Items are compared by their words: lowercased, with punctuation, filler
+ * words and common suffixes (-s, -ed, -ing) stripped. The score averages how
+ * much the two word sets overlap overall (Jaccard) and how much of the shorter
+ * one the longer covers, so a phrasing that adds detail to another still
+ * counts as the same item. Items where only one says "not" (or "never",
+ * "don't", ...) are never duplicates: "Don't cache sessions" reverses a
+ * decision rather than restating it.
+ */
+
+/** Default for the `dedupThreshold` setting */
+export const DEFAULT_DEDUP_THRESHOLD = 0.8;
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "to", "of", "in", "on", "for", "with", "by", "at", "as",
+  "is", "are", "be", "we", "our", "it", "its", "this", "that",
+]);
+
+const NEGATIONS = new Set(["not", "no", "never", "without", "avoid", "cannot", "don", "doesn", "didn", "isn", "won"]);
+
+/** How alike two items are, from 0 (no words in common) to 1 (the same words) */
+export function similarity(a: string, b: string): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return normalize(a) === normalize(b) ? 1 : 0;
+  if (isNegated(wordsA) !== isNegated(wordsB)) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) if (wordsB.has(word)) shared++;
+  const jaccard = shared / (wordsA.size + wordsB.size - shared);
+  const overlap = shared / Math.min(wordsA.size, wordsB.size);
+  return (jaccard + overlap) / 2;
+}
+
+/** Whether `item` is at least `threshold` similar to any of `others` */
+export function hasNearDuplicate(item: string, others: string[], threshold = DEFAULT_DEDUP_THRESHOLD): boolean {
+  return others.some((other) => similarity(item, other) >= threshold);
+}
+
+/**
+ * Drop items at least `threshold` similar to an earlier one. Of each group of
+ * near-duplicates the most informative phrasing (most distinct words, then the
+ * longest) is kept, in the place of the group's first item.
+ */
+export function dedup(items: string[], threshold = DEFAULT_DEDUP_THRESHOLD): string[] {
+  const kept: string[] = [];
+  for (const item of items) {
+    if (!item.trim()) continue;
+    const index = kept.findIndex((k) => similarity(k, item) >= threshold);
+    if (index === -1) {
+      kept.push(item);
+    } else if (informativeness(item) > informativeness(kept[index])) {
+      kept[index] = item;
+    }
+  }
+  return kept;
+}
+
+function isNegated(words: Set<string>): boolean {
+  for (const word of words) if (NEGATIONS.has(word)) return true;
+  return false;
+}
+
+function informativeness(item: string): number {
+  // Distinct words first; length only breaks ties
+  return words(item).size * 1000 + Math.min(item.trim().length, 999);
+}
+
+function normalize(item: string): string {
+  return item.toLowerCase().trim();
+}
+
+function words(item: string): Set<string> {
+  const result = new Set<string>();
+  for (const word of normalize(item).split(/[^\p{L}\p{N}]+/u)) {
+    if (word && !STOPWORDS.has(word)) result.add(stem(word));
+  }
+  return result;
+}
+
+/** Crude suffix stripping: "using", "used", "uses" and "use" all become "us" */
+function stem(word: string): string {
+  for (const suffix of ["ing", "ed", "es", "s", "e"]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 2) return word.slice(0, -suffix.length);
+  }
+  return word;
+}
@@ -0,0 +1,74 @@
+import { entryToMarkdown, findEntry, parseEntryMarkdown, replaceEntry } from "./entry-edit";
+import { createMemoryContextStore } from "./memory-store";
+import { ContextEntry } from "./types";
+import { makeEntry } from "./test-fixtures";
+
+/** An entry with every editable section filled in */
+const AUTH_ENTRY: Partial<ContextEntry> = {
+    task: "Refactor auth",
+    goal: "PROJ-12",
+    approaches: ["Tried passport"],
+    decisions: ["Use JWT", "Keep sessions in Redis"],
+    currentState: "Login works,\nlogout doesn't yet",
+    nextSteps: ["Fix logout"],
+    filesChanged: ["src/auth.ts"],
+};
+
+describe("Entry editing", () => {
+    it("should round-trip an entry through markdown unchanged", () => {
+        const entry = makeEntry("a1", AUTH_ENTRY);
+        expect(parseEntryMarkdown(entryToMarkdown(entry), entry)).toEqual(entry);
+    });
+
+    it("should apply edits, clearing empty sections and keeping missing ones", () => {
+        const entry = makeEntry("a1", { ...AUTH_ENTRY, blockers: ["Waiting on API keys"] });
+        const edited = parseEntryMarkdown(
+            [
+                "## Task",
+                "Refactor auth module",
+                "",
+                "## Decisions",
+                "- Use JWT",
+                "* Short-lived tokens",
+                "",
+                "## Blockers",
+                "",
+                "## Goal",
+            ].join("\n"),
+            entry
+        );
+
+        expect(edited).toEqual({
+            ...entry,
+            task: "Refactor auth module",
+            decisions: ["Use JWT", "Short-lived tokens"],
+            blockers: undefined,
+            goal: undefined,
+        });
+    });
+
+    it("should reject unknown sections and an empty task, and treat an empty document as cancelled", () => {
+        const entry = makeEntry("a1", AUTH_ENTRY);
+        expect(() => parseEntryMarkdown("## Tasks\nTypo", entry)).toThrow(/Unknown section "## Tasks"/);
+        expect(() => parseEntryMarkdown("## Task\n\n## Goal\nx", entry)).toThrow(/Task section can't be empty/);
+        expect(parseEntryMarkdown("<!-- only a comment -->\n\n", entry)).toBeNull();
+    });
+
+    it("should find entries by unique ID prefix and update them in place", async () => {
+        const store = createMemoryContextStore([makeEntry("3f2a9c1d-1111"), makeEntry("3f2b0000-2222")]);
+
+        expect((await findEntry(store, "3f2a"))?.id).toBe("3f2a9c1d-1111");
+        expect((await findEntry(store, "3f2a9c1d-1111"))?.id).toBe("3f2a9c1d-1111");
+        expect(await findEntry(store, "3f2")).toBeNull(); // too short to be a prefix
+        expect(await findEntry(store, "ffff")).toBeNull();
+
+        expect(await replaceEntry(store, makeEntry("3f2b0000-2222", { task: "Edited" }))).toBe(true);
+        expect((await store.loadBranch("main")).map((e) => e.task)).toEqual(["Task 3f2a9c1d-1111", "Edited"]);
+        expect(await replaceEntry(store, makeEntry("gone"))).toBe(false);
+    });
+
+    it("should refuse an ambiguous prefix", async () => {
+        const store = createMemoryContextStore([makeEntry("3f2a9c1d-1111"), makeEntry("3f2a0000-2222")]);
+        await expect(findEntry(store, "3f2a")).rejects.toThrow(/ambiguous/);
+    });
+});
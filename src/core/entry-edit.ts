@@ -0,0 +1,139 @@
+import { ContextEntry } from "./types";
+import { ContextStore } from "./store";
+
+/*
+ * Editing saved entries: `show`, `edit`, `amend` and `drop` find an entry by
+ * ID (or a unique prefix, as printed by `log`), and `edit`/`amend` round-trip
+ * it through a structured markdown document in $EDITOR.
+ */
+
+/** Length of the ID prefix shown by `log` and accepted everywhere an ID is */
+export const SHORT_ID_LENGTH = 8;
+
+const MIN_PREFIX_LENGTH = 4;
+
+export function shortId(entry: ContextEntry): string {
+  return entry.id.slice(0, SHORT_ID_LENGTH);
+}
+
+/**
+ * Find an entry by full ID or unique ID prefix (at least 4 characters).
+ * Returns null if nothing matches; throws if a prefix matches several entries.
+ */
+export async function findEntry(store: ContextStore, ref: string): Promise<ContextEntry | null> {
+  const entries = await store.loadAll();
+  const exact = entries.find((e) => e.id === ref);
+  if (exact) return exact;
+  if (ref.length < MIN_PREFIX_LENGTH) return null;
+
+  const matches = entries.filter((e) => e.id.startsWith(ref));
+  if (matches.length > 1) {
+    const ids = matches.slice(0, 5).map((e) => `${e.id} (${e.branch})`);
+    throw new Error(`Entry ID "${ref}" is ambiguous, it matches: ${ids.join(", ")}`);
+  }
+  return matches[0] ?? null;
+}
+
+/**
+ * Replace a stored entry (matched by ID, on its branch) with an updated copy.
+ * Returns false if the entry no longer exists.
+ */
+export async function replaceEntry(store: ContextStore, updated: ContextEntry): Promise<boolean> {
+  let found = false;
+  await store.updateBranch(updated.branch, (current) =>
+    current.map((e) => {
+      if (e.id !== updated.id) return e;
+      found = true;
+      return updated;
+    })
+  );
+  return found;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown round-trip
+// ---------------------------------------------------------------------------
+
+type TextField = "task" | "goal" | "currentState" | "assignee" | "handoffNote";
+type ListField = "approaches" | "decisions" | "nextSteps" | "blockers";
+
+const SECTIONS: { heading: string; field: TextField | ListField; list: boolean }[] = [
+  { heading: "Task", field: "task", list: false },
+  { heading: "Goal", field: "goal", list: false },
+  { heading: "Approaches", field: "approaches", list: true },
+  { heading: "Decisions", field: "decisions", list: true },
+  { heading: "Current State", field: "currentState", list: false },
+  { heading: "Next Steps", field: "nextSteps", list: true },
+  { heading: "Blockers", field: "blockers", list: true },
+  { heading: "Assignee", field: "assignee", list: false },
+  { heading: "Handoff Note", field: "handoffNote", list: false },
+];
+
+/**
+ * The editable fields of an entry as markdown: one `## Section` per field,
+ * lists as `- item` lines. Git state and metadata are not editable.
+ */
+export function entryToMarkdown(entry: ContextEntry): string {
+  const date = new Date(entry.timestamp).toLocaleString();
+  const lines = [
+    "<!--",
+    `  Context entry ${entry.id}`,
+    `  Branch ${entry.branch}, saved ${date}${entry.author ? ` by ${entry.author}` : ""}`,
+    "",
+    "  Lists take one \"- item\" per line; empty sections are cleared.",
+    "  Save and close to apply, or delete everything to cancel.",
+    "-->",
+  ];
+
+  for (const section of SECTIONS) {
+    const value = entry[section.field];
+    lines.push("", `## ${section.heading}`, "");
+    if (section.list) {
+      for (const item of (value as string[] | undefined) ?? []) lines.push(`- ${item}`);
+    } else if (value) {
+      lines.push(value as string);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Apply an edited markdown document (see entryToMarkdown) to an entry.
+ * Returns null if the document is empty (the edit was cancelled); throws on
+ * unknown sections or an empty task. Sections left out keep their value.
+ */
+export function parseEntryMarkdown(markdown: string, entry: ContextEntry): ContextEntry | null {
+  const text = markdown.replace(/<!--[\s\S]*?-->/g, "");
+  if (!text.trim()) return null;
+
+  const parts = text.split(/^##[ \t]+(.+?)[ \t]*$/m);
+  if (parts[0].trim()) {
+    throw new Error(`Unexpected text before the first section: "${parts[0].trim().split("\n")[0]}"`);
+  }
+
+  const updated: Record<string, unknown> = { ...entry };
+  for (let i = 1; i < parts.length; i += 2) {
+    const heading = parts[i];
+    const body = parts[i + 1].trim();
+    const section = SECTIONS.find((s) => s.heading.toLowerCase() === heading.toLowerCase());
+    if (!section) {
+      throw new Error(`Unknown section "## ${heading}" (expected: ${SECTIONS.map((s) => s.heading).join(", ")})`);
+    }
+
+    if (section.list) {
+      const items = body
+        .split("\n")
+        .map((line) => line.trim().replace(/^[-*][ \t]+/, ""))
+        .filter(Boolean);
+      updated[section.field] = section.field === "blockers" && items.length === 0 ? undefined : items;
+    } else if (section.field === "task" || section.field === "currentState") {
+      updated[section.field] = body;
+    } else {
+      updated[section.field] = body || undefined;
+    }
+  }
+
+  if (!(updated.task as string)) throw new Error("The Task section can't be empty");
+  return updated as unknown as ContextEntry;
+}
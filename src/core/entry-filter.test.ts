@@ -0,0 +1,38 @@
+import { hasFilters, matchesFilters } from "./entry-filter";
+import { makeEntry } from "./test-fixtures";
+
+describe("Entry Filters", () => {
+    const entry = makeEntry("e1", {
+        timestamp: "2025-01-15T10:00:00.000Z",
+        author: "Alice Smith",
+        task: "Refactor auth",
+        approaches: ["Tried passport"],
+    });
+
+    it("should match when every filter that is set matches", () => {
+        expect(matchesFilters(entry, {})).toBe(true);
+        expect(
+            matchesFilters(entry, {
+                author: "alice",
+                branch: "main",
+                since: new Date("2025-01-15T00:00:00Z"),
+                until: new Date("2025-01-16T00:00:00Z"),
+                source: "manual",
+                grep: /passport/i,
+            })
+        ).toBe(true);
+        expect(matchesFilters(entry, { author: "alice", grep: /kafka/i })).toBe(false);
+    });
+
+    it("should filter by date range and source", () => {
+        expect(matchesFilters(entry, { since: new Date("2025-01-16T00:00:00Z") })).toBe(false);
+        expect(matchesFilters(entry, { until: new Date("2025-01-14T00:00:00Z") })).toBe(false);
+        expect(matchesFilters({ ...entry, task: "Auto-captured: 3 files" }, { source: "auto" })).toBe(true);
+        expect(matchesFilters(entry, { source: "ai" })).toBe(false);
+    });
+
+    it("should ignore filters that are unset", () => {
+        expect(hasFilters({ author: undefined, since: undefined })).toBe(false);
+        expect(hasFilters({ grep: /x/ })).toBe(true);
+    });
+});
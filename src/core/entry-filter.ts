@@ -0,0 +1,44 @@
+import { ContextEntry, EntrySource } from "./types";
+import { getEntrySource } from "./source";
+
+/**
+ * Filters shared by `log`, `search` and the MCP log tool. Every filter that is
+ * set must match.
+ */
+export interface EntryFilters {
+  /** Case-insensitive substring of the author */
+  author?: string;
+  branch?: string;
+  since?: Date;
+  until?: Date;
+  source?: EntrySource;
+  /** Matched against the task, approaches, decisions, state, next steps, blockers and handoff note */
+  grep?: RegExp;
+}
+
+export function hasFilters(filters: EntryFilters): boolean {
+  return Object.values(filters).some((value) => value !== undefined);
+}
+
+export function matchesFilters(entry: ContextEntry, filters: EntryFilters): boolean {
+  if (filters.branch && entry.branch !== filters.branch) return false;
+  if (filters.author && !entry.author.toLowerCase().includes(filters.author.toLowerCase())) return false;
+  const time = new Date(entry.timestamp).getTime();
+  if (filters.since && time < filters.since.getTime()) return false;
+  if (filters.until && time > filters.until.getTime()) return false;
+  if (filters.source && getEntrySource(entry) !== filters.source) return false;
+  if (filters.grep && !entryTexts(entry).some((text) => filters.grep!.test(text))) return false;
+  return true;
+}
+
+function entryTexts(entry: ContextEntry): string[] {
+  return [
+    entry.task,
+    ...entry.approaches,
+    ...entry.decisions,
+    entry.currentState,
+    ...entry.nextSteps,
+    ...(entry.blockers ?? []),
+    ...(entry.handoffNote ? [entry.handoffNote] : []),
+  ];
+}
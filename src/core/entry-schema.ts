@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+/**
+ * Runtime schema for a ContextEntry (see types.ts), at the current schema
+ * version. Used by `valyrianctx fsck` to validate what's on disk; unknown
+ * fields are allowed so entries from newer minor releases still pass.
+ */
+export const contextEntrySchema = z
+  .object({
+    id: z.string().min(1),
+    timestamp: z.string().refine((t) => !isNaN(Date.parse(t)), "not a valid date"),
+    branch: z.string().min(1),
+    repo: z.string(),
+    author: z.string(),
+
+    task: z.string(),
+    goal: z.string().optional(),
+    approaches: z.array(z.string()),
+    decisions: z.array(z.string()),
+    currentState: z.string(),
+    nextSteps: z.array(z.string()),
+    blockers: z.array(z.string()).optional(),
+
+    filesChanged: z.array(z.string()),
+    filesStaged: z.array(z.string()),
+    recentCommits: z.array(z.string()),
+
+    assignee: z.string().optional(),
+    handoffNote: z.string().optional(),
+    mergedFrom: z.string().optional(),
+    source: z.enum(["manual", "auto", "ai"]).optional(),
+    schemaVersion: z.number().int().positive().optional(),
+    updatedAt: z.string().refine((t) => !isNaN(Date.parse(t)), "not a valid date").optional(),
+  })
+  .passthrough();
+
+/**
+ * Problems with a (parsed) entry, one message per invalid field; empty if valid.
+ */
+export function validateEntry(value: unknown): string[] {
+  const result = contextEntrySchema.safeParse(value);
+  if (result.success) return [];
+  return result.error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
+}
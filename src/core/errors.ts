@@ -0,0 +1,48 @@
+/**
+ * Process exit codes, one per class of failure, so scripts and CI can tell
+ * them apart. Documented in the README; don't renumber.
+ */
+export const EXIT_CODES = {
+  /** Anything not covered below */
+  ERROR: 1,
+  /** Missing or invalid arguments */
+  USAGE: 2,
+  /** `.valyrianctx/` doesn't exist: run `valyrianctx init` */
+  NOT_INITIALIZED: 3,
+  /** Not inside a git repository */
+  NOT_GIT_REPO: 4,
+  /** The AI provider is not configured, unreachable or returned an error */
+  AI_ERROR: 5,
+  /** A file in `.valyrianctx/` can't be read (see `valyrianctx fsck`) */
+  STORE_CORRUPT: 6,
+} as const;
+
+export type ErrorCode = keyof typeof EXIT_CODES;
+
+/**
+ * An error with a known cause. The message is shown as is (no "Error:"
+ * prefix), and `code` picks the exit code.
+ */
+export class ValyrianCtxError extends Error {
+  constructor(message: string, public readonly code: ErrorCode) {
+    super(message);
+    this.name = "ValyrianCtxError";
+  }
+}
+
+export class UsageError extends ValyrianCtxError {
+  constructor(message: string) {
+    super(message, "USAGE");
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * The error code for any thrown value. Git errors from simple-git are
+ * recognised by their message.
+ */
+export function getErrorCode(err: unknown): ErrorCode {
+  if (err instanceof ValyrianCtxError) return err.code;
+  if (err instanceof Error && /not a git repository/i.test(err.message)) return "NOT_GIT_REPO";
+  return "ERROR";
+}
@@ -0,0 +1,231 @@
+import fs from "fs";
+import path from "path";
+import { ContextEntry } from "./types";
+import { ContextStore, LoadOptions, UpdateOptions } from "./store";
+import { mergeContexts } from "./context";
+import {
+  appendToBranchLog,
+  listBranchLogs,
+  readBranchLog,
+  removeBranchLog,
+  writeBranchLog,
+} from "./branch-log";
+import {
+  deleteSession,
+  deleteSessions,
+  hasLegacySessions,
+  migrateLegacySessions,
+  readAllSessions,
+  writeSession,
+} from "./session-store";
+import { appendToNotes, readNotesEntries, rewriteBranchNotes, NOTES_REF } from "./notes-store";
+import { assertSupportedStore, CURRENT_SCHEMA_VERSION, upgradeEntry } from "./migrations";
+import { withFileLock } from "../utils/fs-safe";
+
+export interface FileContextStoreOptions {
+  /** Where new entries are written (the `storage` setting). Default "files". */
+  storage?: "files" | "git-notes";
+  /** Merge in entries stored in git notes. Default true; needs the repo as cwd. */
+  notes?: boolean;
+}
+
+/**
+ * The default store: `.valyrianctx/branches/*.jsonl` + `sessions/*.json`,
+ * with entries from git notes (see notes-store.ts) merged into every read.
+ *
+ * Every write happens under `.valyrianctx/.lock`. Entries keep the backend they
+ * were first written to; only new entries follow the `storage` setting.
+ * Archived branches always go to `archive/<branch>.jsonl`, whatever the backend.
+ */
+export function createFileContextStore(dir: string, options: FileContextStoreOptions = {}): ContextStore {
+  const storage = options.storage ?? "files";
+  const useNotes = options.notes ?? true;
+  const branchesDir = path.join(dir, "branches");
+  const sessionsDir = path.join(dir, "sessions");
+  const archiveDir = path.join(dir, "archive");
+
+  const withLock = <T>(fn: () => Promise<T> | T): Promise<T> => {
+    fs.mkdirSync(dir, { recursive: true });
+    return withFileLock(path.join(dir, ".lock"), fn);
+  };
+
+  const notesEntries = async (): Promise<ContextEntry[]> => (useNotes ? readNotesEntries() : []);
+
+  const allBranchEntries = (): ContextEntry[] =>
+    listBranchLogs(branchesDir).flatMap((branch) => readBranchLog(branchesDir, branch));
+
+  const updateBranch = async (
+    branch: string,
+    update: (current: ContextEntry[]) => ContextEntry[],
+    updateOptions: UpdateOptions = {}
+  ): Promise<ContextEntry[]> => {
+    fs.mkdirSync(branchesDir, { recursive: true });
+    assertSupportedStore(dir);
+
+    return withLock(async () => {
+      const fromFiles = readBranchLog(branchesDir, branch);
+      const fromNotes = (await notesEntries()).filter((e) => e.branch === branch);
+      const current = mergeContexts(fromFiles, fromNotes).map(upgradeEntry);
+      const next = update(current);
+
+      // Entries stay in the backend they came from; new ones go to the configured one
+      const inFiles = new Set(fromFiles.map((e) => e.id));
+      const inNotes = new Set(fromNotes.map((e) => e.id));
+      const toNotes = (e: ContextEntry) => inNotes.has(e.id) || (storage === "git-notes" && !inFiles.has(e.id));
+
+      writeBranchLog(branchesDir, branch, next.filter((e) => !toNotes(e)));
+      if (fromNotes.length > 0 || next.some(toNotes)) {
+        await rewriteBranchNotes(branch, next.filter(toNotes));
+      }
+
+      // Edited or added entries get a fresh session copy (the file name follows the
+      // timestamp); dropped ones keep theirs for `log --all` unless pruned (gc)
+      const kept = new Set(next.map((e) => e.id));
+      const before = new Map(current.map((e) => [e.id, JSON.stringify(e)]));
+      const changed = next.filter((e) => !toNotes(e) && before.get(e.id) !== JSON.stringify(e));
+      const dropped = updateOptions.prune ? current.filter((e) => !kept.has(e.id)) : [];
+      deleteSessions(sessionsDir, [...dropped.map((e) => e.id), ...changed.map((e) => e.id)]);
+      if (changed.length > 0) fs.mkdirSync(sessionsDir, { recursive: true });
+      for (const entry of changed) writeSession(sessionsDir, entry);
+      return next;
+    });
+  };
+
+  return {
+    async save(entry) {
+      fs.mkdirSync(sessionsDir, { recursive: true });
+      fs.mkdirSync(branchesDir, { recursive: true });
+
+      assertSupportedStore(dir);
+      const stamped: ContextEntry = { ...entry, schemaVersion: CURRENT_SCHEMA_VERSION };
+
+      if (storage === "git-notes") {
+        return withLock(async () => `${NOTES_REF}@${(await appendToNotes(stamped)).slice(0, 7)}`);
+      }
+
+      return withLock(() => {
+        // One-time upgrade of minute-precision session files (see migrateLegacySessions)
+        if (hasLegacySessions(sessionsDir)) {
+          migrateLegacySessions(sessionsDir, allBranchEntries());
+        }
+
+        // Save session (keyed by entry ID, so same-minute saves never collide)
+        const sessionFile = writeSession(sessionsDir, stamped);
+
+        // Append to the branch log (one line per entry, never rewritten on save)
+        appendToBranchLog(branchesDir, stamped);
+
+        return sessionFile;
+      });
+    },
+
+    async loadBranch(branch, loadOptions: LoadOptions = {}) {
+      assertSupportedStore(dir);
+      const fromFiles = readBranchLog(branchesDir, branch, { last: loadOptions.limit });
+      const fromNotes = (await notesEntries()).filter((e) => e.branch === branch);
+      if (fromNotes.length === 0) return fromFiles.map(upgradeEntry);
+
+      const merged = mergeContexts(fromFiles, fromNotes);
+      const limited = loadOptions.limit !== undefined ? merged.slice(-loadOptions.limit) : merged;
+      return limited.map(upgradeEntry);
+    },
+
+    async loadAll(loadOptions: LoadOptions = {}) {
+      assertSupportedStore(dir);
+      const fromFiles = readAllSessions(sessionsDir, loadOptions);
+      const fromNotes = await notesEntries();
+      if (fromNotes.length === 0) return fromFiles.map(upgradeEntry);
+
+      const merged = mergeContexts(fromFiles, fromNotes).reverse();
+      const limited = loadOptions.limit !== undefined ? merged.slice(0, loadOptions.limit) : merged;
+      return limited.map(upgradeEntry);
+    },
+
+    async listBranches() {
+      const branches = new Set(listBranchLogs(branchesDir));
+      for (const entry of await notesEntries()) branches.add(entry.branch);
+      return Array.from(branches).sort();
+    },
+
+    updateBranch,
+
+    async replaceBranch(branch, entries) {
+      await updateBranch(branch, () => entries);
+    },
+
+    async delete(id) {
+      assertSupportedStore(dir);
+
+      return withLock(async () => {
+        let found = deleteSession(sessionsDir, id);
+
+        for (const branch of listBranchLogs(branchesDir)) {
+          const entries = readBranchLog(branchesDir, branch);
+          if (!entries.some((e) => e.id === id)) continue;
+          writeBranchLog(branchesDir, branch, entries.filter((e) => e.id !== id));
+          found = true;
+        }
+
+        const inNotes = (await notesEntries()).find((e) => e.id === id);
+        if (inNotes) {
+          const remaining = (await notesEntries()).filter((e) => e.branch === inNotes.branch && e.id !== id);
+          await rewriteBranchNotes(inNotes.branch, remaining);
+          found = true;
+        }
+
+        return found;
+      });
+    },
+
+    async renameBranch(from, to) {
+      assertSupportedStore(dir);
+      if (from === to) return 0;
+
+      return withLock(async () => {
+        const relabel = (e: ContextEntry): ContextEntry => ({ ...e, branch: to });
+        const fromFiles = readBranchLog(branchesDir, from).map(relabel);
+        const fromNotes = (await notesEntries()).filter((e) => e.branch === from).map(relabel);
+
+        if (fromFiles.length > 0) {
+          writeBranchLog(branchesDir, to, mergeContexts(readBranchLog(branchesDir, to), fromFiles));
+          removeBranchLog(branchesDir, from);
+          // Session files carry the branch name too; the file name doesn't change
+          fs.mkdirSync(sessionsDir, { recursive: true });
+          for (const entry of fromFiles) writeSession(sessionsDir, entry);
+        }
+        if (fromNotes.length > 0) {
+          // Relabelled in place, so each entry stays on the commit it was attached to
+          await rewriteBranchNotes(from, fromNotes);
+        }
+
+        return new Set([...fromFiles, ...fromNotes].map((e) => e.id)).size;
+      });
+    },
+
+    async archiveBranch(branch) {
+      assertSupportedStore(dir);
+
+      return withLock(async () => {
+        const fromFiles = readBranchLog(branchesDir, branch);
+        const fromNotes = (await notesEntries()).filter((e) => e.branch === branch);
+        const entries = mergeContexts(fromFiles, fromNotes).map(upgradeEntry);
+        if (entries.length === 0) return [];
+
+        fs.mkdirSync(archiveDir, { recursive: true });
+        writeBranchLog(archiveDir, branch, mergeContexts(readBranchLog(archiveDir, branch), entries));
+
+        removeBranchLog(branchesDir, branch);
+        deleteSessions(sessionsDir, entries.map((e) => e.id));
+        if (fromNotes.length > 0) await rewriteBranchNotes(branch, []);
+
+        return entries;
+      });
+    },
+
+    async loadArchived(branch) {
+      const branches = branch !== undefined ? [branch] : listBranchLogs(archiveDir);
+      const entries = branches.flatMap((b) => readBranchLog(archiveDir, b));
+      return mergeContexts(entries, []).map(upgradeEntry);
+    },
+  };
+}
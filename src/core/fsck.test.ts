@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { checkStore, rebuildStore } from "./fsck";
+import { createFileContextStore } from "./file-store";
+import { atMinute, makeEntry } from "./test-fixtures";
+
+const TEST_DIR = path.join(os.tmpdir(), `valyrianctx-fsck-${Date.now()}`);
+const BRANCHES = path.join(TEST_DIR, "branches");
+const SESSIONS = path.join(TEST_DIR, "sessions");
+
+const kinds = () => checkStore(TEST_DIR).problems.map((p) => [p.kind, p.file, p.entryId]);
+
+beforeEach(async () => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+    const store = createFileContextStore(TEST_DIR, { notes: false });
+    await store.save(makeEntry("a1", { timestamp: atMinute(1) }));
+    await store.save(makeEntry("a2", { timestamp: atMinute(2) }));
+    await store.save(makeEntry("b1", { branch: "feature/x", timestamp: atMinute(3) }));
+});
+
+afterAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("fsck", () => {
+    it("should report a healthy store", () => {
+        const report = checkStore(TEST_DIR);
+        expect(report.problems).toEqual([]);
+        expect(report.entries).toBe(6);
+    });
+
+    it("should report unreadable lines, invalid entries and orphans", () => {
+        const log = path.join(BRANCHES, "main.jsonl");
+        const lines = fs.readFileSync(log, "utf-8").split("\n");
+        const invalid = { ...JSON.parse(lines[1]), decisions: "not a list" };
+        fs.writeFileSync(log, [lines[0], "<<<<<<< HEAD", JSON.stringify(invalid), ""].join("\n"));
+
+        expect(kinds()).toEqual([
+            ["unreadable", "branches/main.jsonl", undefined],
+            ["invalid-entry", "branches/main.jsonl", "a2"],
+        ]);
+
+        fs.rmSync(path.join(BRANCHES, "feature__x.jsonl"));
+        expect(kinds()).toContainEqual(["orphan-session", expect.stringMatching(/^sessions\/.*_b1\.json$/), "b1"]);
+    });
+
+    it("should rebuild branch logs from sessions", () => {
+        fs.writeFileSync(path.join(BRANCHES, "main.jsonl"), "{ not json\n");
+
+        expect(rebuildStore(TEST_DIR, "branches", { dryRun: true })).toEqual([
+            "branches/main.jsonl: 2 entries (2 recovered from sessions, 1 unreadable dropped)",
+        ]);
+        expect(kinds()).toHaveLength(3);
+
+        rebuildStore(TEST_DIR, "branches");
+        expect(kinds()).toEqual([]);
+    });
+
+    it("should rebuild sessions from the branch logs", () => {
+        const files = fs.readdirSync(SESSIONS).filter((f) => f !== "index.json");
+        fs.rmSync(path.join(SESSIONS, files.find((f) => f.endsWith("_a1.json"))!));
+        const orphan = makeEntry("zz", { timestamp: atMinute(0) });
+        fs.writeFileSync(path.join(SESSIONS, "2025-01-01T00-00-00-000Z_zz.json"), JSON.stringify(orphan));
+        expect(kinds().map(([kind]) => kind).sort()).toEqual(["missing-session", "orphan-session"]);
+
+        const changes = rebuildStore(TEST_DIR, "sessions");
+        expect(changes).toHaveLength(2);
+        expect(kinds()).toEqual([]);
+        expect(fs.existsSync(path.join(SESSIONS, "2025-01-01T00-00-00-000Z_zz.json"))).toBe(false);
+    });
+});
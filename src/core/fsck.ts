@@ -0,0 +1,352 @@
+import fs from "fs";
+import path from "path";
+import { ContextEntry } from "./types";
+import { mergeContexts } from "./context";
+import { validateEntry } from "./entry-schema";
+import { upgradeEntry } from "./migrations";
+import { branchFileName, removeBranchLog, writeBranchLog } from "./branch-log";
+import { readSessionIndex, sessionFileName, writeSession } from "./session-store";
+
+/**
+ * Consistency check and repair for the `.valyrianctx/` files.
+ *
+ * Every file-backed entry has two copies: a line in `branches/<branch>.jsonl`
+ * (what resume and log read) and `sessions/<timestamp>_<id>.json` (what
+ * `log --all` reads). checkStore() validates both against the entry schema and
+ * cross-checks them; rebuildStore() regenerates one side from the other.
+ *
+ * Unlike the store, nothing here throws on a bad file: that is what it's for.
+ * Entries kept in git notes are not files and are not checked.
+ */
+
+export type FsckProblemKind =
+  | "unreadable"
+  | "invalid-entry"
+  | "wrong-branch"
+  | "duplicate"
+  | "orphan-session"
+  | "missing-session";
+
+export interface FsckProblem {
+  kind: FsckProblemKind;
+  /** Path relative to `.valyrianctx/` */
+  file: string;
+  line?: number;
+  entryId?: string;
+  message: string;
+}
+
+export interface FsckReport {
+  files: number;
+  entries: number;
+  problems: FsckProblem[];
+}
+
+export type RebuildTarget = "branches" | "sessions";
+
+interface ScannedEntry {
+  entry: ContextEntry;
+  file: string;
+  line?: number;
+  valid: boolean;
+}
+
+interface ScannedFile {
+  file: string;
+  /** Branch the file belongs to (branch logs only) */
+  branch?: string;
+  entries: ScannedEntry[];
+  /** Lines or documents that couldn't be parsed at all */
+  unreadable: number;
+}
+
+interface Scan {
+  logs: ScannedFile[];
+  sessions: ScannedFile[];
+  archive: ScannedFile[];
+  problems: FsckProblem[];
+}
+
+const SESSION_INDEX = "index.json";
+
+/**
+ * Validate every branch log, session and archive file, and cross-check
+ * branch logs against sessions.
+ */
+export function checkStore(dir: string): FsckReport {
+  const scan = scanStore(dir);
+  const all = [...scan.logs, ...scan.sessions, ...scan.archive];
+  return {
+    files: all.length,
+    entries: all.reduce((sum, f) => sum + f.entries.length, 0),
+    problems: scan.problems,
+  };
+}
+
+/**
+ * Regenerate one copy of the entries from the other. Returns a description of
+ * each change (planned changes with dryRun). Callers must hold the store lock.
+ *
+ * - "branches": every valid entry found in sessions/ or the branch logs is
+ *   written to the log of the branch it names; unreadable lines are dropped.
+ * - "sessions": sessions/ is made to mirror the branch logs: missing session
+ *   files are written, and orphaned, duplicate or broken ones removed.
+ */
+export function rebuildStore(dir: string, target: RebuildTarget, options: { dryRun?: boolean } = {}): string[] {
+  const scan = scanStore(dir);
+  return target === "branches"
+    ? rebuildBranches(dir, scan, !!options.dryRun)
+    : rebuildSessions(dir, scan, !!options.dryRun);
+}
+
+function rebuildBranches(dir: string, scan: Scan, dryRun: boolean): string[] {
+  const branchesDir = path.join(dir, "branches");
+  const changes: string[] = [];
+  const valid = (files: ScannedFile[]) => files.flatMap((f) => f.entries.filter((e) => e.valid).map((e) => e.entry));
+  const fromLogs = valid(scan.logs);
+  const fromSessions = valid(scan.sessions);
+  const logIds = new Set(fromLogs.map((e) => e.id));
+
+  const byBranch = new Map<string, ContextEntry[]>();
+  for (const entry of mergeContexts(fromLogs, fromSessions)) {
+    byBranch.set(entry.branch, [...(byBranch.get(entry.branch) ?? []), entry]);
+  }
+
+  const problemFiles = new Set(scan.problems.map((p) => p.file));
+  const written = new Set<string>();
+
+  for (const [branch, entries] of byBranch) {
+    const file = `branches/${branchFileName(branch)}.jsonl`;
+    const current = scan.logs.filter((f) => f.branch === branch);
+    const currentIds = current.flatMap((f) => f.entries.map((e) => e.entry.id));
+    const unchanged =
+      current.length === 1 &&
+      current[0].file === file &&
+      !problemFiles.has(file) &&
+      currentIds.join("\n") === entries.map((e) => e.id).join("\n");
+    written.add(file);
+    if (unchanged) continue;
+
+    const recovered = entries.filter((e) => !logIds.has(e.id)).length;
+    const dropped = current.reduce((sum, f) => sum + f.unreadable + f.entries.filter((e) => !e.valid).length, 0);
+    const details = [
+      ...(recovered > 0 ? [`${recovered} recovered from sessions`] : []),
+      ...(dropped > 0 ? [`${dropped} unreadable dropped`] : []),
+    ];
+    changes.push(`${file}: ${entries.length} entries${details.length > 0 ? ` (${details.join(", ")})` : ""}`);
+    if (!dryRun) writeBranchLog(branchesDir, branch, entries);
+  }
+
+  // Logs left with nothing valid (or holding only other branches' entries)
+  for (const log of scan.logs) {
+    if (written.has(log.file) || !log.branch) continue;
+    if (byBranch.has(log.branch) && log.file.endsWith(".json")) continue; // legacy file replaced above
+    changes.push(`${log.file}: removed (no valid entries for ${log.branch})`);
+    if (!dryRun) removeBranchLog(branchesDir, log.branch);
+  }
+
+  return changes;
+}
+
+function rebuildSessions(dir: string, scan: Scan, dryRun: boolean): string[] {
+  const sessionsDir = path.join(dir, "sessions");
+  const expected = new Map<string, ContextEntry>();
+  for (const entry of mergeContexts(
+    scan.logs.flatMap((f) => f.entries.filter((e) => e.valid).map((e) => e.entry)),
+    []
+  )) {
+    expected.set(`sessions/${sessionFileName(entry)}`, entry);
+  }
+
+  const present = new Set<string>();
+  const removed: string[] = [];
+  for (const session of scan.sessions) {
+    const entry = session.entries[0];
+    const keep = expected.has(session.file) && !!entry?.valid && entry.entry.id === expected.get(session.file)!.id;
+    if (keep) {
+      present.add(session.file);
+    } else {
+      removed.push(session.file);
+    }
+  }
+  const missing = Array.from(expected.entries()).filter(([file]) => !present.has(file));
+
+  const changes = [
+    ...missing.map(([file]) => `${file}: written from the branch log`),
+    ...removed.map((file) => `${file}: removed (orphaned, duplicate or unreadable)`),
+  ];
+  if (dryRun || changes.length === 0) return changes;
+
+  fs.mkdirSync(sessionsDir, { recursive: true });
+  for (const file of removed) fs.rmSync(path.join(dir, file), { force: true });
+  for (const [, entry] of missing) writeSession(sessionsDir, entry);
+  readSessionIndex(sessionsDir); // drops removed files from the index
+  return changes;
+}
+
+// ---------------------------------------------------------------------------
+// Scanning
+// ---------------------------------------------------------------------------
+
+function scanStore(dir: string): Scan {
+  const problems: FsckProblem[] = [];
+  const logs = listFiles(path.join(dir, "branches"), [".jsonl", ".json"]).map((f) =>
+    scanBranchFile(dir, `branches/${f}`, problems)
+  );
+  const archive = listFiles(path.join(dir, "archive"), [".jsonl"]).map((f) =>
+    scanBranchFile(dir, `archive/${f}`, problems)
+  );
+  const sessions = listFiles(path.join(dir, "sessions"), [".json"])
+    .filter((f) => f !== SESSION_INDEX)
+    .map((f) => scanSessionFile(dir, `sessions/${f}`, problems));
+
+  crossCheck(logs, sessions, problems);
+  return { logs, sessions, archive, problems };
+}
+
+function listFiles(directory: string, extensions: string[]): string[] {
+  if (!fs.existsSync(directory)) return [];
+  return fs
+    .readdirSync(directory)
+    .filter((f) => extensions.some((ext) => f.endsWith(ext)))
+    .sort();
+}
+
+function scanBranchFile(dir: string, file: string, problems: FsckProblem[]): ScannedFile {
+  const name = path.basename(file).replace(/\.jsonl?$/, "");
+  const scanned: ScannedFile = { file, branch: name.replace(/__/g, "/"), entries: [], unreadable: 0 };
+  const content = fs.readFileSync(path.join(dir, file), "utf-8");
+
+  if (file.endsWith(".json")) {
+    // Pre-0.7 layout: one JSON array per branch
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (err: any) {
+      scanned.unreadable++;
+      problems.push({ kind: "unreadable", file, message: describeParseError(content, err) });
+      return scanned;
+    }
+    if (!Array.isArray(parsed)) {
+      scanned.unreadable++;
+      problems.push({ kind: "unreadable", file, message: "expected a JSON array of entries" });
+      return scanned;
+    }
+    parsed.forEach((raw) => addEntry(scanned, raw, undefined, problems));
+    return scanned;
+  }
+
+  const lines = content.split("\n");
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(line);
+    } catch (err: any) {
+      scanned.unreadable++;
+      const torn = i === lines.length - 1 && !content.endsWith("\n");
+      problems.push({
+        kind: "unreadable",
+        file,
+        line: i + 1,
+        message: torn ? "partially written last line" : describeParseError(line, err),
+      });
+      return;
+    }
+    addEntry(scanned, raw, i + 1, problems);
+  });
+  return scanned;
+}
+
+function scanSessionFile(dir: string, file: string, problems: FsckProblem[]): ScannedFile {
+  const scanned: ScannedFile = { file, entries: [], unreadable: 0 };
+  const content = fs.readFileSync(path.join(dir, file), "utf-8");
+  try {
+    addEntry(scanned, JSON.parse(content), undefined, problems);
+  } catch (err: any) {
+    scanned.unreadable++;
+    problems.push({ kind: "unreadable", file, message: describeParseError(content, err) });
+  }
+  return scanned;
+}
+
+function addEntry(scanned: ScannedFile, raw: any, line: number | undefined, problems: FsckProblem[]): void {
+  const { file } = scanned;
+  if (!raw || typeof raw !== "object" || typeof raw.id !== "string") {
+    scanned.unreadable++;
+    problems.push({ kind: "unreadable", file, line, message: "not a context entry (no id)" });
+    return;
+  }
+
+  let entry: ContextEntry;
+  try {
+    entry = upgradeEntry(raw);
+  } catch (err: any) {
+    scanned.entries.push({ entry: raw, file, line, valid: false });
+    problems.push({ kind: "invalid-entry", file, line, entryId: raw.id, message: err.message });
+    return;
+  }
+
+  const issues = validateEntry(entry);
+  scanned.entries.push({ entry, file, line, valid: issues.length === 0 });
+  if (issues.length > 0) {
+    problems.push({ kind: "invalid-entry", file, line, entryId: entry.id, message: issues.join("; ") });
+  } else if (scanned.branch !== undefined && entry.branch !== scanned.branch) {
+    problems.push({
+      kind: "wrong-branch",
+      file,
+      line,
+      entryId: entry.id,
+      message: `entry belongs to branch "${entry.branch}"`,
+    });
+  }
+}
+
+function crossCheck(logs: ScannedFile[], sessions: ScannedFile[], problems: FsckProblem[]): void {
+  const locate = (files: ScannedFile[]) => {
+    const found = new Map<string, ScannedEntry[]>();
+    for (const e of files.flatMap((f) => f.entries)) {
+      found.set(e.entry.id, [...(found.get(e.entry.id) ?? []), e]);
+    }
+    return found;
+  };
+  const inLogs = locate(logs);
+  const inSessions = locate(sessions);
+
+  for (const [id, copies] of [...inLogs, ...inSessions]) {
+    if (copies.length < 2) continue;
+    const where = copies.map((c) => (c.line ? `${c.file}:${c.line}` : c.file));
+    problems.push({
+      kind: "duplicate",
+      file: copies[1].file,
+      line: copies[1].line,
+      entryId: id,
+      message: `entry appears ${copies.length} times (${where.join(", ")})`,
+    });
+  }
+
+  for (const [id, copies] of inSessions) {
+    if (inLogs.has(id)) continue;
+    problems.push({
+      kind: "orphan-session",
+      file: copies[0].file,
+      entryId: id,
+      message: "not in any branch log (left behind by a deleted or compressed entry, or a broken log)",
+    });
+  }
+
+  for (const [id, copies] of inLogs) {
+    if (inSessions.has(id)) continue;
+    problems.push({
+      kind: "missing-session",
+      file: copies[0].file,
+      line: copies[0].line,
+      entryId: id,
+      message: "has no session file",
+    });
+  }
+}
+
+function describeParseError(content: string, err: Error): string {
+  return /^(<{7}|={7}|>{7})/m.test(content) ? "git conflict markers" : `invalid JSON (${err.message})`;
+}
@@ -1,43 +1,316 @@
-import simpleGit from "simple-git";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import simpleGit, { SimpleGit } from "simple-git";
+import { ValyrianCtxError } from "./errors";
 
-const git = simpleGit();
+const repoPath = new AsyncLocalStorage<string>();
+const clients = new Map<string, SimpleGit>();
+
+/**
+ * Run `fn` against the repository at `dir` instead of the process's working
+ * directory: every git call it makes, and so the `.valyrianctx/` it resolves,
+ * uses that repository. Used by the SDK so one process can serve several repos.
+ */
+export function withRepoPath<T>(dir: string, fn: () => Promise<T>): Promise<T> {
+  return repoPath.run(path.resolve(dir), fn);
+}
+
+/** The directory git commands run in: the `withRepoPath` one, or the process's cwd */
+export function getWorkingDir(): string {
+  return repoPath.getStore() ?? process.cwd();
+}
+
+function git(): SimpleGit {
+  const dir = getWorkingDir();
+  let client = clients.get(dir);
+  if (!client) {
+    client = simpleGit(dir);
+    clients.set(dir, client);
+  }
+  return client;
+}
+
+export class NotGitRepoError extends ValyrianCtxError {
+  constructor() {
+    super("Not a git repository. Run `git init` first.", "NOT_GIT_REPO");
+    this.name = "NotGitRepoError";
+  }
+}
 
 export async function getCurrentBranch(): Promise<string> {
-  const branch = await git.revparse(["--abbrev-ref", "HEAD"]);
+  const branch = await git().revparse(["--abbrev-ref", "HEAD"]);
   return branch.trim();
 }
 
 export async function getRepoName(): Promise<string> {
-  const remote = await git.remote(["get-url", "origin"]).catch(() => null);
+  const remote = await git().remote(["get-url", "origin"]).catch(() => null);
   if (remote) {
     const name = remote.trim().split("/").pop()?.replace(".git", "") || "unknown";
     return name;
   }
-  const root = await git.revparse(["--show-toplevel"]);
+  const root = await git().revparse(["--show-toplevel"]);
   return root.trim().split("/").pop() || "unknown";
 }
 
 export async function getChangedFiles(): Promise<string[]> {
-  const status = await git.status();
+  const status = await git().status();
   return [...status.modified, ...status.created, ...status.not_added];
 }
 
 export async function getStagedFiles(): Promise<string[]> {
-  const status = await git.status();
+  const status = await git().status();
   return status.staged;
 }
 
 export async function getRecentCommits(count: number = 5): Promise<string[]> {
-  const log = await git.log({ maxCount: count });
+  const log = await git().log({ maxCount: count });
   return log.all.map((c) => `${c.hash.slice(0, 7)} ${c.message}`);
 }
 
+export async function getDiffStat(): Promise<string> {
+  return git().diff(["--stat"]);
+}
+
+/**
+ * Stage `paths` and commit them. Returns the new commit's hash (empty if
+ * there was nothing to commit).
+ */
+export async function commitPaths(paths: string[], message: string): Promise<string> {
+  await git().add(paths);
+  const result = await git().commit(message);
+  return result.commit;
+}
+
 export async function getAuthor(): Promise<string> {
-  const name = await git.raw(["config", "user.name"]).catch(() => "unknown");
+  const name = await git().raw(["config", "user.name"]).catch(() => "unknown");
   return name.trim();
 }
 
 export async function getRepoRoot(): Promise<string> {
-  const root = await git.revparse(["--show-toplevel"]);
-  return root.trim();
+  try {
+    const root = await git().revparse(["--show-toplevel"]);
+    return root.trim();
+  } catch (err: any) {
+    if (/not a git repository/i.test(err.message)) throw new NotGitRepoError();
+    throw err;
+  }
+}
+
+export async function getHeadCommit(): Promise<string | null> {
+  const head = await git().revparse(["--verify", "-q", "HEAD"]).catch(() => "");
+  return head.trim() || null;
+}
+
+/**
+ * Set keys in the repo's local git config. Returns true if any value changed.
+ */
+export async function setLocalConfig(values: Record<string, string>): Promise<boolean> {
+  let changed = false;
+  for (const [key, value] of Object.entries(values)) {
+    const current = await git().raw(["config", "--local", "--get", key]).catch(() => "");
+    if (current.trim() === value) continue;
+    await git().raw(["config", "--local", key, value]);
+    changed = true;
+  }
+  return changed;
+}
+
+// ---------------------------------------------------------------------------
+// Branch ancestry
+// ---------------------------------------------------------------------------
+
+export async function branchExists(branch: string): Promise<boolean> {
+  return hasRef(`refs/heads/${branch}`);
+}
+
+export async function getBranchTip(branch: string): Promise<string | null> {
+  const sha = await git().raw(["rev-parse", "--verify", "-q", `refs/heads/${branch}`]).catch(() => "");
+  return sha.trim() || null;
+}
+
+/**
+ * True if `commit` is reachable from `other` (i.e. already merged into it).
+ */
+export async function isAncestor(commit: string, other: string): Promise<boolean> {
+  // Not `merge-base --is-ancestor`: simple-git doesn't reject on a silent non-zero exit
+  const [base, sha] = await Promise.all([
+    git().raw(["merge-base", commit, other]).catch(() => ""),
+    git().raw(["rev-parse", "--verify", "-q", commit]).catch(() => ""),
+  ]);
+  return !!sha.trim() && base.trim() === sha.trim();
+}
+
+export async function getRemoteNames(): Promise<string[]> {
+  const remotes = await git().getRemotes().catch(() => []);
+  return remotes.map((r) => r.name);
+}
+
+/**
+ * The repository's default branch: where a remote's HEAD points
+ * (`origin/HEAD` -> `main`), or else `main` or `master` if one exists.
+ */
+export async function getDefaultBranch(): Promise<string | null> {
+  for (const remote of await getRemoteNames()) {
+    const ref = await git().raw(["symbolic-ref", "--quiet", "--short", `refs/remotes/${remote}/HEAD`]).catch(() => "");
+    if (ref.trim().startsWith(`${remote}/`)) return ref.trim().slice(remote.length + 1);
+  }
+  for (const candidate of ["main", "master"]) {
+    if (await branchExists(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * The branch merged by the last operation on HEAD, if it was a `git merge`
+ * ("merge feature/x: Fast-forward"). Null after a pull or anything else.
+ */
+export async function getLastMergedBranch(): Promise<string | null> {
+  const last = await git().raw(["reflog", "show", "-1", "--format=%gs", "HEAD", "--"]).catch(() => "");
+  const match = last.trim().match(/^merge (.+?): /);
+  return match ? match[1] : null;
+}
+
+/**
+ * The branch `branch` was created from, according to the reflogs:
+ * "branch: Created from <parent>" in the branch's own reflog, or else the
+ * oldest "checkout: moving from <parent> to <branch>" in HEAD's. Returns null
+ * if the reflogs don't say (expired, cloned, created from a commit) or the
+ * branch wasn't created locally at all.
+ */
+export async function getBranchCreatedFrom(branch: string): Promise<string | null> {
+  const reflog = async (ref: string) => {
+    const out = await git().raw(["reflog", "show", "--format=%gs", ref, "--"]).catch(() => "");
+    return out.split("\n").filter(Boolean);
+  };
+
+  // Oldest entry of the branch's own reflog; absent for clones and `git init`
+  const created = (await reflog(`refs/heads/${branch}`)).pop()?.match(/^branch: Created from (.+)$/);
+  if (!created) return null;
+  if (created[1] !== "HEAD" && (await branchExists(created[1]))) {
+    return created[1];
+  }
+
+  // Newest first: the last match is the checkout that created the branch
+  const moves = (await reflog("HEAD"))
+    .map((line) => line.match(/^checkout: moving from (.+) to (.+)$/))
+    .filter((m): m is RegExpMatchArray => !!m && m[2] === branch && m[1] !== branch);
+  const parent = moves.pop()?.[1];
+  return parent && (await branchExists(parent)) ? parent : null;
+}
+
+/**
+ * Of `candidates`, the branch `branch` most likely forked from: the one whose
+ * merge-base is the fewest commits behind `branch`. Candidates that already
+ * contain `branch`'s tip are skipped: from the graph alone, a branch cut from
+ * `main` and `main` itself look the same, and `main` must never "inherit".
+ */
+export async function getClosestBranch(branch: string, candidates: string[]): Promise<string | null> {
+  const tip = await getBranchTip(branch);
+  if (!tip) return null;
+
+  let best: { branch: string; distance: number } | null = null;
+  for (const candidate of candidates) {
+    if (candidate === branch || !(await branchExists(candidate))) continue;
+
+    const base = (await git().raw(["merge-base", tip, `refs/heads/${candidate}`]).catch(() => "")).trim();
+    if (!base || base === tip) continue;
+
+    const distance = parseInt(await git().raw(["rev-list", "--count", `${base}..${tip}`]), 10);
+    if (!best || distance < best.distance) best = { branch: candidate, distance };
+  }
+  return best?.branch ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Git notes
+// ---------------------------------------------------------------------------
+
+export async function hasRef(ref: string): Promise<boolean> {
+  const sha = await git().raw(["rev-parse", "--verify", "-q", ref]).catch(() => "");
+  return sha.trim().length > 0;
+}
+
+/**
+ * List the notes under `ref` as { object, blob } pairs (object = annotated commit).
+ */
+export async function listNotes(ref: string): Promise<{ object: string; blob: string }[]> {
+  if (!(await hasRef(ref))) return [];
+  const out = await git().raw(["notes", `--ref=${ref}`, "list"]);
+  return out
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [blob, object] = line.trim().split(/\s+/);
+      return { object, blob };
+    });
+}
+
+/**
+ * Read the contents of several note blobs at once, concatenated.
+ */
+export async function readNoteBlobs(blobs: string[]): Promise<string> {
+  let content = "";
+  // Chunk to stay well under the OS argument length limit
+  for (let i = 0; i < blobs.length; i += 200) {
+    content += await git().raw(["show", ...blobs.slice(i, i + 200)]);
+  }
+  return content;
+}
+
+export async function readNote(ref: string, object: string): Promise<string> {
+  return git().raw(["notes", `--ref=${ref}`, "show", object]).catch(() => "");
+}
+
+/**
+ * Append text to the note on `object` (creating it if needed). Note content
+ * goes through a temp file so large entries don't hit argv limits.
+ */
+export async function appendNote(ref: string, object: string, content: string): Promise<void> {
+  await withNoteFile(content, (file) => git().raw(["notes", `--ref=${ref}`, "append", "-F", file, object]));
+}
+
+/**
+ * Replace the note on `object`; an empty `content` removes the note.
+ */
+export async function writeNote(ref: string, object: string, content: string): Promise<void> {
+  if (!content.trim()) {
+    await git().raw(["notes", `--ref=${ref}`, "remove", "--ignore-missing", object]);
+    return;
+  }
+  await withNoteFile(content, (file) => git().raw(["notes", `--ref=${ref}`, "add", "-f", "-F", file, object]));
+}
+
+/**
+ * Fetch a notes ref from `remote` into `localRef` (forced, like a remote-tracking ref).
+ * Returns false if the remote doesn't have the ref.
+ */
+export async function fetchNotes(remote: string, ref: string, localRef: string): Promise<boolean> {
+  const remoteRefs = await git().raw(["ls-remote", remote, ref]);
+  if (!remoteRefs.trim()) return false;
+  await git().raw(["fetch", remote, `+${ref}:${localRef}`]);
+  return true;
+}
+
+/**
+ * Merge `otherRef` into the notes ref. Notes are JSONL, so `cat_sort_uniq`
+ * unions both sides line by line and never conflicts.
+ */
+export async function mergeNotes(ref: string, otherRef: string): Promise<void> {
+  await git().raw(["notes", `--ref=${ref}`, "merge", "-q", "-s", "cat_sort_uniq", otherRef]);
+}
+
+export async function pushNotes(remote: string, ref: string): Promise<void> {
+  await git().raw(["push", remote, `${ref}:${ref}`]);
+}
+
+async function withNoteFile<T>(content: string, fn: (file: string) => Promise<T>): Promise<T> {
+  const file = path.join(os.tmpdir(), `valyrianctx-note-${process.pid}-${Date.now()}.txt`);
+  fs.writeFileSync(file, content);
+  try {
+    return await fn(file);
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
 }
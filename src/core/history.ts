@@ -0,0 +1,41 @@
+import { getContextStore, getValyrianCtxDir } from "./context";
+import { getCurrentBranch } from "./git";
+import { hasFilters, matchesFilters } from "./entry-filter";
+import { LogOptions, SearchOptions } from "./options";
+import { loadSearchIndex, searchEntries, SearchResult } from "./search";
+import { ContextEntry } from "./types";
+
+export interface LogResult {
+  /** The branch the entries are from, or null with `all` */
+  branch: string | null;
+  /** Newest first */
+  entries: ContextEntry[];
+}
+
+/**
+ * The entries `log` shows: the current branch's (or every branch's) latest
+ * `count`, or with filters, the latest `count` that match.
+ */
+export async function queryLog(options: Pick<LogOptions, "all" | "count" | "filters">): Promise<LogResult> {
+  const store = await getContextStore();
+  const { all, count, filters } = options;
+  const filtered = hasFilters(filters);
+  const branch = all ? null : await getCurrentBranch();
+
+  // With filters everything is read, so `count` counts matching entries
+  const loaded = branch
+    ? (await store.loadBranch(branch, { limit: filtered ? undefined : count })).reverse()
+    : await store.loadAll({ limit: filtered ? undefined : count });
+  return { branch, entries: loaded.filter((e) => matchesFilters(e, filters)).slice(0, count) };
+}
+
+/**
+ * Search every branch's context history (and archived branches with
+ * `archived`), keeping the search index up to date.
+ */
+export async function searchHistory(query: string, options: SearchOptions): Promise<SearchResult[]> {
+  const store = await getContextStore();
+  const entries = [...(await store.loadAll()), ...(options.archived ? await store.loadArchived() : [])];
+  const index = loadSearchIndex(await getValyrianCtxDir(), entries);
+  return searchEntries(entries, query, { filters: options.filters, limit: options.limit, index });
+}
@@ -0,0 +1,72 @@
+import { loadBranchContext } from "./inheritance";
+import { createMemoryContextStore } from "./memory-store";
+import { generatePrompt } from "./prompt";
+import { getBranchCreatedFrom, getClosestBranch } from "./git";
+import { makeEntry } from "./test-fixtures";
+
+jest.mock("./git", () => ({
+    getBranchCreatedFrom: jest.fn(),
+    getClosestBranch: jest.fn(),
+}));
+
+const createdFrom = getBranchCreatedFrom as jest.MockedFunction<typeof getBranchCreatedFrom>;
+const closest = getClosestBranch as jest.MockedFunction<typeof getClosestBranch>;
+
+describe("Context Inheritance", () => {
+    const store = createMemoryContextStore([
+        makeEntry("m1"),
+        makeEntry("b1", { branch: "feature/base", approaches: ["Tried polling"], decisions: ["Use websockets"] }),
+    ]);
+
+    beforeEach(() => {
+        createdFrom.mockReset().mockResolvedValue(null);
+        closest.mockReset().mockResolvedValue(null);
+    });
+
+    it("should inherit from the branch the reflog says it was created from", async () => {
+        createdFrom.mockResolvedValue("feature/base");
+
+        const context = await loadBranchContext(store, "feature/x");
+
+        expect(context.entries).toEqual([]);
+        expect(context.inherited?.branch).toBe("feature/base");
+        expect(closest).not.toHaveBeenCalled();
+    });
+
+    it("should follow the reflog past parents without context", async () => {
+        createdFrom.mockImplementation(async (branch) =>
+            branch === "feature/x" ? "feature/empty" : branch === "feature/empty" ? "feature/base" : null
+        );
+
+        expect((await loadBranchContext(store, "feature/x")).inherited?.branch).toBe("feature/base");
+    });
+
+    it("should fall back to the closest merge-base", async () => {
+        closest.mockResolvedValue("main");
+
+        expect((await loadBranchContext(store, "feature/x")).inherited?.branch).toBe("main");
+        expect(closest).toHaveBeenCalledWith("feature/x", ["feature/base", "main"]);
+    });
+
+    it("should not inherit once the branch has its own saves", async () => {
+        createdFrom.mockResolvedValue("main");
+
+        const context = await loadBranchContext(store, "feature/base");
+
+        expect(context.inherited).toBeUndefined();
+        expect(context.entries.map((e) => e.id)).toEqual(["b1"]);
+    });
+
+    it("should mark inherited decisions and approaches in the prompt", async () => {
+        createdFrom.mockResolvedValue("feature/base");
+        const { entries, inherited } = await loadBranchContext(store, "feature/x");
+
+        const prompt = generatePrompt(entries, { branch: "feature/x", inherited });
+
+        expect(prompt).toContain("**Branch:** feature/x");
+        expect(prompt).toContain("### Inherited from feature/base");
+        expect(prompt).toContain("### What's Been Tried (inherited)\n- Tried polling");
+        expect(prompt).toContain("### Key Decisions (inherited)\n- Use websockets");
+        expect(generatePrompt(entries)).toBe("No context found for this branch.");
+    });
+});
@@ -0,0 +1,64 @@
+import { ContextEntry, InheritedContext } from "./types";
+import { ContextStore } from "./store";
+import { getBranchCreatedFrom, getClosestBranch } from "./git";
+
+/**
+ * Context inheritance for new branches.
+ *
+ * A branch created with `git checkout -b feature/x` from `feature/base` has no
+ * entries of its own, but the decisions and approaches saved on `feature/base`
+ * still apply. Until the first save on the new branch, resume shows the
+ * parent's context instead of nothing (see generatePrompt()).
+ *
+ * The parent is found from the reflogs first, falling back to the branch with
+ * context whose merge-base is closest. Nothing is copied: once the branch has
+ * its own saves, the inherited context simply stops being shown.
+ */
+
+export interface BranchContext {
+  branch: string;
+  /** The branch's own entries, oldest first */
+  entries: ContextEntry[];
+  /** Set only while the branch has no entries and a parent with context exists */
+  inherited?: InheritedContext;
+}
+
+/** Stop following "created from" chains after this many hops */
+const MAX_ANCESTRY_DEPTH = 5;
+
+/**
+ * The nearest ancestor branch of `branch` that has context, or null.
+ * Follows the reflog chain (feature/x → feature/base → main) past branches
+ * that have no saves of their own.
+ */
+export async function findParentBranch(store: ContextStore, branch: string): Promise<string | null> {
+  const withContext = (await store.listBranches()).filter((b) => b !== branch);
+  if (withContext.length === 0) return null;
+
+  const seen = new Set([branch]);
+  let current = branch;
+  for (let depth = 0; depth < MAX_ANCESTRY_DEPTH; depth++) {
+    const parent = await getBranchCreatedFrom(current).catch(() => null);
+    if (!parent || seen.has(parent)) break;
+    if (withContext.includes(parent)) return parent;
+    seen.add(parent);
+    current = parent;
+  }
+
+  return getClosestBranch(branch, withContext).catch(() => null);
+}
+
+/**
+ * Load a branch's entries, plus its parent's when it has none yet.
+ */
+export async function loadBranchContext(store: ContextStore, branch: string): Promise<BranchContext> {
+  const entries = await store.loadBranch(branch);
+  if (entries.length > 0) return { branch, entries };
+
+  const parent = await findParentBranch(store, branch);
+  if (!parent) return { branch, entries };
+
+  const parentEntries = await store.loadBranch(parent);
+  if (parentEntries.length === 0) return { branch, entries };
+  return { branch, entries, inherited: { branch: parent, entries: parentEntries } };
+}
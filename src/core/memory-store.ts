@@ -0,0 +1,87 @@
+import { ContextEntry } from "./types";
+import { ContextStore, LoadOptions, UpdateOptions } from "./store";
+
+/**
+ * A ContextStore that keeps entries in memory. Used by tests (install it with
+ * setContextStore()) and by anything that wants context without touching disk.
+ */
+export function createMemoryContextStore(initial: ContextEntry[] = []): ContextStore {
+  let entries: ContextEntry[] = [...initial];
+  let archived: ContextEntry[] = [];
+  /** Entries dropped from their branch without pruning: still in loadAll, like session files */
+  let history: ContextEntry[] = [];
+
+  const byTime = (a: ContextEntry, b: ContextEntry) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+  const branchEntries = (branch: string) => entries.filter((e) => e.branch === branch).sort(byTime);
+
+  const updateBranch = async (
+    branch: string,
+    update: (current: ContextEntry[]) => ContextEntry[],
+    options: UpdateOptions = {}
+  ): Promise<ContextEntry[]> => {
+    const current = branchEntries(branch);
+    const next = update(current);
+    const kept = new Set(next.map((e) => e.id));
+    entries = [...entries.filter((e) => e.branch !== branch), ...next];
+    history = history.filter((e) => !kept.has(e.id));
+    if (!options.prune) history.push(...current.filter((e) => !kept.has(e.id)));
+    return next;
+  };
+
+  return {
+    async save(entry) {
+      entries.push(entry);
+      return `memory:${entry.id}`;
+    },
+
+    async loadBranch(branch, options: LoadOptions = {}) {
+      const all = branchEntries(branch);
+      return options.limit !== undefined ? all.slice(-options.limit) : all;
+    },
+
+    async loadAll(options: LoadOptions = {}) {
+      const all = [...entries, ...history].sort(byTime).reverse();
+      return options.limit !== undefined ? all.slice(0, options.limit) : all;
+    },
+
+    async listBranches() {
+      return Array.from(new Set(entries.map((e) => e.branch))).sort();
+    },
+
+    updateBranch,
+
+    async replaceBranch(branch, next) {
+      await updateBranch(branch, () => next);
+    },
+
+    async delete(id) {
+      const before = entries.length + history.length;
+      entries = entries.filter((e) => e.id !== id);
+      history = history.filter((e) => e.id !== id);
+      return entries.length + history.length < before;
+    },
+
+    async renameBranch(from, to) {
+      const moved = branchEntries(from).map((e) => ({ ...e, branch: to }));
+      const movedIds = new Set(moved.map((e) => e.id));
+      entries = [
+        ...entries.filter((e) => e.branch !== from && !(e.branch === to && movedIds.has(e.id))),
+        ...moved,
+      ];
+      return moved.length;
+    },
+
+    async archiveBranch(branch) {
+      const moved = branchEntries(branch);
+      entries = entries.filter((e) => e.branch !== branch);
+      archived = [...archived, ...moved];
+      return moved;
+    },
+
+    async loadArchived(branch) {
+      return archived.filter((e) => branch === undefined || e.branch === branch).sort(byTime);
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { mergeContextFile, parseContextFile } from "./merge-driver";
+import { ContextEntry } from "./types";
+import { atMinute, makeEntry } from "./test-fixtures";
+
+const jsonl = (...entries: ContextEntry[]) => entries.map((e) => JSON.stringify(e) + "\n").join("");
+const ids = (content: string) => parseContextFile(content).map((e) => e.id);
+
+describe("Merge Driver", () => {
+    it("should keep saves from both sides of a branch log, in timestamp order", () => {
+        const base = jsonl(makeEntry("a", { timestamp: atMinute(1) }));
+        const ours = jsonl(makeEntry("a", { timestamp: atMinute(1) }), makeEntry("ours", { timestamp: atMinute(3) }));
+        const theirs = jsonl(makeEntry("a", { timestamp: atMinute(1) }), makeEntry("theirs", { timestamp: atMinute(2) }));
+
+        const merged = mergeContextFile(base, ours, theirs, "branches/main.jsonl");
+
+        expect(ids(merged)).toEqual(["a", "theirs", "ours"]);
+        expect(merged.endsWith("\n")).toBe(true);
+        merged.trim().split("\n").forEach((line) => expect(() => JSON.parse(line)).not.toThrow());
+    });
+
+    it("should not resurrect entries removed on one side", () => {
+        const base = jsonl(makeEntry("a", { timestamp: atMinute(1) }), makeEntry("b", { timestamp: atMinute(2) }));
+        const ours = jsonl(makeEntry("summary", { timestamp: atMinute(1) }), makeEntry("b", { timestamp: atMinute(2) })); // compressed "a"
+        const theirs = jsonl(makeEntry("a", { timestamp: atMinute(1) }), makeEntry("b", { timestamp: atMinute(2) }), makeEntry("c", { timestamp: atMinute(3) }));
+
+        expect(ids(mergeContextFile(base, ours, theirs, "branches/main.jsonl"))).toEqual(["summary", "b", "c"]);
+    });
+
+    it("should skip conflict markers and torn lines instead of emitting them", () => {
+        const ours = `${jsonl(makeEntry("a", { timestamp: atMinute(1) }))}<<<<<<< HEAD\n{"id": "torn`;
+        const theirs = jsonl(makeEntry("b", { timestamp: atMinute(2) }));
+
+        const merged = mergeContextFile("", ours, theirs, "branches/main.jsonl");
+
+        expect(ids(merged)).toEqual(["a", "b"]);
+        expect(merged).not.toContain("<<<<<<<");
+    });
+
+    it("should merge legacy JSON array branch files as a JSON array", () => {
+        const ours = JSON.stringify([makeEntry("a", { timestamp: atMinute(1) })]);
+        const theirs = JSON.stringify([makeEntry("b", { timestamp: atMinute(2) })]);
+
+        const merged = mergeContextFile("[]", ours, theirs, "branches/main.json");
+
+        expect(JSON.parse(merged).map((e: ContextEntry) => e.id)).toEqual(["a", "b"]);
+    });
+
+    it("should keep the newest copy of a session file edited on both sides", () => {
+        const ours = JSON.stringify(makeEntry("a", { timestamp: atMinute(1), task: "ours" }));
+        const theirs = JSON.stringify(makeEntry("a", { timestamp: atMinute(5), task: "theirs" }));
+
+        const merged = JSON.parse(mergeContextFile(ours, ours, theirs, "sessions/x_a.json"));
+
+        expect(merged.task).toBe("theirs");
+    });
+});
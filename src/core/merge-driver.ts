@@ -0,0 +1,129 @@
+import fs from "fs";
+import path from "path";
+import { ContextEntry } from "./types";
+import { mergeContexts } from "./context";
+import { setLocalConfig } from "./git";
+
+/**
+ * Git merge driver for shared `.valyrianctx/` files.
+ *
+ * Git's line merge treats two saves on the same branch as conflicting edits
+ * of the same spot and leaves conflict markers, which no JSON parser accepts.
+ * This driver merges the entries instead:
+ *
+ * - both sides' entries are combined with mergeContexts() (dedupe by ID,
+ *   newest copy wins, sorted by timestamp);
+ * - entries present in the common ancestor but removed on either side
+ *   (compressed or dropped) stay removed.
+ *
+ * The output is always valid: lines that don't parse are skipped.
+ */
+
+export const MERGE_DRIVER_NAME = "valyrianctx";
+
+const ATTRIBUTES_HEADER = "# ValyrianCtx merge driver (managed by valyrianctx)";
+
+const ATTRIBUTES = [
+  `branches/*.jsonl merge=${MERGE_DRIVER_NAME}`,
+  `branches/*.json merge=${MERGE_DRIVER_NAME}`,
+  `sessions/*.json merge=${MERGE_DRIVER_NAME}`,
+  `archive/*.jsonl merge=${MERGE_DRIVER_NAME}`,
+];
+
+type FileFormat = "jsonl" | "array" | "single";
+
+function detectFormat(filePath: string, content: string): FileFormat {
+  if (filePath.endsWith(".jsonl")) return "jsonl";
+  return content.trimStart().startsWith("[") ? "array" : "single";
+}
+
+/**
+ * Parse whatever context entries can be recovered from a file's content,
+ * whether it is JSONL, a JSON array, a single entry, or partly garbage.
+ */
+export function parseContextFile(content: string): ContextEntry[] {
+  const trimmed = content.trim();
+  if (!trimmed) return [];
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    return (Array.isArray(parsed) ? parsed : [parsed]).filter(isEntry);
+  } catch {
+    // Not a single JSON document: fall back to one entry per line
+  }
+
+  const entries: ContextEntry[] = [];
+  for (const line of trimmed.split("\n")) {
+    try {
+      const parsed = JSON.parse(line);
+      if (isEntry(parsed)) entries.push(parsed);
+    } catch {
+      // Conflict markers, torn writes, etc.
+    }
+  }
+  return entries;
+}
+
+function isEntry(value: any): value is ContextEntry {
+  return !!value && typeof value === "object" && typeof value.id === "string";
+}
+
+/**
+ * Three-way merge of a context file. Returns the merged file content.
+ */
+export function mergeContextFile(
+  base: string,
+  ours: string,
+  theirs: string,
+  filePath: string = ""
+): string {
+  const baseIds = new Set(parseContextFile(base).map((e) => e.id));
+  const oursEntries = parseContextFile(ours);
+  const theirsEntries = parseContextFile(theirs);
+  const oursIds = new Set(oursEntries.map((e) => e.id));
+  const theirsIds = new Set(theirsEntries.map((e) => e.id));
+
+  const removed = (id: string) => baseIds.has(id) && (!oursIds.has(id) || !theirsIds.has(id));
+  const merged = mergeContexts(oursEntries, theirsEntries).filter((e) => !removed(e.id));
+
+  switch (detectFormat(filePath, ours.trim() ? ours : theirs)) {
+    case "jsonl":
+      return merged.map((e) => JSON.stringify(e) + "\n").join("");
+    case "array":
+      return JSON.stringify(merged, null, 2);
+    case "single": {
+      // A session file holds one entry and can't be emptied: keep the newest copy
+      const candidates = mergeContexts(oursEntries, theirsEntries);
+      return candidates.length > 0 ? JSON.stringify(candidates[candidates.length - 1], null, 2) : ours;
+    }
+  }
+}
+
+/**
+ * Register the merge driver for a repo: `.valyrianctx/.gitattributes` (shared,
+ * so every clone routes these files to the driver) and the driver command in
+ * the local git config (per clone; git never reads drivers from the repo).
+ * Returns true if anything changed.
+ */
+export async function ensureMergeDriver(dir: string): Promise<boolean> {
+  const attributesPath = path.join(dir, ".gitattributes");
+  const existing = fs.existsSync(attributesPath) ? fs.readFileSync(attributesPath, "utf-8") : "";
+  const lines = new Set(existing.split("\n").map((l) => l.trim()));
+  const missing = ATTRIBUTES.filter((a) => !lines.has(a));
+
+  if (missing.length > 0) {
+    let content = existing;
+    if (content && !content.endsWith("\n")) content += "\n";
+    if (!lines.has(ATTRIBUTES_HEADER)) content += ATTRIBUTES_HEADER + "\n";
+    content += missing.join("\n") + "\n";
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(attributesPath, content);
+  }
+
+  const configChanged = await setLocalConfig({
+    [`merge.${MERGE_DRIVER_NAME}.name`]: "ValyrianCtx context merge",
+    [`merge.${MERGE_DRIVER_NAME}.driver`]: "valyrianctx merge-driver %O %A %B %P",
+  });
+
+  return missing.length > 0 || configChanged;
+}
@@ -0,0 +1,140 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import {
+    upgradeEntry,
+    migrateStore,
+    assertSupportedStore,
+    getStoreSchemaVersion,
+    SchemaVersionError,
+    CURRENT_SCHEMA_VERSION,
+} from "./migrations";
+import { readBranchLog } from "./branch-log";
+import { readAllSessions } from "./session-store";
+import { ContextEntry } from "./types";
+
+const TEST_DIR = path.join(os.tmpdir(), `valyrianctx-migrations-${Date.now()}`);
+
+function legacyEntry(id: string, minute: number): any {
+    // Shape written by pre-versioning releases: no schemaVersion, optional arrays may be missing
+    return {
+        id,
+        timestamp: new Date(Date.UTC(2025, 0, 15, 10, minute)).toISOString(),
+        branch: "main",
+        repo: "repo",
+        author: "dev",
+        task: `Task ${id}`,
+        currentState: "",
+        filesChanged: [],
+        filesStaged: [],
+        recentCommits: [],
+    };
+}
+
+function writeLegacyStore(): void {
+    fs.mkdirSync(path.join(TEST_DIR, "sessions"), { recursive: true });
+    fs.mkdirSync(path.join(TEST_DIR, "branches"), { recursive: true });
+    fs.writeFileSync(
+        path.join(TEST_DIR, "config.json"),
+        JSON.stringify({ version: "0.1.0", createdAt: "2025-01-01T00:00:00.000Z", repo: "repo" })
+    );
+    fs.writeFileSync(
+        path.join(TEST_DIR, "branches", "main.json"),
+        JSON.stringify([legacyEntry("a", 30), legacyEntry("b", 30)])
+    );
+    fs.writeFileSync(
+        path.join(TEST_DIR, "sessions", "2025-01-15T10-30.json"),
+        JSON.stringify(legacyEntry("b", 30))
+    );
+}
+
+beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("Schema Migrations", () => {
+    describe("upgradeEntry", () => {
+        it("should normalize and stamp entries written before versioning", () => {
+            const upgraded = upgradeEntry(legacyEntry("a", 1));
+
+            expect(upgraded.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+            expect(upgraded.approaches).toEqual([]);
+            expect(upgraded.decisions).toEqual([]);
+            expect(upgraded.nextSteps).toEqual([]);
+        });
+
+        it("should refuse entries from a newer schema", () => {
+            const future = { ...legacyEntry("a", 1), schemaVersion: CURRENT_SCHEMA_VERSION + 1 } as ContextEntry;
+            expect(() => upgradeEntry(future)).toThrow(SchemaVersionError);
+        });
+    });
+
+    describe("migrateStore", () => {
+        it("should report pending changes without writing on dry run", () => {
+            writeLegacyStore();
+
+            const report = migrateStore(TEST_DIR, { dryRun: true });
+
+            expect(report.from).toBe(1);
+            expect(report.steps.length).toBeGreaterThan(0);
+            expect(report.steps[0].changes.join("\n")).toContain("main.json");
+            expect(fs.existsSync(path.join(TEST_DIR, "branches", "main.json"))).toBe(true);
+            expect(getStoreSchemaVersion(TEST_DIR)).toBe(1);
+        });
+
+        it("should upgrade layout and entries and record the schema version", () => {
+            writeLegacyStore();
+
+            migrateStore(TEST_DIR);
+
+            expect(getStoreSchemaVersion(TEST_DIR)).toBe(CURRENT_SCHEMA_VERSION);
+            expect(fs.existsSync(path.join(TEST_DIR, "branches", "main.json"))).toBe(false);
+
+            const branch = readBranchLog(path.join(TEST_DIR, "branches"), "main");
+            expect(branch.map((e) => e.schemaVersion)).toEqual([CURRENT_SCHEMA_VERSION, CURRENT_SCHEMA_VERSION]);
+
+            // The session overwritten under the minute-precision layout is recovered
+            const sessions = readAllSessions(path.join(TEST_DIR, "sessions"));
+            expect(sessions.map((e) => e.id).sort()).toEqual(["a", "b"]);
+        });
+
+        it("should move personal preferences out of the shared config.json", () => {
+            writeLegacyStore();
+            const configPath = path.join(TEST_DIR, "config.json");
+            const legacyConfig = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+            fs.writeFileSync(configPath, JSON.stringify({ ...legacyConfig, aiApiKey: "sk-secret", watchInterval: 10 }));
+
+            migrateStore(TEST_DIR);
+
+            const shared = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+            const local = JSON.parse(fs.readFileSync(path.join(TEST_DIR, "config.local.json"), "utf-8"));
+            expect(shared.aiApiKey).toBeUndefined();
+            expect(shared.repo).toBe("repo");
+            expect(local).toEqual({ aiApiKey: "sk-secret", watchInterval: 10 });
+            expect(fs.readFileSync(path.join(TEST_DIR, ".gitignore"), "utf-8")).toContain("config.local.json");
+        });
+
+        it("should be a no-op on an up-to-date store", () => {
+            writeLegacyStore();
+            migrateStore(TEST_DIR);
+
+            expect(migrateStore(TEST_DIR).steps).toEqual([]);
+        });
+    });
+
+    describe("assertSupportedStore", () => {
+        it("should refuse a store written by a newer valyrianctx", () => {
+            fs.writeFileSync(
+                path.join(TEST_DIR, "config.json"),
+                JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })
+            );
+
+            expect(() => assertSupportedStore(TEST_DIR)).toThrow(/upgrade with `npm install -g valyrianctx@latest`/);
+        });
+    });
+});
@@ -0,0 +1,251 @@
+import fs from "fs";
+import path from "path";
+import { ContextEntry } from "./types";
+import {
+  branchFileName,
+  hasLegacyBranchFile,
+  listBranchLogs,
+  migrateLegacyBranchFile,
+  readBranchLog,
+  writeBranchLog,
+} from "./branch-log";
+import { listLegacySessions, migrateLegacySessions, readSessionIndex } from "./session-store";
+import { ensureStoreGitignore } from "./store-gitignore";
+import { PRIVATE_FILE_MODE, writeFileAtomic } from "../utils/fs-safe";
+
+/**
+ * Schema versioning for ContextEntry and the .valyrianctx store.
+ *
+ * The store records its schema version in `config.json` (`schemaVersion`),
+ * and every entry records the version it was written with. Stores and entries
+ * without a version predate versioning and are treated as version 1.
+ *
+ * To change the schema: append a step to MIGRATIONS. `upgradeEntry` runs on
+ * every load for entries older than the step, so commands always see current
+ * entries; `upgradeStore` rewrites the files on disk and only runs from
+ * `valyrianctx migrate`.
+ */
+
+export interface Migration {
+  /** Schema version this step upgrades to */
+  to: number;
+  description: string;
+  /** Upgrade one entry in memory (must be idempotent) */
+  upgradeEntry: (entry: Record<string, any>) => Record<string, any>;
+  /** Upgrade the on-disk layout. Returns a description of each change made (or planned, with dryRun). */
+  upgradeStore?: (dir: string, options: { dryRun: boolean }) => string[];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    to: 2,
+    description: "Append-only branch logs, ID-keyed session files, normalized entry fields",
+    upgradeEntry: (entry) => ({
+      ...entry,
+      approaches: entry.approaches ?? [],
+      decisions: entry.decisions ?? [],
+      nextSteps: entry.nextSteps ?? [],
+      currentState: entry.currentState ?? "",
+      filesChanged: entry.filesChanged ?? [],
+      filesStaged: entry.filesStaged ?? [],
+      recentCommits: entry.recentCommits ?? [],
+    }),
+    upgradeStore: (dir, { dryRun }) => {
+      const branchesDir = path.join(dir, "branches");
+      const sessionsDir = path.join(dir, "sessions");
+      const changes: string[] = [];
+
+      for (const branch of listBranchLogs(branchesDir)) {
+        if (!hasLegacyBranchFile(branchesDir, branch)) continue;
+        changes.push(`branches/${branchFileName(branch)}.json → JSONL log`);
+        if (!dryRun) migrateLegacyBranchFile(branchesDir, branch);
+      }
+
+      const legacySessions = listLegacySessions(sessionsDir);
+      if (legacySessions.length > 0) {
+        if (dryRun) {
+          changes.push(
+            `sessions/: rename ${legacySessions.length} minute-precision file(s), recover overwritten sessions from branch history`
+          );
+        } else {
+          const branchEntries = listBranchLogs(branchesDir).flatMap((b) => readBranchLog(branchesDir, b));
+          const { renamed, recovered } = migrateLegacySessions(sessionsDir, branchEntries);
+          changes.push(`sessions/: renamed ${renamed} file(s), recovered ${recovered} overwritten session(s)`);
+        }
+      }
+
+      return changes;
+    },
+  },
+  {
+    to: 3,
+    description: "Move personal preferences out of the shared config.json into config.local.json",
+    upgradeEntry: (entry) => entry,
+    upgradeStore: (dir, { dryRun }) => {
+      const changes: string[] = [];
+      const configPath = path.join(dir, "config.json");
+      const localPath = path.join(dir, "config.local.json");
+
+      if (fs.existsSync(configPath)) {
+        const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+        const metadataKeys = ["version", "createdAt", "repo", "schemaVersion", "settings"];
+        const personalKeys = Object.keys(config).filter((k) => !metadataKeys.includes(k));
+
+        if (personalKeys.length > 0) {
+          changes.push(`config.json → config.local.json: ${personalKeys.join(", ")}`);
+          if (!dryRun) {
+            const local = fs.existsSync(localPath)
+              ? JSON.parse(fs.readFileSync(localPath, "utf-8"))
+              : {};
+            const metadata: Record<string, any> = {};
+            for (const key of personalKeys) {
+              // Existing local values win — they were already overriding these
+              if (local[key] === undefined) local[key] = config[key];
+            }
+            for (const key of metadataKeys) {
+              if (config[key] !== undefined) metadata[key] = config[key];
+            }
+            writeFileAtomic(localPath, JSON.stringify(local, null, 2), PRIVATE_FILE_MODE);
+            writeFileAtomic(configPath, JSON.stringify(metadata, null, 2));
+          }
+        }
+      }
+
+      const gitignorePath = path.join(dir, ".gitignore");
+      const before = fs.existsSync(gitignorePath) ? fs.readFileSync(gitignorePath, "utf-8") : "";
+      if (dryRun) {
+        if (!before.includes("config.local.json")) changes.push("create .valyrianctx/.gitignore for local-only files");
+      } else if (ensureStoreGitignore(dir)) {
+        changes.push("updated .valyrianctx/.gitignore for local-only files");
+      }
+
+      return changes;
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+export class SchemaVersionError extends Error {
+  constructor(found: number, where: string) {
+    super(
+      `${where} uses context schema v${found}, but this valyrianctx only supports up to v${CURRENT_SCHEMA_VERSION}. ` +
+        `A teammate is probably on a newer release — upgrade with \`npm install -g valyrianctx@latest\`.`
+    );
+    this.name = "SchemaVersionError";
+  }
+}
+
+/**
+ * Bring an entry up to the current schema. Throws SchemaVersionError for
+ * entries written by a newer valyrianctx rather than guessing at them.
+ */
+export function upgradeEntry(entry: ContextEntry): ContextEntry {
+  const from = entry.schemaVersion ?? 1;
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(from, `Context entry ${entry.id}`);
+  }
+  if (from === CURRENT_SCHEMA_VERSION) return entry;
+
+  let upgraded: Record<string, any> = entry;
+  for (const step of MIGRATIONS) {
+    if (step.to > from) upgraded = step.upgradeEntry(upgraded);
+  }
+  return { ...upgraded, schemaVersion: CURRENT_SCHEMA_VERSION } as ContextEntry;
+}
+
+/**
+ * Read the store's schema version from `config.json` (1 if unversioned).
+ */
+export function getStoreSchemaVersion(dir: string): number {
+  const configPath = path.join(dir, "config.json");
+  if (!fs.existsSync(configPath)) return 1;
+  try {
+    const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    return typeof config.schemaVersion === "number" ? config.schemaVersion : 1;
+  } catch {
+    return 1;
+  }
+}
+
+/**
+ * Refuse to touch a store written by a newer valyrianctx.
+ */
+export function assertSupportedStore(dir: string): void {
+  const version = getStoreSchemaVersion(dir);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(version, "This .valyrianctx/ store");
+  }
+}
+
+export interface MigrationReport {
+  from: number;
+  to: number;
+  steps: { to: number; description: string; changes: string[] }[];
+}
+
+/**
+ * Run every pending store migration, rewrite entries at the current schema
+ * and record the new version in `config.json`. Callers must hold the store lock.
+ */
+export function migrateStore(dir: string, options: { dryRun?: boolean } = {}): MigrationReport {
+  const dryRun = options.dryRun ?? false;
+  assertSupportedStore(dir);
+
+  const from = getStoreSchemaVersion(dir);
+  const report: MigrationReport = { from, to: CURRENT_SCHEMA_VERSION, steps: [] };
+
+  for (const step of MIGRATIONS) {
+    if (step.to <= from) continue;
+    const changes = step.upgradeStore ? step.upgradeStore(dir, { dryRun }) : [];
+    report.steps.push({ to: step.to, description: step.description, changes });
+  }
+
+  const rewritten = rewriteEntries(dir, dryRun);
+  if (rewritten > 0 && report.steps.length > 0) {
+    report.steps[report.steps.length - 1].changes.push(
+      `${dryRun ? "upgrade" : "upgraded"} ${rewritten} entr${rewritten === 1 ? "y" : "ies"} to schema v${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  if (!dryRun && from < CURRENT_SCHEMA_VERSION) {
+    const configPath = path.join(dir, "config.json");
+    const config = fs.existsSync(configPath)
+      ? JSON.parse(fs.readFileSync(configPath, "utf-8"))
+      : {};
+    writeFileAtomic(
+      configPath,
+      JSON.stringify({ ...config, schemaVersion: CURRENT_SCHEMA_VERSION }, null, 2)
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Rewrite branch logs and session files whose entries are below the current
+ * schema. Returns the number of outdated entries found.
+ */
+function rewriteEntries(dir: string, dryRun: boolean): number {
+  const branchesDir = path.join(dir, "branches");
+  const sessionsDir = path.join(dir, "sessions");
+  const isOutdated = (e: ContextEntry) => (e.schemaVersion ?? 1) < CURRENT_SCHEMA_VERSION;
+  let outdated = 0;
+
+  for (const branch of listBranchLogs(branchesDir)) {
+    const entries = readBranchLog(branchesDir, branch);
+    const count = entries.filter(isOutdated).length;
+    if (count === 0) continue;
+    outdated += count;
+    if (!dryRun) writeBranchLog(branchesDir, branch, entries.map(upgradeEntry));
+  }
+
+  for (const session of readSessionIndex(sessionsDir)) {
+    const filePath = path.join(sessionsDir, session.file);
+    const entry: ContextEntry = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    if (!isOutdated(entry)) continue;
+    if (!dryRun) writeFileAtomic(filePath, JSON.stringify(upgradeEntry(entry), null, 2));
+  }
+
+  return outdated;
+}
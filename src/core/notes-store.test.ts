@@ -0,0 +1,236 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execFileSync } from "child_process";
+import { createFileContextStore } from "./file-store";
+import { listNotes, withRepoPath } from "./git";
+import { NOTES_REF, readNotesEntries, remoteNotesRef } from "./notes-store";
+import { ContextStore } from "./store";
+import { syncCommand } from "../commands/sync";
+import { ContextEntry } from "./types";
+import { atMinute, makeEntry } from "./test-fixtures";
+
+const TEST_DIR = path.join(os.tmpdir(), `valyrianctx-notes-${Date.now()}`);
+const REMOTE = path.join(TEST_DIR, "remote.git");
+const ALICE = path.join(TEST_DIR, "alice");
+const BOB = path.join(TEST_DIR, "bob");
+
+function run(cwd: string, ...args: string[]): string {
+    return execFileSync("git", args, { cwd, encoding: "utf-8" });
+}
+
+function initClone(dir: string): void {
+    run(dir, "config", "user.name", path.basename(dir));
+    run(dir, "config", "user.email", `${path.basename(dir)}@example.com`);
+    fs.mkdirSync(path.join(dir, ".valyrianctx"), { recursive: true });
+}
+
+function commit(dir: string, message: string): string {
+    run(dir, "commit", "-q", "--allow-empty", "-m", message);
+    return run(dir, "rev-parse", "HEAD").trim();
+}
+
+const ids = (entries: ContextEntry[]) => entries.map((e) => e.id).sort();
+
+/** A file store in `dir`'s `.valyrianctx/`, run with `dir` as the repository */
+function inRepo<T>(dir: string, storage: "files" | "git-notes", fn: (store: ContextStore) => Promise<T>): Promise<T> {
+    return withRepoPath(dir, () => fn(createFileContextStore(path.join(dir, ".valyrianctx"), { storage })));
+}
+
+beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(ALICE, { recursive: true });
+    run(TEST_DIR, "init", "-q", "--bare", "-b", "main", REMOTE);
+    run(ALICE, "init", "-q", "-b", "main");
+    initClone(ALICE);
+    commit(ALICE, "Initial commit");
+    run(ALICE, "remote", "add", "origin", REMOTE);
+    run(ALICE, "push", "-q", "origin", "main");
+});
+
+afterAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("git-notes storage", () => {
+    it("should save entries to notes on HEAD and load them back", async () => {
+        const head = run(ALICE, "rev-parse", "HEAD").trim();
+
+        await inRepo(ALICE, "git-notes", async (store) => {
+            expect(await store.save(makeEntry("a1", { timestamp: atMinute(1) }))).toBe(`${NOTES_REF}@${head.slice(0, 7)}`);
+            await store.save(makeEntry("a2", { timestamp: atMinute(2) }));
+            await store.save(makeEntry("b1", { branch: "feature/x", timestamp: atMinute(3) }));
+
+            expect((await store.loadBranch("main")).map((e) => e.id)).toEqual(["a1", "a2"]);
+            expect((await store.loadAll()).map((e) => e.id)).toEqual(["b1", "a2", "a1"]);
+            expect(await store.listBranches()).toEqual(["feature/x", "main"]);
+            expect(await listNotes(NOTES_REF)).toEqual([{ object: head, blob: expect.any(String) }]);
+        });
+        expect(fs.existsSync(path.join(ALICE, ".valyrianctx", "branches", "main.jsonl"))).toBe(false);
+    });
+
+    it("should read each entry once when a note repeats it", async () => {
+        const first = run(ALICE, "rev-parse", "HEAD").trim();
+        await inRepo(ALICE, "git-notes", (store) => store.save(makeEntry("a1", { timestamp: atMinute(1) })));
+        commit(ALICE, "Second commit");
+        run(ALICE, "notes", `--ref=${NOTES_REF}`, "copy", first, "HEAD");
+
+        expect(ids(await withRepoPath(ALICE, readNotesEntries))).toEqual(["a1"]);
+    });
+
+    it("should delete an entry by leaving a tombstone in its note", async () => {
+        const first = run(ALICE, "rev-parse", "HEAD").trim();
+        await inRepo(ALICE, "git-notes", async (store) => {
+            await store.save(makeEntry("a1", { timestamp: atMinute(1) }));
+            commit(ALICE, "Second commit");
+            await store.save(makeEntry("a2", { timestamp: atMinute(2) }));
+
+            expect(await store.delete("a1")).toBe(true);
+            expect(await store.delete("a1")).toBe(false);
+            expect((await store.loadBranch("main")).map((e) => e.id)).toEqual(["a2"]);
+        });
+        const note = run(ALICE, "notes", `--ref=${NOTES_REF}`, "show", first);
+        expect(note.trim().split("\n").map((line) => JSON.parse(line))).toEqual([{ deleted: "a1", at: expect.any(String) }]);
+    });
+
+    it("should keep the newest copy of an edited entry", async () => {
+        await inRepo(ALICE, "git-notes", async (store) => {
+            await store.save(makeEntry("a1", { timestamp: atMinute(1) }));
+            await store.updateBranch("main", (current) => current.map((e) => ({ ...e, task: "Edited" })));
+
+            const [edited] = await store.loadBranch("main");
+            expect(edited.task).toBe("Edited");
+            expect(edited.updatedAt).toEqual(expect.any(String));
+        });
+        // A merge can leave the old copy next to the edited one
+        const head = run(ALICE, "rev-parse", "HEAD").trim();
+        const original = makeEntry("a1", { timestamp: atMinute(1) });
+        run(ALICE, "notes", `--ref=${NOTES_REF}`, "append", "-m", JSON.stringify(original), head);
+
+        expect((await withRepoPath(ALICE, readNotesEntries)).map((e) => e.task)).toEqual(["Edited"]);
+    });
+
+    it("should rename a branch in place, keeping each entry on its commit", async () => {
+        const first = run(ALICE, "rev-parse", "HEAD").trim();
+        await inRepo(ALICE, "git-notes", async (store) => {
+            await store.save(makeEntry("x1", { branch: "feature/x", timestamp: atMinute(1) }));
+            await store.save(makeEntry("a1", { timestamp: atMinute(2) }));
+            const second = commit(ALICE, "Second commit");
+            await store.save(makeEntry("x2", { branch: "feature/x", timestamp: atMinute(3) }));
+
+            expect(await store.renameBranch("feature/x", "feature/y")).toBe(2);
+            expect((await store.loadBranch("feature/y")).map((e) => e.id)).toEqual(["x1", "x2"]);
+            expect(await store.loadBranch("feature/x")).toEqual([]);
+            expect((await store.loadBranch("main")).map((e) => e.id)).toEqual(["a1"]);
+            expect((await listNotes(NOTES_REF)).map((n) => n.object).sort()).toEqual([first, second].sort());
+        });
+    });
+
+    it("should archive a branch out of notes", async () => {
+        await inRepo(ALICE, "git-notes", async (store) => {
+            await store.save(makeEntry("x1", { branch: "feature/x", timestamp: atMinute(1) }));
+            await store.save(makeEntry("a1", { timestamp: atMinute(2) }));
+
+            expect((await store.archiveBranch("feature/x")).map((e) => e.id)).toEqual(["x1"]);
+            expect(await store.listBranches()).toEqual(["main"]);
+            expect((await store.loadArchived("feature/x")).map((e) => e.id)).toEqual(["x1"]);
+            expect(ids(await readNotesEntries())).toEqual(["a1"]);
+        });
+    });
+
+    it("should keep entries in the backend they were saved to when a branch is updated", async () => {
+        await inRepo(ALICE, "files", (store) => store.save(makeEntry("f1", { timestamp: atMinute(1) })));
+        await inRepo(ALICE, "git-notes", async (store) => {
+            await store.save(makeEntry("n1", { timestamp: atMinute(2) }));
+
+            await store.updateBranch("main", (current) => [
+                ...current.map((e) => ({ ...e, task: `Edited ${e.id}` })),
+                makeEntry("n2", { timestamp: atMinute(3) }),
+            ]);
+
+            expect((await store.loadBranch("main")).map((e) => e.task)).toEqual(["Edited f1", "Edited n1", "Task n2"]);
+            expect(ids(await readNotesEntries())).toEqual(["n1", "n2"]);
+        });
+
+        const log = fs.readFileSync(path.join(ALICE, ".valyrianctx", "branches", "main.jsonl"), "utf-8");
+        expect(log.trim().split("\n").map((line) => JSON.parse(line).task)).toEqual(["Edited f1"]);
+    });
+});
+
+describe("sync", () => {
+    beforeEach(() => {
+        run(TEST_DIR, "clone", "-q", REMOTE, BOB);
+        initClone(BOB);
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        process.exitCode = undefined;
+    });
+
+    it("should merge notes that diverged on both sides and push the result", async () => {
+        await inRepo(ALICE, "git-notes", (store) => store.save(makeEntry("a1", { timestamp: atMinute(1) })));
+        await withRepoPath(ALICE, () => syncCommand("push"));
+        await withRepoPath(BOB, () => syncCommand("pull"));
+        expect(ids(await withRepoPath(BOB, readNotesEntries))).toEqual(["a1"]);
+
+        // Both sides add to the note on the same commit
+        await inRepo(ALICE, "git-notes", (store) => store.save(makeEntry("a2", { timestamp: atMinute(2) })));
+        await inRepo(BOB, "git-notes", (store) => store.save(makeEntry("b1", { timestamp: atMinute(3) })));
+        await withRepoPath(BOB, () => syncCommand("push"));
+
+        await withRepoPath(ALICE, () => syncCommand("push"));
+        expect(process.exitCode).toBe(1);
+        process.exitCode = undefined;
+
+        await withRepoPath(ALICE, () => syncCommand("pull"));
+        expect(ids(await withRepoPath(ALICE, readNotesEntries))).toEqual(["a1", "a2", "b1"]);
+        expect(run(ALICE, "rev-parse", "--verify", "-q", remoteNotesRef("origin")).trim()).not.toBe("");
+
+        await withRepoPath(ALICE, () => syncCommand("push"));
+        await withRepoPath(BOB, () => syncCommand("pull"));
+        expect(process.exitCode).toBeUndefined();
+        await inRepo(BOB, "git-notes", async (store) => {
+            expect((await store.loadBranch("main")).map((e) => e.id)).toEqual(["a1", "a2", "b1"]);
+        });
+    });
+
+    it("should not bring back entries edited or removed since a teammate pulled them", async () => {
+        await inRepo(ALICE, "git-notes", async (store) => {
+            await store.save(makeEntry("a1", { timestamp: atMinute(1) }));
+            await store.save(makeEntry("a2", { timestamp: atMinute(2) }));
+            await store.save(makeEntry("x1", { branch: "feature/x", timestamp: atMinute(3) }));
+        });
+        await withRepoPath(ALICE, () => syncCommand("push"));
+        await withRepoPath(BOB, () => syncCommand("pull"));
+
+        await inRepo(ALICE, "git-notes", async (store) => {
+            await store.updateBranch("main", (current) => current.map((e) => (e.id === "a1" ? { ...e, task: "Edited" } : e)));
+            await store.delete("a2");
+            await store.archiveBranch("feature/x");
+        });
+        await inRepo(BOB, "git-notes", (store) => store.save(makeEntry("b1", { timestamp: atMinute(4) })));
+        await withRepoPath(BOB, () => syncCommand("push"));
+
+        await withRepoPath(ALICE, () => syncCommand("pull"));
+        await withRepoPath(ALICE, () => syncCommand("push"));
+        await withRepoPath(BOB, () => syncCommand("pull"));
+        expect(process.exitCode).toBeUndefined();
+
+        for (const dir of [ALICE, BOB]) {
+            await inRepo(dir, "git-notes", async (store) => {
+                expect((await store.loadBranch("main")).map((e) => e.task)).toEqual(["Edited", "Task b1"]);
+                expect(await store.listBranches()).toEqual(["main"]);
+            });
+        }
+    });
+
+    it("should report when the remote has no notes yet", async () => {
+        await withRepoPath(BOB, () => syncCommand("pull"));
+
+        expect(process.exitCode).toBeUndefined();
+        expect(await withRepoPath(BOB, readNotesEntries)).toEqual([]);
+    });
+});
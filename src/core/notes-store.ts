@@ -0,0 +1,146 @@
+import { ContextEntry } from "./types";
+import { appendNote, getHeadCommit, listNotes, readNote, readNoteBlobs, writeNote } from "./git";
+
+/**
+ * Git-notes storage: context entries live in `refs/notes/valyrianctx`,
+ * attached to the commit that was HEAD when they were saved. Each note is
+ * JSONL (one entry per line), so notes from different clones merge cleanly
+ * with git's `cat_sort_uniq` strategy and nothing is committed to the branch.
+ *
+ * That merge is a union of lines, so it can't replace or remove anything:
+ * - an entry changed here (edit, rename) is rewritten with a newer
+ *   `updatedAt`, and where a merge leaves several copies the newest one wins;
+ * - an entry removed here (drop, gc, archive) is replaced by a tombstone line,
+ *   `{"deleted":"<id>","at":"<time>"}`, which hides every copy up to then.
+ */
+export const NOTES_REF = "refs/notes/valyrianctx";
+
+interface Tombstone {
+  deleted: string;
+  at: string;
+}
+
+type NoteLine = ContextEntry | Tombstone;
+
+/** Where `valyrianctx sync pull` keeps the last fetched copy of a remote's notes */
+export function remoteNotesRef(remote: string): string {
+  return `refs/notes/remotes/${remote}/valyrianctx`;
+}
+
+/**
+ * Attach an entry to the current HEAD commit. Returns the commit it was attached to.
+ */
+export async function appendToNotes(entry: ContextEntry): Promise<string> {
+  const head = await getHeadCommit();
+  if (!head) {
+    throw new Error("Git-notes storage needs at least one commit to attach context to.");
+  }
+  await appendNote(NOTES_REF, head, JSON.stringify(entry) + "\n");
+  return head;
+}
+
+/**
+ * Read every entry stored in notes, across all branches: one copy per ID
+ * (the newest, as a merge can leave several), without deleted entries.
+ */
+export async function readNotesEntries(): Promise<ContextEntry[]> {
+  const notes = await listNotes(NOTES_REF);
+  if (notes.length === 0) return [];
+  return resolveLines(parseNote(await readNoteBlobs(notes.map((n) => n.blob))));
+}
+
+/**
+ * Replace the notes entries for one branch. Entries keep the commit they were
+ * attached to; entries that aren't in notes yet are attached to HEAD. Changed
+ * entries get a new `updatedAt`, and entries left out become tombstones.
+ */
+export async function rewriteBranchNotes(branch: string, entries: ContextEntry[]): Promise<void> {
+  const notes = await listNotes(NOTES_REF);
+  const stored = new Map((await readNotesEntries()).map((e) => [e.id, JSON.stringify(e)]));
+  const now = new Date().toISOString();
+  const revise = (entry: ContextEntry): ContextEntry =>
+    stored.has(entry.id) && stored.get(entry.id) !== JSON.stringify(entry) ? { ...entry, updatedAt: now } : entry;
+
+  const keep = new Map(entries.map((e) => [e.id, e]));
+  const placed = new Set<string>();
+
+  for (const { object } of notes) {
+    const current = parseNote(await readNote(NOTES_REF, object));
+    if (!current.some((line) => !isTombstone(line) && line.branch === branch)) continue;
+
+    const next: NoteLine[] = [];
+    const buried = new Set<string>();
+    for (const line of current) {
+      if (isTombstone(line) || line.branch !== branch) {
+        next.push(line);
+      } else if (keep.has(line.id)) {
+        // Older copies of an entry are replaced by the one kept
+        if (!placed.has(line.id)) next.push(revise(keep.get(line.id)!));
+        placed.add(line.id);
+      } else if (!buried.has(line.id)) {
+        next.push({ deleted: line.id, at: now });
+        buried.add(line.id);
+      }
+    }
+    await writeNote(NOTES_REF, object, serializeNote(next));
+  }
+
+  const unplaced = entries.filter((e) => !placed.has(e.id));
+  if (unplaced.length > 0) {
+    const head = await getHeadCommit();
+    if (!head) {
+      throw new Error("Git-notes storage needs at least one commit to attach context to.");
+    }
+    await appendNote(NOTES_REF, head, serializeNote(unplaced.map(revise)));
+  }
+}
+
+/** The newest copy of each entry, unless a later tombstone hides it */
+function resolveLines(lines: NoteLine[]): ContextEntry[] {
+  const deletedAt = new Map<string, string>();
+  const byId = new Map<string, ContextEntry>();
+  for (const line of lines) {
+    if (isTombstone(line)) {
+      if (line.at > (deletedAt.get(line.deleted) ?? "")) deletedAt.set(line.deleted, line.at);
+      continue;
+    }
+    const existing = byId.get(line.id);
+    if (!existing || isNewer(line, existing)) byId.set(line.id, line);
+  }
+  return Array.from(byId.values()).filter((e) => {
+    const at = deletedAt.get(e.id);
+    return at === undefined || revision(e) > at;
+  });
+}
+
+function revision(entry: ContextEntry): string {
+  return entry.updatedAt ?? entry.timestamp;
+}
+
+function isNewer(a: ContextEntry, b: ContextEntry): boolean {
+  if (revision(a) !== revision(b)) return revision(a) > revision(b);
+  // Same revision: any stable choice, so every clone picks the same copy
+  return JSON.stringify(a) > JSON.stringify(b);
+}
+
+function isTombstone(line: NoteLine): line is Tombstone {
+  return typeof (line as Tombstone).deleted === "string";
+}
+
+function parseNote(content: string): NoteLine[] {
+  const lines: NoteLine[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue; // `git notes append` separates paragraphs with blank lines
+    try {
+      const parsed = JSON.parse(line);
+      if (isTombstone(parsed) || typeof parsed.id === "string") lines.push(parsed);
+    } catch {
+      // Not one of ours (e.g. hand-edited note); skip it
+    }
+  }
+  return lines;
+}
+
+function serializeNote(lines: NoteLine[]): string {
+  return lines.map((line) => JSON.stringify(line)).join("\n") + (lines.length > 0 ? "\n" : "");
+}
@@ -0,0 +1,148 @@
+import { loadConfig, UserConfig } from "../utils/config";
+import { getChangedFiles, getStagedFiles, getRecentCommits } from "./git";
+import { resolveResumeOptions, resolveLogOptions, captureGitState, parseDateFilter } from "./options";
+
+jest.mock("../utils/config", () => ({ loadConfig: jest.fn() }));
+jest.mock("./git", () => ({
+    getChangedFiles: jest.fn(async () => ["src/a.ts"]),
+    getStagedFiles: jest.fn(async () => ["src/b.ts"]),
+    getRecentCommits: jest.fn(async (count: number) => Array.from({ length: count }, (_, i) => `abc123${i} commit`)),
+}));
+
+const DEFAULTS: UserConfig = {
+    defaultOutput: "clipboard",
+    promptMergeWindow: 3,
+    maxPromptTokens: 0,
+    injectTokenBudgets: {},
+    dedupThreshold: 0.8,
+    autoGitCapture: true,
+    recentCommitCount: 5,
+    defaultLogCount: 10,
+    watchInterval: 5,
+    retentionMaxAge: 0,
+    retentionMaxEntries: 0,
+    retentionKeepManual: true,
+    autoGc: false,
+    autoHook: true,
+    storage: "files",
+    aiProvider: "https://api.openai.com/v1",
+    aiModel: "gpt-4o-mini",
+};
+
+function useConfig(overrides: Partial<UserConfig>): void {
+    (loadConfig as jest.Mock).mockResolvedValue({ ...DEFAULTS, ...overrides });
+}
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    useConfig({});
+});
+
+describe("Options Resolution", () => {
+    describe("defaultOutput", () => {
+        it("should copy to clipboard by default", async () => {
+            expect((await resolveResumeOptions()).output).toBe("clipboard");
+        });
+
+        it("should print to stdout when configured", async () => {
+            useConfig({ defaultOutput: "stdout" });
+            expect((await resolveResumeOptions()).output).toBe("stdout");
+        });
+
+        it("should let explicit flags override the setting", async () => {
+            useConfig({ defaultOutput: "stdout" });
+            expect((await resolveResumeOptions({ clipboard: true })).output).toBe("clipboard");
+
+            useConfig({ defaultOutput: "clipboard" });
+            expect((await resolveResumeOptions({ stdout: true })).output).toBe("stdout");
+        });
+
+        it("should parse --max-tokens and leave it unset otherwise", async () => {
+            useConfig({});
+            expect((await resolveResumeOptions({ maxTokens: "1500" })).maxTokens).toBe(1500);
+            expect((await resolveResumeOptions()).maxTokens).toBeUndefined();
+            await expect(resolveResumeOptions({ maxTokens: "lots" })).rejects.toThrow("Invalid max tokens");
+        });
+
+        it("should accept the prompt formats and reject others", async () => {
+            useConfig({});
+            expect((await resolveResumeOptions({ format: "xml" })).format).toBe("xml");
+            expect((await resolveResumeOptions()).format).toBeUndefined();
+            await expect(resolveResumeOptions({ format: "yaml" })).rejects.toThrow(
+                "Invalid format: yaml (expected markdown, xml, json, text)"
+            );
+        });
+    });
+
+    describe("defaultLogCount", () => {
+        it("should use the configured count when none is given", async () => {
+            useConfig({ defaultLogCount: 3 });
+            expect((await resolveLogOptions()).count).toBe(3);
+        });
+
+        it("should prefer an explicit count from the CLI or MCP", async () => {
+            useConfig({ defaultLogCount: 3 });
+            expect((await resolveLogOptions({ count: "25" })).count).toBe(25);
+            expect((await resolveLogOptions({ count: 7 })).count).toBe(7);
+        });
+
+        it("should reject a non-numeric count", async () => {
+            await expect(resolveLogOptions({ count: "lots" })).rejects.toThrow(/Invalid count/);
+        });
+    });
+
+    describe("log filters and formats", () => {
+        it("should resolve filters and the output format", async () => {
+            const { filters, format } = await resolveLogOptions({ author: "ali", grep: "redis|kafka", source: "auto", oneline: true });
+            expect(filters).toMatchObject({ author: "ali", source: "auto" });
+            expect(filters.grep?.test("Tried KAFKA")).toBe(true);
+            expect(format).toBe("oneline");
+            expect((await resolveLogOptions()).format).toBe("default");
+        });
+
+        it("should reject an unknown source, a bad pattern and conflicting formats", async () => {
+            await expect(resolveLogOptions({ source: "robot" })).rejects.toThrow(/Invalid source/);
+            await expect(resolveLogOptions({ grep: "(" })).rejects.toThrow(/Invalid --grep pattern/);
+            await expect(resolveLogOptions({ json: true, full: true })).rejects.toThrow(/Use only one of --full, --json/);
+        });
+    });
+
+    describe("--since/--until dates", () => {
+        const now = Date.UTC(2025, 5, 15, 12);
+
+        it("should accept relative ages and dates, a plain --until date meaning the whole day", () => {
+            expect(parseDateFilter("3d", "since", now).toISOString()).toBe("2025-06-12T12:00:00.000Z");
+            expect(parseDateFilter("2w", "since", now).toISOString()).toBe("2025-06-01T12:00:00.000Z");
+            expect(parseDateFilter("2025-01-15", "since").toISOString()).toBe("2025-01-15T00:00:00.000Z");
+            expect(parseDateFilter("2025-01-15", "until").toISOString()).toBe("2025-01-15T23:59:59.999Z");
+        });
+
+        it("should reject anything else", () => {
+            expect(() => parseDateFilter("last tuesday", "since")).toThrow(/Invalid --since date/);
+        });
+    });
+
+    describe("autoGitCapture and recentCommitCount", () => {
+        it("should capture files and the configured number of commits", async () => {
+            useConfig({ recentCommitCount: 2 });
+
+            const snapshot = await captureGitState();
+
+            expect(getRecentCommits).toHaveBeenCalledWith(2);
+            expect(snapshot.recentCommits).toHaveLength(2);
+            expect(snapshot.filesChanged).toEqual(["src/a.ts"]);
+            expect(snapshot.filesStaged).toEqual(["src/b.ts"]);
+        });
+
+        it("should capture nothing from git when disabled", async () => {
+            useConfig({ autoGitCapture: false });
+
+            const snapshot = await captureGitState();
+
+            expect(snapshot).toEqual({ filesChanged: [], filesStaged: [], recentCommits: [] });
+            expect(getChangedFiles).not.toHaveBeenCalled();
+            expect(getStagedFiles).not.toHaveBeenCalled();
+            expect(getRecentCommits).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,261 @@
+import { loadConfig, UserConfig } from "../utils/config";
+import { getChangedFiles, getStagedFiles, getRecentCommits } from "./git";
+import { getValyrianCtxDir } from "./context";
+import { loadPromptTemplates } from "./prompt-templates";
+import { loadProjectMemory } from "./project-memory";
+import { PromptOptions } from "./prompt";
+import { isPromptFormat, PromptFormat, PROMPT_FORMATS } from "./prompt-renderers";
+import { RetentionPolicy } from "./retention";
+import { EntryFilters } from "./entry-filter";
+import { EntrySource } from "./types";
+import { UsageError } from "./errors";
+
+/*
+ * Options resolution: turns CLI flags / MCP tool arguments into the effective
+ * options for a command. Explicit arguments always win; anything left unset
+ * falls back to the user's config. Commands and the MCP server both go through
+ * here so a setting means the same thing everywhere.
+ */
+
+export interface ResumeFlags {
+  branch?: string;
+  stdout?: boolean;
+  clipboard?: boolean;
+  inject?: boolean;
+  maxTokens?: string | number;
+  format?: string;
+}
+
+export interface ResumeOptions {
+  branch?: string;
+  output: UserConfig["defaultOutput"];
+  inject: boolean;
+  /** Explicit token budget; unset means the `maxPromptTokens` / `injectTokenBudgets` settings */
+  maxTokens?: number;
+  /** Explicit output format; unset means markdown, or each IDE's own format when injecting */
+  format?: PromptFormat;
+}
+
+export async function resolveResumeOptions(flags: ResumeFlags = {}): Promise<ResumeOptions> {
+  const config = await loadConfig();
+  let output = config.defaultOutput;
+  if (flags.stdout) output = "stdout";
+  else if (flags.clipboard) output = "clipboard";
+
+  if (flags.format !== undefined && !isPromptFormat(flags.format)) {
+    throw new UsageError(`Invalid format: ${flags.format} (expected ${PROMPT_FORMATS.join(", ")})`);
+  }
+
+  return {
+    branch: flags.branch,
+    output,
+    inject: !!flags.inject,
+    maxTokens: flags.maxTokens !== undefined ? parseLimit(flags.maxTokens, "max tokens") : undefined,
+    format: flags.format,
+  };
+}
+
+export type PromptSettings = Required<Pick<PromptOptions, "templates" | "mergeWindow" | "dedupThreshold" | "maxTokens" | "project">> & {
+  /** Token budget per IDE id for the context injected into rule files */
+  injectTokenBudgets: Record<string, number>;
+};
+
+/**
+ * How context prompts are rendered in this repo: the templates in
+ * `.valyrianctx/templates/` (or the built-in ones), the project memory in
+ * `.valyrianctx/project/`, the merge window, the dedup threshold and the token
+ * budgets (0 = no limit).
+ */
+export async function resolvePromptOptions(): Promise<PromptSettings> {
+  const [config, dir] = await Promise.all([loadConfig(), getValyrianCtxDir()]);
+  return {
+    templates: loadPromptTemplates(dir),
+    mergeWindow: config.promptMergeWindow,
+    dedupThreshold: config.dedupThreshold,
+    maxTokens: config.maxPromptTokens,
+    injectTokenBudgets: config.injectTokenBudgets,
+    project: loadProjectMemory(dir),
+  };
+}
+
+export interface FilterFlags {
+  author?: string;
+  since?: string;
+  until?: string;
+}
+
+export interface LogFlags extends FilterFlags {
+  all?: boolean;
+  count?: string | number;
+  grep?: string;
+  source?: string;
+  full?: boolean;
+  oneline?: boolean;
+  json?: boolean;
+  ndjson?: boolean;
+}
+
+export type LogFormat = "default" | "full" | "oneline" | "json" | "ndjson";
+
+export interface LogOptions {
+  all: boolean;
+  count: number;
+  filters: EntryFilters;
+  format: LogFormat;
+}
+
+const ENTRY_SOURCES: EntrySource[] = ["manual", "auto", "ai"];
+
+export async function resolveLogOptions(flags: LogFlags = {}): Promise<LogOptions> {
+  const config = await loadConfig();
+  let count = config.defaultLogCount;
+
+  if (flags.count !== undefined) {
+    const parsed = typeof flags.count === "number" ? flags.count : parseInt(flags.count, 10);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new UsageError(`Invalid count: ${flags.count} (expected a positive integer)`);
+    }
+    count = parsed;
+  }
+
+  const formats = (["full", "oneline", "json", "ndjson"] as const).filter((f) => flags[f]);
+  if (formats.length > 1) {
+    throw new UsageError(`Use only one of ${formats.map((f) => `--${f}`).join(", ")}`);
+  }
+
+  if (flags.source !== undefined && !ENTRY_SOURCES.includes(flags.source as EntrySource)) {
+    throw new UsageError(`Invalid source: ${flags.source} (expected ${ENTRY_SOURCES.join(", ")})`);
+  }
+
+  let grep: RegExp | undefined;
+  if (flags.grep !== undefined) {
+    try {
+      grep = new RegExp(flags.grep, "i");
+    } catch (err: any) {
+      throw new UsageError(`Invalid --grep pattern: ${err.message}`);
+    }
+  }
+
+  return {
+    all: !!flags.all,
+    count,
+    filters: { ...resolveFilters(flags), source: flags.source as EntrySource | undefined, grep },
+    format: formats[0] ?? "default",
+  };
+}
+
+export interface SearchFlags extends FilterFlags {
+  branch?: string;
+  limit?: string | number;
+  archived?: boolean;
+}
+
+export interface SearchOptions {
+  filters: EntryFilters;
+  limit: number;
+  archived: boolean;
+}
+
+export function resolveSearchOptions(flags: SearchFlags = {}): SearchOptions {
+  const limit = flags.limit !== undefined ? parseLimit(flags.limit, "limit") : 20;
+  return {
+    filters: { ...resolveFilters(flags), branch: flags.branch },
+    limit,
+    archived: !!flags.archived,
+  };
+}
+
+function resolveFilters(flags: FilterFlags): EntryFilters {
+  return {
+    author: flags.author,
+    since: flags.since !== undefined ? parseDateFilter(flags.since, "since") : undefined,
+    until: flags.until !== undefined ? parseDateFilter(flags.until, "until") : undefined,
+  };
+}
+
+const RELATIVE_DATE = /^(\d+)\s*(h|d|w|mo|y)$/i;
+const UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  mo: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a --since/--until value: a date (`2025-01-15`, any ISO timestamp) or
+ * a relative age (`12h`, `3d`, `2w`, `6mo`, `1y` ago). A plain date given for
+ * --until means the end of that day.
+ */
+export function parseDateFilter(value: string, name: "since" | "until", now = Date.now()): Date {
+  const relative = value.trim().match(RELATIVE_DATE);
+  if (relative) {
+    return new Date(now - parseInt(relative[1], 10) * UNIT_MS[relative[2].toLowerCase()]);
+  }
+
+  const parsed = Date.parse(value);
+  if (isNaN(parsed)) {
+    throw new UsageError(`Invalid --${name} date: ${value} (expected e.g. 2025-01-15 or 3d, 2w, 6mo)`);
+  }
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+  return new Date(name === "until" && dateOnly ? parsed + UNIT_MS.d - 1 : parsed);
+}
+
+export interface GcFlags {
+  maxAge?: string | number;
+  maxEntries?: string | number;
+  /** Also remove manual saves (overrides retentionKeepManual) */
+  includeManual?: boolean;
+}
+
+export async function resolveRetentionPolicy(flags: GcFlags = {}): Promise<RetentionPolicy> {
+  const config = await loadConfig();
+  return {
+    maxAgeDays: flags.maxAge !== undefined ? parseLimit(flags.maxAge, "max age") : config.retentionMaxAge,
+    maxEntries:
+      flags.maxEntries !== undefined ? parseLimit(flags.maxEntries, "max entries") : config.retentionMaxEntries,
+    keepManual: flags.includeManual ? false : config.retentionKeepManual,
+  };
+}
+
+function parseLimit(value: string | number, name: string): number {
+  const parsed = typeof value === "number" ? value : parseInt(value, 10);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new UsageError(`Invalid ${name}: ${value} (expected a whole number, 0 for no limit)`);
+  }
+  return parsed;
+}
+
+export interface CaptureOptions {
+  autoGitCapture: boolean;
+  recentCommitCount: number;
+}
+
+export async function resolveCaptureOptions(): Promise<CaptureOptions> {
+  const config = await loadConfig();
+  return { autoGitCapture: config.autoGitCapture, recentCommitCount: config.recentCommitCount };
+}
+
+export interface GitSnapshot {
+  filesChanged: string[];
+  filesStaged: string[];
+  recentCommits: string[];
+}
+
+/**
+ * Capture the git state stored with a new context entry. Honors
+ * `autoGitCapture` (nothing is captured when off) and `recentCommitCount`.
+ */
+export async function captureGitState(options?: CaptureOptions): Promise<GitSnapshot> {
+  const { autoGitCapture, recentCommitCount } = options ?? (await resolveCaptureOptions());
+  if (!autoGitCapture) {
+    return { filesChanged: [], filesStaged: [], recentCommits: [] };
+  }
+
+  const [filesChanged, filesStaged, recentCommits] = await Promise.all([
+    getChangedFiles(),
+    getStagedFiles(),
+    recentCommitCount > 0 ? getRecentCommits(recentCommitCount) : Promise.resolve([]),
+  ]);
+  return { filesChanged, filesStaged, recentCommits };
+}
@@ -0,0 +1,105 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { addToProjectMemory, loadProjectMemory } from "./project-memory";
+import { renderPrompt } from "./prompt";
+import { makeEntry } from "./test-fixtures";
+
+describe("project memory files", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "valyrianctx-project-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should be empty without a project directory", () => {
+        expect(loadProjectMemory(dir)).toEqual({ conventions: [], decisions: [], glossary: [] });
+    });
+
+    it("should add items under a heading and skip ones it already has", () => {
+        expect(addToProjectMemory(dir, "decision", ["We use RS256 for JWT", "Keep CJS"])).toEqual([
+            "We use RS256 for JWT",
+            "Keep CJS",
+        ]);
+        expect(addToProjectMemory(dir, "decision", ["we use rs256 for JWT ", "Store dates as UTC"])).toEqual([
+            "Store dates as UTC",
+        ]);
+
+        expect(fs.readFileSync(path.join(dir, "project", "decisions.md"), "utf-8")).toBe(
+            "# Architecture Decisions\n\n- We use RS256 for JWT\n- Keep CJS\n- Store dates as UTC\n"
+        );
+        expect(loadProjectMemory(dir).decisions).toEqual(["We use RS256 for JWT", "Keep CJS", "Store dates as UTC"]);
+    });
+
+    it("should read hand-edited files, ignoring everything but list items", () => {
+        fs.mkdirSync(path.join(dir, "project"));
+        fs.writeFileSync(
+            path.join(dir, "project", "glossary.md"),
+            "# Glossary\n<!-- - not an item -->\nTerms we use:\n\n* Fold: carry decisions forward\n- Entry: one save"
+        );
+
+        addToProjectMemory(dir, "glossary", ["Store: .valyrianctx/"]);
+
+        expect(loadProjectMemory(dir).glossary).toEqual([
+            "Fold: carry decisions forward",
+            "Entry: one save",
+            "Store: .valyrianctx/",
+        ]);
+    });
+});
+
+describe("project memory in the prompt", () => {
+    const project = { conventions: ["Use pnpm"], decisions: ["We use RS256 for JWT"], glossary: [] };
+    const entries = [makeEntry("1", { decisions: ["Token bucket per API key"] })];
+
+    it("should show project memory before the branch's context", () => {
+        const prompt = renderPrompt(entries, { project }).prompt;
+
+        expect(prompt).toContain(
+            "**Author:** dev\n\n### Project Memory\n**Conventions:**\n- Use pnpm\n\n" +
+                "**Architecture Decisions:**\n- We use RS256 for JWT\n\n### Current Task\nTask 1\n"
+        );
+        expect(prompt).not.toContain("Glossary");
+    });
+
+    it("should leave the prompt unchanged when there is none", () => {
+        const empty = { conventions: [], decisions: [], glossary: [] };
+
+        expect(renderPrompt(entries, { project: empty }).prompt).toBe(renderPrompt(entries).prompt);
+        expect(renderPrompt(entries, { project: empty, format: "xml" }).prompt).not.toContain("project_memory");
+    });
+
+    it("should show it on a branch with inherited context and in every format", () => {
+        const inherited = { branch: "main", entries };
+
+        expect(renderPrompt([], { project, branch: "feature", inherited }).prompt).toMatch(
+            /### Project Memory[\s\S]*### Inherited from main/
+        );
+        expect(renderPrompt(entries, { project, format: "xml" }).prompt).toContain(
+            "<project_memory>\n<conventions>\n<convention>Use pnpm</convention>\n</conventions>"
+        );
+        expect(JSON.parse(renderPrompt(entries, { project, format: "json" }).prompt).project).toEqual(project);
+        expect(renderPrompt(entries, { project, format: "text" }).prompt).toContain(
+            "Project conventions:\n  - Use pnpm\n"
+        );
+    });
+
+    it("should cut the glossary and conventions before the branch's decisions", () => {
+        const big = {
+            conventions: Array.from({ length: 20 }, (_, i) => `Convention number ${i} that takes some room`),
+            decisions: ["We use RS256 for JWT"],
+            glossary: Array.from({ length: 20 }, (_, i) => `Term ${i}: a definition that takes some room`),
+        };
+        const full = renderPrompt(entries, { project: { ...big, conventions: [], glossary: [] } });
+
+        const result = renderPrompt(entries, { project: big, maxTokens: full.tokens + 10 });
+
+        expect(result.trimmed.map((t) => t.section)).toEqual(["glossary", "conventions"]);
+        expect(result.prompt).toContain("- Token bucket per API key");
+        expect(result.prompt).toContain("- We use RS256 for JWT");
+    });
+});
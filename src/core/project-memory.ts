@@ -0,0 +1,94 @@
+import fs from "fs";
+import path from "path";
+import { writeFileAtomic } from "../utils/fs-safe";
+
+/*
+ * Project memory: knowledge that holds for the whole repo rather than one
+ * branch — conventions, architecture decisions, a glossary. Branch context
+ * only carries decisions from its last few entries, so "we use RS256 for JWT"
+ * would drop out of the prompt after a few saves; promoted here, it is part of
+ * every prompt on every branch.
+ *
+ * Each kind is a markdown list in `.valyrianctx/project/` (shared with the
+ * store by `valyrianctx share`), so it can be reviewed and edited by hand:
+ * every `- item` line is an item, anything else (headings, comments) is kept
+ * but ignored.
+ */
+
+export const PROJECT_DIR = "project";
+
+export const MEMORY_KINDS = {
+  convention: { field: "conventions", file: "conventions.md", heading: "Conventions" },
+  decision: { field: "decisions", file: "decisions.md", heading: "Architecture Decisions" },
+  glossary: { field: "glossary", file: "glossary.md", heading: "Glossary" },
+} as const;
+
+export type MemoryKind = keyof typeof MEMORY_KINDS;
+
+export const MEMORY_KIND_NAMES = Object.keys(MEMORY_KINDS) as MemoryKind[];
+
+export interface ProjectMemory {
+  conventions: string[];
+  decisions: string[];
+  glossary: string[];
+}
+
+export function isMemoryKind(value: string): value is MemoryKind {
+  return Object.prototype.hasOwnProperty.call(MEMORY_KINDS, value);
+}
+
+export function isProjectMemoryEmpty(memory: ProjectMemory): boolean {
+  return MEMORY_KIND_NAMES.every((kind) => memory[MEMORY_KINDS[kind].field].length === 0);
+}
+
+/** Path of a kind's file relative to the repo root, for messages */
+export function memoryFilePath(kind: MemoryKind): string {
+  return path.join(".valyrianctx", PROJECT_DIR, MEMORY_KINDS[kind].file);
+}
+
+/** The project memory of a `.valyrianctx/` directory (empty lists if there is none) */
+export function loadProjectMemory(valyrianCtxDir: string): ProjectMemory {
+  const memory: ProjectMemory = { conventions: [], decisions: [], glossary: [] };
+  for (const kind of MEMORY_KIND_NAMES) {
+    const filePath = path.join(valyrianCtxDir, PROJECT_DIR, MEMORY_KINDS[kind].file);
+    if (fs.existsSync(filePath)) memory[MEMORY_KINDS[kind].field] = parseItems(fs.readFileSync(filePath, "utf-8"));
+  }
+  return memory;
+}
+
+/**
+ * Append items to a kind's file, skipping ones it already has (compared
+ * case-insensitively). Returns the items that were added.
+ */
+export function addToProjectMemory(valyrianCtxDir: string, kind: MemoryKind, items: string[]): string[] {
+  const filePath = path.join(valyrianCtxDir, PROJECT_DIR, MEMORY_KINDS[kind].file);
+  const existing = fs.existsSync(filePath)
+    ? fs.readFileSync(filePath, "utf-8")
+    : `# ${MEMORY_KINDS[kind].heading}\n\n`;
+
+  const seen = new Set(parseItems(existing).map(normalize));
+  const added: string[] = [];
+  for (const item of items.map((i) => i.replace(/\s+/g, " ").trim())) {
+    if (!item || seen.has(normalize(item))) continue;
+    seen.add(normalize(item));
+    added.push(item);
+  }
+  if (added.length === 0) return [];
+
+  const separator = existing === "" || existing.endsWith("\n") ? "" : "\n";
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileAtomic(filePath, existing + separator + added.map((item) => `- ${item}\n`).join(""));
+  return added;
+}
+
+function parseItems(markdown: string): string[] {
+  return markdown
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .split("\n")
+    .map((line) => /^\s*[-*]\s+(.*\S)\s*$/.exec(line)?.[1])
+    .filter((item): item is string => !!item);
+}
+
+function normalize(item: string): string {
+  return item.toLowerCase().trim();
+}
@@ -0,0 +1,85 @@
+import { describeTrims, estimateTokens, summarizeFiles } from "./prompt-budget";
+import { renderPrompt } from "./prompt";
+import { makeEntry } from "./test-fixtures";
+
+const files = Array.from({ length: 60 }, (_, i) => (i < 40 ? `src/core/module-${i}.ts` : `test/case-${i}.ts`));
+const entries = [
+    makeEntry("1", { task: "An earlier session" }),
+    makeEntry("2", {
+        task: "Add rate limiting",
+        decisions: ["Token bucket per API key"],
+        approaches: ["Tried a fixed window", "Tried sliding logs"],
+        nextSteps: ["Tune the limits", "Load test"],
+        filesChanged: files,
+        recentCommits: ["abc123 Add limiter middleware", "def456 Add config"],
+    }),
+];
+
+describe("renderPrompt with a token budget", () => {
+    it("should leave the prompt alone without a budget or when it fits", () => {
+        const full = renderPrompt(entries);
+
+        expect(full.trimmed).toEqual([]);
+        expect(full.tokens).toBe(estimateTokens(full.prompt));
+        expect(renderPrompt(entries, { maxTokens: full.tokens }).prompt).toBe(full.prompt);
+    });
+
+    it("should cut low-priority sections first and keep task, state, next steps and decisions", () => {
+        const full = renderPrompt(entries);
+        const result = renderPrompt(entries, { maxTokens: Math.floor(full.tokens / 2) });
+
+        expect(result.tokens).toBeLessThanOrEqual(Math.floor(full.tokens / 2));
+        expect(result.truncated).toBe(false);
+        expect(result.trimmed[0]).toEqual({ section: "session history", kept: 0, total: 2 });
+        expect(result.trimmed[1]).toMatchObject({ section: "changed files", total: 60 });
+        expect(result.prompt).not.toContain("### Session History");
+        expect(result.prompt).toMatch(/- …and \d+ more \(src\/core: \d+, test: 20\)/);
+        expect(result.prompt).toContain("Add rate limiting");
+        expect(result.prompt).toContain("Half done");
+        expect(result.prompt).toContain("- Token bucket per API key");
+        expect(result.prompt).toContain("2. Load test");
+    });
+
+    it("should drop the header before the task and state", () => {
+        const entry = makeEntry("1", { task: "Fix login", author: "dev", goal: "Ship SSO", handoffNote: "Ask Sam" });
+        const result = renderPrompt([entry], { maxTokens: 50 });
+
+        expect(result.truncated).toBe(false);
+        expect(result.tokens).toBeLessThanOrEqual(50);
+        expect(result.prompt).toContain("### Current Task\nFix login");
+        expect(result.prompt).toContain("### Current State\nHalf done");
+        expect(result.prompt).not.toContain("**Author:**");
+        expect(result.prompt).not.toContain("Ask Sam");
+        expect(describeTrims(result)).toContain("dropped author");
+        expect(renderPrompt([entry], { maxTokens: 50, format: "text" }).prompt).not.toContain("undefined");
+    });
+
+    it("should cut off the end when even the essentials don't fit", () => {
+        const result = renderPrompt(entries, { maxTokens: 20 });
+
+        expect(result.truncated).toBe(true);
+        expect(result.tokens).toBeLessThanOrEqual(20);
+        expect(result.prompt).toContain("cut to fit the token budget");
+        expect(result.prompt).not.toMatch(/#[^\n]*\n+…/);
+    });
+});
+
+describe("summaries", () => {
+    it("should summarize omitted files by directory", () => {
+        expect(summarizeFiles(["a/x.ts", "a/y.ts", "b/z.ts", "README.md", "c/d.ts", "e/f.ts"])).toBe(
+            "…and 6 more (a: 2, b: 1, (root): 1, …)"
+        );
+    });
+
+    it("should describe what was cut", () => {
+        expect(
+            describeTrims({
+                trimmed: [
+                    { section: "session history", kept: 0, total: 4 },
+                    { section: "changed files", kept: 10, total: 40 },
+                ],
+                truncated: false,
+            })
+        ).toBe("dropped session history (4), kept 10 of 40 changed files");
+    });
+});
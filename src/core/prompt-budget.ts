@@ -0,0 +1,158 @@
+import path from "path";
+
+/*
+ * Fitting a context prompt into a token budget. Prompts end up in rule files
+ * the AI reads on every turn, so a branch with hundreds of changed files
+ * shouldn't cost thousands of tokens each time. The template is re-rendered
+ * with lower-priority lists cut down, then header fields dropped, until it
+ * fits; task, state, next steps and decisions are the last to go.
+ */
+
+/** A list that was cut (or a value dropped: kept 0 of 1) to fit the budget */
+export interface PromptTrim {
+  /** Human-readable section name, e.g. "changed files" */
+  section: string;
+  kept: number;
+  total: number;
+}
+
+export interface BudgetResult {
+  text: string;
+  /** Estimated tokens of `text` */
+  tokens: number;
+  trimmed: PromptTrim[];
+  /** Even with every field cut the prompt didn't fit, so its end was cut off */
+  truncated: boolean;
+}
+
+/**
+ * A template variable that can be shortened, lowest priority first: a list,
+ * or a single value that can only be dropped
+ */
+export interface TrimmableField {
+  /** Variable name, or a dotted path such as `project.glossary` */
+  field: string;
+  section: string;
+  /** Which items of a list survive a cut: the first ones (newest, or in order) or the last ones */
+  keep?: "first" | "last";
+  /** Add an item saying how many were left out */
+  summarize?: (omitted: unknown[]) => unknown;
+}
+
+/**
+ * Rough token count for prompt text: about 4 characters per token for
+ * English and code, which is close enough for budgeting without a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Render `view`, then, while the result is over `maxTokens`, shorten the
+ * `fields` lists in order (each to as many items as still fit) and drop the
+ * single values among them. If that isn't enough, cut lines off the end.
+ */
+export function fitToBudget(
+  view: Record<string, unknown>,
+  render: (view: Record<string, unknown>) => string,
+  maxTokens: number,
+  fields: TrimmableField[]
+): BudgetResult {
+  let current = { ...view };
+  let text = render(current);
+  const trimmed: PromptTrim[] = [];
+
+  for (const spec of fields) {
+    if (estimateTokens(text) <= maxTokens) break;
+    const items = getPath(current, spec.field);
+    if (!Array.isArray(items)) {
+      if (!items) continue;
+      current = setPath(current, spec.field, undefined);
+      text = render(current);
+      trimmed.push({ section: spec.section, kept: 0, total: 1 });
+      continue;
+    }
+    if (items.length === 0) continue;
+
+    const withCount = (kept: number) => setPath(current, spec.field, cut(items, kept, spec));
+    const fits = (kept: number) => estimateTokens(render(withCount(kept))) <= maxTokens;
+
+    // Largest count that fits, or none at all
+    let low = 0;
+    let high = items.length - 1;
+    let best = 0;
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      if (fits(mid)) {
+        best = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    current = withCount(best);
+    text = render(current);
+    trimmed.push({ section: spec.section, kept: best, total: items.length });
+  }
+
+  let truncated = false;
+  if (estimateTokens(text) > maxTokens) {
+    const suffix = "\n\n…(cut to fit the token budget)\n";
+    const limit = Math.max(0, maxTokens * 4 - suffix.length);
+    const cutAt = text.lastIndexOf("\n", limit);
+    // Don't leave a heading behind without what was under it
+    const kept = text.slice(0, cutAt > 0 ? cutAt : limit).replace(/(?:(?:^|\n+)#+ [^\n]*)+\s*$/, "");
+    text = kept ? kept + suffix : suffix.trimStart();
+    truncated = true;
+  }
+
+  return { text, tokens: estimateTokens(text), trimmed, truncated };
+}
+
+function getPath(view: Record<string, unknown>, field: string): unknown {
+  return field.split(".").reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], view);
+}
+
+/** A copy of `view` with the value at `field` replaced (copying the objects along the path) */
+function setPath(view: Record<string, unknown>, field: string, value: unknown): Record<string, unknown> {
+  const [key, ...rest] = field.split(".");
+  if (rest.length === 0) return { ...view, [key]: value };
+  return { ...view, [key]: setPath((view[key] as Record<string, unknown>) ?? {}, rest.join("."), value) };
+}
+
+function cut(items: unknown[], kept: number, spec: TrimmableField): unknown[] {
+  if (kept === 0) return [];
+  const survivors = spec.keep === "last" ? items.slice(-kept) : items.slice(0, kept);
+  const omitted = spec.keep === "last" ? items.slice(0, items.length - kept) : items.slice(kept);
+  return spec.summarize ? [...survivors, spec.summarize(omitted)] : survivors;
+}
+
+/** "…and 12 more" */
+export function summarizeCount(omitted: unknown[]): string {
+  return `…and ${omitted.length} more`;
+}
+
+/** "…and 12 more (src/core: 8, src/commands: 3, test: 1)" */
+export function summarizeFiles(omitted: unknown[]): string {
+  const byDir = new Map<string, number>();
+  for (const file of omitted) {
+    const dir = path.posix.dirname(String(file));
+    byDir.set(dir, (byDir.get(dir) ?? 0) + 1);
+  }
+  const top = [...byDir.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([dir, count]) => `${dir === "." ? "(root)" : dir}: ${count}`);
+  return `…and ${omitted.length} more (${top.join(", ")}${byDir.size > 3 ? ", …" : ""})`;
+}
+
+/** "dropped session history (4), kept 10 of 40 changed files, dropped author" */
+export function describeTrims(result: Pick<BudgetResult, "trimmed" | "truncated">): string {
+  const parts = result.trimmed.map((t) => {
+    if (t.kept > 0) return `kept ${t.kept} of ${t.total} ${t.section}`;
+    return t.total === 1 ? `dropped ${t.section}` : `dropped ${t.section} (${t.total})`;
+  });
+  if (result.truncated) parts.push("cut off the end");
+  return parts.join(", ");
+}
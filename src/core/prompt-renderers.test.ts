@@ -0,0 +1,74 @@
+import { renderPrompt } from "./prompt";
+import { makeEntry } from "./test-fixtures";
+
+const entries = [
+    makeEntry("1", { decisions: ["Use zod"] }),
+    makeEntry("2", {
+        task: "Parse <config> & validate",
+        decisions: ["Keep CJS"],
+        nextSteps: ["Add tests", "Ship it"],
+        filesChanged: ["src/config.ts"],
+    }),
+];
+
+describe("prompt formats", () => {
+    it("should render XML tags with escaped text", () => {
+        const prompt = renderPrompt(entries, { format: "xml" }).prompt;
+
+        expect(prompt).toMatch(/^<project_context repo="repo" branch="main" last_session="0 minutes ago" author="dev">\n/);
+        expect(prompt).toContain("<current_task>Parse &lt;config&gt; &amp; validate</current_task>");
+        expect(prompt).toContain("<key_decisions>\n<decision>Use zod</decision>\n<decision>Keep CJS</decision>\n</key_decisions>");
+        expect(prompt).toContain("<next_steps>\n<step>Add tests</step>\n<step>Ship it</step>\n</next_steps>");
+        expect(prompt).not.toContain("<blockers>");
+        expect(prompt.trimEnd().endsWith("</project_context>")).toBe(true);
+    });
+
+    it("should render a JSON document", () => {
+        const doc = JSON.parse(renderPrompt(entries, { format: "json" }).prompt);
+
+        expect(doc).toMatchObject({
+            repo: "repo",
+            branch: "main",
+            saved: true,
+            task: "Parse <config> & validate",
+            decisions: ["Use zod", "Keep CJS"],
+            nextSteps: ["Add tests", "Ship it"],
+            blockers: [],
+            sessions: 2,
+        });
+        expect(doc.history.map((h: { task: string }) => h.task)).toEqual(["Parse <config> & validate", "Task 1"]);
+    });
+
+    it("should render plain text without markdown", () => {
+        const prompt = renderPrompt(entries, { format: "text" }).prompt;
+
+        expect(prompt).toContain("Current task: Parse <config> & validate\n");
+        expect(prompt).toContain("Next steps:\n  1. Add tests\n  2. Ship it\n");
+        expect(prompt).not.toMatch(/[#*`]/);
+    });
+
+    it("should render inherited context in every format", () => {
+        const inherited = { branch: "main", entries: [makeEntry("1", { approaches: ["Tried polling"] })] };
+        const render = (format: "xml" | "json" | "text") =>
+            renderPrompt([], { format, branch: "feature", inherited }).prompt;
+
+        expect(render("xml")).toContain('<inherited_from branch="main" last_session="0 minutes ago" author="dev">');
+        expect(JSON.parse(render("json"))).toMatchObject({
+            branch: "feature",
+            saved: false,
+            inheritedFrom: { branch: "main", task: "Task 1", approaches: ["Tried polling"] },
+        });
+        expect(render("text")).toContain("What's been tried (inherited):\n  - Tried polling\n");
+    });
+
+    it("should fit every format to the token budget", () => {
+        const many = [
+            makeEntry("1", { filesChanged: Array.from({ length: 80 }, (_, i) => `src/file-${i}.ts`) }),
+        ];
+        const result = renderPrompt(many, { format: "json", maxTokens: 150 });
+
+        expect(result.tokens).toBeLessThanOrEqual(150);
+        expect(result.trimmed[0]).toMatchObject({ section: "changed files", total: 80 });
+        expect(JSON.parse(result.prompt).filesChanged.pop()).toMatch(/^…and \d+ more \(src: \d+\)$/);
+    });
+});
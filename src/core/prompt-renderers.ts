@@ -0,0 +1,228 @@
+import { PromptTemplateName, PromptTemplates } from "./prompt-templates";
+import { ProjectMemory } from "./project-memory";
+
+/*
+ * Output formats for the context prompt. Every format renders the same
+ * variables (see prompt-templates.ts), so the merge window and the token
+ * budget apply to all of them. Only `markdown` goes through the templates in
+ * `.valyrianctx/templates/`; the others have a fixed shape. Adding a format
+ * means adding a renderer to PROMPT_RENDERERS.
+ */
+
+export interface PromptRenderer {
+  /** Render the `context` or `inherited` variables */
+  render(name: PromptTemplateName, view: Record<string, unknown>, templates: PromptTemplates): string;
+}
+
+type View = Record<string, unknown>;
+
+/** The template's markdown; the default, and what rule files have always had */
+const markdown: PromptRenderer = {
+  render: (name, view, templates) => templates[name].render(view),
+};
+
+/** XML-tagged sections, which Claude-style models follow closely */
+const xml: PromptRenderer = {
+  render(name, view) {
+    const lines: string[] = [];
+    if (name === "inherited") {
+      lines.push(`<project_context repo="${attr(view.repo)}" branch="${attr(view.branch)}" saved="false">`);
+      lines.push(projectXml(view.project));
+      lines.push(
+        `<inherited_from branch="${attr(view.parentBranch)}" last_session="${attr(view.timeAgo)}"` +
+          `${view.author ? ` author="${attr(view.author)}"` : ""}>`
+      );
+      lines.push(tag("parent_task", view.task), tag("parent_goal", view.goal), tag("parent_state", view.currentState));
+      lines.push(tagList("approaches_tried", "approach", view.approaches), tagList("key_decisions", "decision", view.decisions));
+      lines.push("</inherited_from>");
+    } else {
+      lines.push(
+        `<project_context repo="${attr(view.repo)}" branch="${attr(view.branch)}" last_session="${attr(view.timeAgo)}"` +
+          `${view.author ? ` author="${attr(view.author)}"` : ""}>`
+      );
+      lines.push(projectXml(view.project));
+      lines.push(tag("current_task", view.task), tag("goal", view.goal));
+      lines.push(tagList("approaches_tried", "approach", view.approaches), tagList("key_decisions", "decision", view.decisions));
+      lines.push(tag("current_state", view.currentState));
+      lines.push(tagList("next_steps", "step", view.nextSteps), tagList("blockers", "blocker", view.blockers));
+      lines.push(tagList("files_changed", "file", view.filesChanged), tagList("recent_commits", "commit", view.recentCommits));
+      const history = list<View>(view.history);
+      if (history.length > 0) {
+        lines.push(`<session_history sessions="${attr(view.sessions)}">`);
+        for (const h of history) lines.push(`<session date="${attr(h.date)}">${text(h.task)}</session>`);
+        lines.push("</session_history>");
+      }
+      lines.push(tag("handoff_note", view.handoffNote));
+    }
+    lines.push("</project_context>");
+    return lines.filter(Boolean).join("\n") + "\n";
+  },
+};
+
+/** A stable JSON document for scripts */
+const json: PromptRenderer = {
+  render(name, view) {
+    const doc =
+      name === "inherited"
+        ? {
+            repo: view.repo,
+            branch: view.branch,
+            saved: false,
+            project: projectJson(view.project),
+            inheritedFrom: {
+              branch: view.parentBranch,
+              lastSession: (view.latest as View).timestamp,
+              author: view.author,
+              task: view.task,
+              goal: view.goal,
+              currentState: view.currentState,
+              approaches: list(view.approaches),
+              decisions: list(view.decisions),
+            },
+          }
+        : {
+            repo: view.repo,
+            branch: view.branch,
+            saved: true,
+            project: projectJson(view.project),
+            lastSession: view.timestamp,
+            author: view.author,
+            task: view.task,
+            goal: view.goal,
+            approaches: list(view.approaches),
+            decisions: list(view.decisions),
+            currentState: view.currentState,
+            nextSteps: list(view.nextSteps),
+            blockers: list(view.blockers),
+            filesChanged: list(view.filesChanged),
+            recentCommits: list(view.recentCommits),
+            sessions: view.sessions,
+            history: list<View>(view.history).map((h) => ({ timestamp: h.timestamp, task: h.task })),
+            handoffNote: view.handoffNote,
+            assignee: view.assignee,
+          };
+    return JSON.stringify(doc, null, 2) + "\n";
+  },
+};
+
+/** No markup at all, for terminals and tools that show it raw */
+const plain: PromptRenderer = {
+  render(name, view) {
+    const blocks: string[] = [];
+    if (name === "inherited") {
+      blocks.push(`Project context: ${where(view)} (no saves yet)`);
+      blocks.push(projectText(view.project));
+      blocks.push(
+        `Inherited from ${view.parentBranch}${lastSession(view)}.\n` +
+          field("Parent task", view.task) +
+          field("Parent goal", view.goal) +
+          field("Parent state", view.currentState)
+      );
+      blocks.push(bullets("What's been tried (inherited)", view.approaches), bullets("Key decisions (inherited)", view.decisions));
+    } else {
+      blocks.push(`Project context: ${where(view)}${lastSession(view)}`);
+      blocks.push(projectText(view.project));
+      blocks.push(field("Current task", view.task) + field("Goal", view.goal));
+      blocks.push(bullets("What's been tried", view.approaches), bullets("Key decisions", view.decisions));
+      blocks.push(field("Current state", view.currentState));
+      blocks.push(numbered("Next steps", view.nextSteps), bullets("Blockers", view.blockers));
+      blocks.push(bullets("Files changed recently", view.filesChanged), bullets("Recent commits", view.recentCommits));
+      const history = list<View>(view.history);
+      if (history.length > 0) {
+        blocks.push(
+          `Session history (${view.sessions} sessions):\n` + history.map((h) => `  [${h.date}] ${h.task}\n`).join("")
+        );
+      }
+      blocks.push(field("Handoff note", view.handoffNote));
+    }
+    return blocks.filter(Boolean).map((b) => b.replace(/\n?$/, "\n")).join("\n");
+  },
+};
+
+export const PROMPT_RENDERERS = { markdown, xml, json, text: plain } satisfies Record<string, PromptRenderer>;
+
+export type PromptFormat = keyof typeof PROMPT_RENDERERS;
+
+export const PROMPT_FORMATS = Object.keys(PROMPT_RENDERERS) as PromptFormat[];
+
+export function isPromptFormat(value: string): value is PromptFormat {
+  return Object.prototype.hasOwnProperty.call(PROMPT_RENDERERS, value);
+}
+
+function projectXml(value: unknown): string {
+  const project = value as ProjectMemory | undefined;
+  if (!project) return "";
+  return [
+    "<project_memory>",
+    tagList("conventions", "convention", project.conventions),
+    tagList("architecture_decisions", "decision", project.decisions),
+    tagList("glossary", "term", project.glossary),
+    "</project_memory>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function projectJson(value: unknown): ProjectMemory {
+  const project = value as ProjectMemory | undefined;
+  return { conventions: list(project?.conventions), decisions: list(project?.decisions), glossary: list(project?.glossary) };
+}
+
+function projectText(value: unknown): string {
+  const project = value as ProjectMemory | undefined;
+  if (!project) return "";
+  return [
+    bullets("Project conventions", project.conventions),
+    bullets("Architecture decisions", project.decisions),
+    bullets("Glossary", project.glossary),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function list<T = unknown>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function text(value: unknown): string {
+  return String(value).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function attr(value: unknown): string {
+  return text(value ?? "").replace(/"/g, "&quot;");
+}
+
+function tag(name: string, value: unknown): string {
+  return value ? `<${name}>${text(value)}</${name}>` : "";
+}
+
+function tagList(name: string, item: string, values: unknown): string {
+  const items = list(values);
+  if (items.length === 0) return "";
+  return [`<${name}>`, ...items.map((v) => `<${item}>${text(v)}</${item}>`), `</${name}>`].join("\n");
+}
+
+/** "api @ main", or just the branch when the token budget dropped the repo name */
+function where(view: View): string {
+  return view.repo ? `${view.repo} @ ${view.branch}` : String(view.branch);
+}
+
+/** " (last session 3 hours ago, by dev)", without whatever the token budget dropped */
+function lastSession(view: View): string {
+  if (!view.timeAgo) return "";
+  return ` (last session ${view.timeAgo}${view.author ? `, by ${view.author}` : ""})`;
+}
+
+function field(label: string, value: unknown): string {
+  return value ? `${label}: ${value}\n` : "";
+}
+
+function bullets(label: string, values: unknown): string {
+  const items = list(values);
+  return items.length > 0 ? `${label}:\n` + items.map((v) => `  - ${v}\n`).join("") : "";
+}
+
+function numbered(label: string, values: unknown): string {
+  const items = list(values);
+  return items.length > 0 ? `${label}:\n` + items.map((v, i) => `  ${i + 1}. ${v}\n`).join("") : "";
+}
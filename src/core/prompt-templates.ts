@@ -0,0 +1,232 @@
+import fs from "fs";
+import path from "path";
+import { compileTemplate, Template } from "./template";
+
+/**
+ * Templates for the context prompt (`resume`, `resume --inject`, the MCP
+ * server). A team can override either one with a file in
+ * `.valyrianctx/templates/`, written in the template language of template.ts.
+ *
+ * `context.md` renders a branch with saved context. Its variables:
+ *
+ * - `repo`, `branch`, `author`, `timeAgo` ("3 hours ago")
+ * - `task`, `goal`, `currentState`, `nextSteps`, `handoffNote`, `assignee`,
+ *   `filesChanged`, `filesStaged`, `recentCommits`: from the latest entry
+ * - `approaches`, `decisions`, `blockers`: merged from the latest entries (the
+ *   `promptMergeWindow` setting) and deduplicated
+ * - `sessions`: how many entries the branch has
+ * - `history`: the last 5 entries, newest first, each with a `date`; empty
+ *   when there is only one
+ * - `latest`, `entries`: the raw entries
+ * - `project`: the repo's project memory (`conventions`, `decisions`,
+ *   `glossary`; see project-memory.ts), unset when there is none
+ *
+ * `inherited.md` renders a branch with no saves yet whose parent has context:
+ * `repo`, `branch`, `parentBranch`, and the parent's `task`, `goal`,
+ * `currentState`, `author`, `timeAgo`, merged `approaches` and `decisions`,
+ * `latest` and `entries`, plus `project`.
+ */
+
+export const TEMPLATES_DIR = "templates";
+
+export const TEMPLATE_FILES = {
+  context: "context.md",
+  inherited: "inherited.md",
+} as const;
+
+export type PromptTemplateName = keyof typeof TEMPLATE_FILES;
+
+export type PromptTemplates = Record<PromptTemplateName, Template>;
+
+export const DEFAULT_TEMPLATE_SOURCES: Record<PromptTemplateName, string> = {
+  context: `## Project Context (auto-generated by Valyrian Context)
+
+{{#if repo}}
+**Repo:** {{repo}}
+{{/if}}
+**Branch:** {{branch}}
+{{#if timeAgo}}
+**Last session:** {{timeAgo}}
+{{/if}}
+{{#if author}}
+**Author:** {{author}}
+{{/if}}
+
+{{#if project}}
+### Project Memory
+{{#if project.conventions}}
+**Conventions:**
+{{#each project.conventions}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if project.decisions}}
+**Architecture Decisions:**
+{{#each project.decisions}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if project.glossary}}
+**Glossary:**
+{{#each project.glossary}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{/if}}
+### Current Task
+{{task}}
+
+{{#if goal}}
+### Goal
+{{goal}}
+
+{{/if}}
+{{#if approaches}}
+### What's Been Tried
+{{#each approaches}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if decisions}}
+### Key Decisions
+{{#each decisions}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+### Current State
+{{currentState}}
+
+{{#if nextSteps}}
+### Next Steps
+{{#each nextSteps}}
+{{@number}}. {{this}}
+{{/each}}
+
+{{/if}}
+{{#if blockers}}
+### Blockers
+{{#each blockers}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if filesChanged}}
+### Files Changed Recently
+{{#each filesChanged}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if recentCommits}}
+### Recent Commits
+{{#each recentCommits}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if history}}
+### Session History ({{sessions}} sessions)
+{{#each history}}
+- [{{date}}] {{task}}
+{{/each}}
+
+{{/if}}
+{{#if handoffNote}}
+### Handoff Note
+{{handoffNote}}
+
+{{/if}}
+`,
+
+  inherited: `## Project Context (auto-generated by Valyrian Context)
+
+{{#if repo}}
+**Repo:** {{repo}}
+{{/if}}
+**Branch:** {{branch}} (no saves yet)
+
+{{#if project}}
+### Project Memory
+{{#if project.conventions}}
+**Conventions:**
+{{#each project.conventions}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if project.decisions}}
+**Architecture Decisions:**
+{{#each project.decisions}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if project.glossary}}
+**Glossary:**
+{{#each project.glossary}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{/if}}
+### Inherited from {{parentBranch}}
+No context has been saved on this branch yet. The following was carried over from \`{{parentBranch}}\`{{#if timeAgo}} (last session {{timeAgo}}{{#if author}}, by {{author}}{{/if}}){{/if}}.
+
+**Parent task:** {{task}}
+{{#if goal}}
+**Parent goal:** {{goal}}
+{{/if}}
+{{#if currentState}}
+**Parent state:** {{currentState}}
+{{/if}}
+
+{{#if approaches}}
+### What's Been Tried (inherited)
+{{#each approaches}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+{{#if decisions}}
+### Key Decisions (inherited)
+{{#each decisions}}
+- {{this}}
+{{/each}}
+
+{{/if}}
+`,
+};
+
+let defaults: PromptTemplates | null = null;
+
+/** The built-in templates */
+export function getDefaultTemplates(): PromptTemplates {
+  if (!defaults) {
+    defaults = {
+      context: compileTemplate(DEFAULT_TEMPLATE_SOURCES.context),
+      inherited: compileTemplate(DEFAULT_TEMPLATE_SOURCES.inherited),
+    };
+  }
+  return defaults;
+}
+
+/**
+ * The prompt templates for a `.valyrianctx/` directory: each file in
+ * `templates/` replaces the built-in one. Throws TemplateError if a file
+ * doesn't parse.
+ */
+export function loadPromptTemplates(valyrianCtxDir: string): PromptTemplates {
+  const templates = { ...getDefaultTemplates() };
+  for (const [name, file] of Object.entries(TEMPLATE_FILES) as [PromptTemplateName, string][]) {
+    const filePath = path.join(valyrianCtxDir, TEMPLATES_DIR, file);
+    if (!fs.existsSync(filePath)) continue;
+    const source = path.join(".valyrianctx", TEMPLATES_DIR, file);
+    templates[name] = compileTemplate(fs.readFileSync(filePath, "utf-8"), source);
+  }
+  return templates;
+}
@@ -1,105 +1,183 @@
-import { ContextEntry } from "./types";
-
-/**
- * Generate a markdown prompt from context entries.
- * 
- * Uses the LATEST entry for task/state/next steps, but MERGES decisions and
- * approaches from the last 3 entries (deduplicated). This prevents knowledge
- * loss when a low-quality auto-save overwrites a rich manual save — the
- * decisions and approaches from earlier sessions survive.
- */
-export function generatePrompt(entries: ContextEntry[]): string {
-  if (entries.length === 0) return "No context found for this branch.";
-
-  const latest = entries[entries.length - 1];
-  const timeAgo = getTimeAgo(latest.timestamp);
-
-  // Merge approaches and decisions from the last 3 entries (deduplicated)
-  const recentEntries = entries.slice(-3);
-  const mergedApproaches = dedup(recentEntries.flatMap((e) => e.approaches));
-  const mergedDecisions = dedup(recentEntries.flatMap((e) => e.decisions));
-  const mergedBlockers = dedup(recentEntries.flatMap((e) => e.blockers || []));
-
-  let prompt = `## Project Context (auto-generated by Valyrian Context)\n\n`;
-  prompt += `**Repo:** ${latest.repo}\n`;
-  prompt += `**Branch:** ${latest.branch}\n`;
-  prompt += `**Last session:** ${timeAgo}\n`;
-  prompt += `**Author:** ${latest.author}\n\n`;
-
-  prompt += `### Current Task\n${latest.task}\n\n`;
-
-  if (latest.goal) {
-    prompt += `### Goal\n${latest.goal}\n\n`;
-  }
-
-  if (mergedApproaches.length > 0) {
-    prompt += `### What's Been Tried\n`;
-    mergedApproaches.forEach((a) => (prompt += `- ${a}\n`));
-    prompt += `\n`;
-  }
+import { ContextEntry, InheritedContext } from "./types";
+import { getDefaultTemplates, PromptTemplateName, PromptTemplates } from "./prompt-templates";
+import { PROMPT_RENDERERS, PromptFormat } from "./prompt-renderers";
+import { isProjectMemoryEmpty, ProjectMemory } from "./project-memory";
+import { dedup, DEFAULT_DEDUP_THRESHOLD } from "./dedup";
+import {
+  estimateTokens,
+  fitToBudget,
+  summarizeCount,
+  summarizeFiles,
+  BudgetResult,
+  TrimmableField,
+} from "./prompt-budget";
+
+export interface PromptOptions {
+  /** Branch being resumed; used in the header when it has no entries yet */
+  branch?: string;
+  /** Parent branch context, shown while `entries` is empty (see inheritance.ts) */
+  inherited?: InheritedContext;
+  /** Templates to render (default: the built-in ones; see prompt-templates.ts) */
+  templates?: PromptTemplates;
+  /** How many of the latest entries approaches, decisions and blockers are merged from (default 3) */
+  mergeWindow?: number;
+  /** How alike merged items must be to count as duplicates (see dedup.ts; default 0.8) */
+  dedupThreshold?: number;
+  /** Token budget (see prompt-budget.ts); no limit if unset or 0 */
+  maxTokens?: number;
+  /** Output format (see prompt-renderers.ts); default markdown, the only one that uses `templates` */
+  format?: PromptFormat;
+  /** Repo-wide conventions, decisions and glossary, shown before the branch's context */
+  project?: ProjectMemory;
+}
 
-  if (mergedDecisions.length > 0) {
-    prompt += `### Key Decisions\n`;
-    mergedDecisions.forEach((d) => (prompt += `- ${d}\n`));
-    prompt += `\n`;
-  }
+export interface RenderedPrompt extends Omit<BudgetResult, "text"> {
+  prompt: string;
+}
 
-  prompt += `### Current State\n${latest.currentState}\n\n`;
+const DEFAULT_MERGE_WINDOW = 3;
 
-  if (latest.nextSteps.length > 0) {
-    prompt += `### Next Steps\n`;
-    latest.nextSteps.forEach((s, i) => (prompt += `${i + 1}. ${s}\n`));
-    prompt += `\n`;
-  }
+interface MergeSettings {
+  window: number;
+  threshold: number;
+}
+const HISTORY_LENGTH = 5;
+
+/** What gets cut first when the prompt is over budget; the task, branch and state are never dropped */
+const TRIM_ORDER: TrimmableField[] = [
+  { field: "history", section: "session history", keep: "first" },
+  { field: "filesChanged", section: "changed files", keep: "first", summarize: summarizeFiles },
+  { field: "filesStaged", section: "staged files", keep: "first", summarize: summarizeFiles },
+  { field: "recentCommits", section: "recent commits", keep: "first", summarize: summarizeCount },
+  { field: "project.glossary", section: "glossary", keep: "first", summarize: summarizeCount },
+  { field: "approaches", section: "approaches", keep: "last", summarize: summarizeCount },
+  { field: "blockers", section: "blockers", keep: "last", summarize: summarizeCount },
+  { field: "project.conventions", section: "conventions", keep: "first", summarize: summarizeCount },
+  { field: "decisions", section: "decisions", keep: "last", summarize: summarizeCount },
+  { field: "project.decisions", section: "project decisions", keep: "first", summarize: summarizeCount },
+  { field: "nextSteps", section: "next steps", keep: "first", summarize: summarizeCount },
+  { field: "handoffNote", section: "handoff note" },
+  { field: "author", section: "author" },
+  { field: "timeAgo", section: "last session time" },
+  { field: "repo", section: "repo name" },
+  { field: "goal", section: "goal" },
+];
 
-  if (mergedBlockers.length > 0) {
-    prompt += `### Blockers\n`;
-    mergedBlockers.forEach((b) => (prompt += `- ${b}\n`));
-    prompt += `\n`;
-  }
+/**
+ * Generate a prompt from context entries: markdown from the `context` template
+ * unless options.format asks for another shape.
+ *
+ * Uses the LATEST entry for task/state/next steps, but MERGES decisions and
+ * approaches from the last few entries (`mergeWindow`, default 3), dropping
+ * near-duplicates (`dedupThreshold`, see dedup.ts).
+ * This prevents knowledge loss when a low-quality auto-save overwrites a rich
+ * manual save — the decisions and approaches from earlier sessions survive.
+ *
+ * A branch with no entries yet but a parent with context (options.inherited)
+ * gets an "Inherited from <branch>" section instead (the `inherited` template).
+ * Project memory (options.project) comes before the branch's context in both.
+ */
+export function generatePrompt(entries: ContextEntry[], options: PromptOptions = {}): string {
+  return renderPrompt(entries, options).prompt;
+}
 
-  if (latest.filesChanged.length > 0) {
-    prompt += `### Files Changed Recently\n`;
-    latest.filesChanged.forEach((f) => (prompt += `- ${f}\n`));
-    prompt += `\n`;
+/**
+ * Like generatePrompt(), but also reports the prompt's estimated size and,
+ * with `maxTokens`, what was cut to fit.
+ */
+export function renderPrompt(entries: ContextEntry[], options: PromptOptions = {}): RenderedPrompt {
+  const templates = options.templates ?? getDefaultTemplates();
+  const merge: MergeSettings = {
+    window: options.mergeWindow ?? DEFAULT_MERGE_WINDOW,
+    threshold: options.dedupThreshold ?? DEFAULT_DEDUP_THRESHOLD,
+  };
+
+  let name: PromptTemplateName = "context";
+  let view: Record<string, unknown>;
+  if (entries.length > 0) {
+    view = { ...contextView(entries, merge), project: options.project };
+  } else if (options.inherited && options.inherited.entries.length > 0) {
+    name = "inherited";
+    view = { ...inheritedView(options.branch, options.inherited, merge), project: options.project };
+  } else {
+    const prompt = "No context found for this branch.";
+    return { prompt, tokens: estimateTokens(prompt), trimmed: [], truncated: false };
   }
 
-  if (latest.recentCommits.length > 0) {
-    prompt += `### Recent Commits\n`;
-    latest.recentCommits.forEach((c) => (prompt += `- ${c}\n`));
-    prompt += `\n`;
+  const renderer = PROMPT_RENDERERS[options.format ?? "markdown"];
+  const render = (v: Record<string, unknown>) => renderer.render(name, withoutEmptyProject(v), templates);
+  if (!options.maxTokens) {
+    const prompt = render(view);
+    return { prompt, tokens: estimateTokens(prompt), trimmed: [], truncated: false };
   }
+  const { text, ...fitted } = fitToBudget(view, render, options.maxTokens, TRIM_ORDER);
+  return { prompt: text, ...fitted };
+}
 
-  // Add history summary if multiple sessions
-  if (entries.length > 1) {
-    prompt += `### Session History (${entries.length} sessions)\n`;
-    entries
-      .slice(-5)
-      .reverse()
-      .forEach((e) => {
-        prompt += `- [${new Date(e.timestamp).toLocaleString()}] ${e.task}\n`;
-      });
-    prompt += `\n`;
-  }
+/** Unset `project` when there is no project memory (or the budget cut all of it), so `{{#if project}}` works */
+function withoutEmptyProject(view: Record<string, unknown>): Record<string, unknown> {
+  const project = view.project as ProjectMemory | undefined;
+  return project && isProjectMemoryEmpty(project) ? { ...view, project: undefined } : view;
+}
 
-  if (latest.handoffNote) {
-    prompt += `### Handoff Note\n${latest.handoffNote}\n\n`;
-  }
+/** Variables for a branch with saved context (see prompt-templates.ts) */
+function contextView(entries: ContextEntry[], merge: MergeSettings): Record<string, unknown> {
+  const latest = entries[entries.length - 1];
+  return {
+    ...latest,
+    ...mergeRecent(entries, merge),
+    timeAgo: getTimeAgo(latest.timestamp),
+    sessions: entries.length,
+    history:
+      entries.length > 1
+        ? entries
+            .slice(-HISTORY_LENGTH)
+            .reverse()
+            .map((e) => ({ ...e, date: new Date(e.timestamp).toLocaleString() }))
+        : [],
+    latest,
+    entries,
+  };
+}
 
-  return prompt;
+/**
+ * Variables for a branch with no saves yet: the parent's task and state, with
+ * its decisions and approaches marked as inherited.
+ */
+function inheritedView(
+  branch: string | undefined,
+  inherited: InheritedContext,
+  merge: MergeSettings
+): Record<string, unknown> {
+  const latest = inherited.entries[inherited.entries.length - 1];
+  const { approaches, decisions } = mergeRecent(inherited.entries, merge);
+  return {
+    repo: latest.repo,
+    branch: branch || "(current)",
+    parentBranch: inherited.branch,
+    task: latest.task,
+    goal: latest.goal,
+    currentState: latest.currentState,
+    author: latest.author,
+    timeAgo: getTimeAgo(latest.timestamp),
+    approaches,
+    decisions,
+    latest,
+    entries: inherited.entries,
+  };
 }
 
 /**
- * Deduplicate strings by lowercase comparison, preserving first occurrence's casing.
+ * Approaches, decisions and blockers merged from the last `merge.window` entries,
+ * without near-duplicates.
  */
-function dedup(items: string[]): string[] {
-  const seen = new Set<string>();
-  return items.filter((item) => {
-    const key = item.toLowerCase().trim();
-    if (!key || seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
+function mergeRecent(entries: ContextEntry[], merge: MergeSettings) {
+  const recentEntries = entries.slice(-merge.window);
+  return {
+    approaches: dedup(recentEntries.flatMap((e) => e.approaches), merge.threshold),
+    decisions: dedup(recentEntries.flatMap((e) => e.decisions), merge.threshold),
+    blockers: dedup(recentEntries.flatMap((e) => e.blockers || []), merge.threshold),
+  };
 }
 
 function getTimeAgo(timestamp: string): string {
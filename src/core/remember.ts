@@ -0,0 +1,97 @@
+import { getContextStore, getValyrianCtxDir, withStoreLock } from "./context";
+import { findEntry, shortId } from "./entry-edit";
+import { injectResumeContext } from "./resume";
+import {
+  addToProjectMemory,
+  isMemoryKind,
+  loadProjectMemory,
+  memoryFilePath,
+  MemoryKind,
+  MEMORY_KIND_NAMES,
+  ProjectMemory,
+} from "./project-memory";
+import { UsageError, ValyrianCtxError } from "./errors";
+import { ContextEntry } from "./types";
+
+/*
+ * `remember`: adding to project memory (see project-memory.ts), either
+ * directly or by promoting the decisions of a saved entry.
+ */
+
+export interface RememberInput {
+  /** Items to add */
+  items?: string[];
+  /** Instead of `items`: promote the decisions of this entry (ID or unique prefix) */
+  from?: string;
+  /** With `from`: 1-based positions of the decisions to promote (default: all) */
+  pick?: number[];
+  /** Default: decision */
+  kind?: MemoryKind;
+}
+
+export interface RememberResult {
+  kind: MemoryKind;
+  /** The kind's file, relative to the repo root */
+  file: string;
+  added: string[];
+  /** Items project memory already had */
+  skipped: string[];
+  /** The entry the items were promoted from */
+  fromEntry: string | null;
+  /** IDE rule files the refreshed context was injected into */
+  injectedRuleFiles: number;
+}
+
+export function parseMemoryKind(value: string): MemoryKind {
+  if (!isMemoryKind(value)) {
+    throw new UsageError(`Invalid kind: ${value} (expected ${MEMORY_KIND_NAMES.join(", ")})`);
+  }
+  return value;
+}
+
+/** The repo's project memory */
+export async function getProjectMemory(): Promise<ProjectMemory> {
+  return loadProjectMemory(await getValyrianCtxDir());
+}
+
+/**
+ * Add items to project memory and refresh the context injected into IDE rule
+ * files, so the next session sees them.
+ */
+export async function remember(input: RememberInput): Promise<RememberResult> {
+  const kind = input.kind ?? "decision";
+  if (input.from !== undefined && input.items?.length) {
+    throw new UsageError("Give either items to remember or an entry to promote decisions from, not both");
+  }
+  if (input.pick?.length && input.from === undefined) {
+    throw new UsageError("Picking decisions needs an entry to promote them from");
+  }
+
+  let items = input.items ?? [];
+  let source: ContextEntry | null = null;
+  if (input.from !== undefined) {
+    const entry = await findEntry(await getContextStore(), input.from);
+    if (!entry) throw new ValyrianCtxError(`No context entry with ID ${input.from}`, "ERROR");
+    source = entry;
+    items = entry.decisions;
+    if (input.pick?.length) {
+      items = input.pick.map((n) => {
+        if (!Number.isInteger(n) || n < 1 || n > entry.decisions.length) {
+          throw new UsageError(`Entry ${shortId(entry)} has no decision ${n} (it has ${entry.decisions.length})`);
+        }
+        return entry.decisions[n - 1];
+      });
+    }
+  }
+  if (source && items.length === 0) {
+    throw new ValyrianCtxError(`Entry ${shortId(source)} has no decisions to promote`, "ERROR");
+  }
+  if (items.length === 0) throw new UsageError("Nothing to remember");
+
+  const dir = await getValyrianCtxDir();
+  const added = await withStoreLock(() => addToProjectMemory(dir, kind, items));
+  const skipped = items.filter((item) => !added.includes(item.replace(/\s+/g, " ").trim()));
+  const injectedRuleFiles = added.length > 0 ? (await injectResumeContext()).injectedRuleFiles : 0;
+
+  return { kind, file: memoryFilePath(kind), added, skipped, fromEntry: source?.id ?? null, injectedRuleFiles };
+}
@@ -0,0 +1,112 @@
+import { getContextStore } from "./context";
+import { getCurrentBranch, getRepoRoot } from "./git";
+import { loadBranchContext } from "./inheritance";
+import { generatePrompt, renderPrompt, PromptOptions } from "./prompt";
+import { PromptTrim } from "./prompt-budget";
+import { PromptFormat } from "./prompt-renderers";
+import { resolvePromptOptions } from "./options";
+import { clearContextFromRules, injectContextIntoRules } from "./agent-rules";
+import { ContextEntry, InheritedContext } from "./types";
+
+export interface ResumeResult {
+  branch: string;
+  /** The branch's own entries */
+  sessions: number;
+  /** The parent branch whose context is shown while the branch has none of its own */
+  inheritedFrom: string | null;
+  /** The context prompt, or null if there is no context to resume */
+  prompt: string | null;
+  /** Estimated size of the prompt in tokens */
+  tokens: number;
+  /** Lists cut to fit the token budget */
+  trimmed: PromptTrim[];
+  /** The prompt's end was cut off to fit the token budget */
+  truncated: boolean;
+}
+
+export interface ResumeContextOptions {
+  /** Token budget; default: the `maxPromptTokens` setting (0 = no limit) */
+  maxTokens?: number;
+  /** Output format (default markdown); for injection, each IDE's own format unless given */
+  format?: PromptFormat;
+}
+
+/**
+ * The context prompt for a branch (default: the current one), as `resume`, the
+ * MCP server and the SDK hand it to an AI tool.
+ */
+export async function resumeContext(branch?: string, options: ResumeContextOptions = {}): Promise<ResumeResult> {
+  return (await loadResume(branch, options)).result;
+}
+
+/**
+ * `resume --inject`: write a branch's context into the IDE rule files (or
+ * clear it from them if there is none). Each file gets the prompt in its IDE's
+ * format, cut to its `injectTokenBudgets` budget, unless `format` or
+ * `maxTokens` is given.
+ */
+export async function injectResumeContext(
+  branch?: string,
+  options: ResumeContextOptions = {}
+): Promise<ResumeResult & { injectedRuleFiles: number }> {
+  const { result, entries, inherited } = await loadResume(branch, options);
+  if (result.prompt === null) {
+    await clearContextFromRules(await getRepoRoot());
+    return { ...result, injectedRuleFiles: 0 };
+  }
+  const injectedRuleFiles = await injectContext(entries, {
+    branch: result.branch,
+    inherited,
+    maxTokens: options.maxTokens,
+    format: options.format,
+  });
+  return { ...result, injectedRuleFiles };
+}
+
+/**
+ * Write context into every IDE rule file that takes it (see agent-rules.ts),
+ * each in its format and within its token budget. Returns how many files were
+ * written.
+ */
+export async function injectContext(
+  entries: ContextEntry[],
+  options: Pick<PromptOptions, "branch" | "inherited" | "maxTokens" | "format"> = {}
+): Promise<number> {
+  const [root, settings] = await Promise.all([getRepoRoot(), resolvePromptOptions()]);
+  // Most IDEs share a budget and format: render once per combination
+  const prompts = new Map<string, string>();
+  return injectContextIntoRules(root, (rule) => {
+    const budget = options.maxTokens ?? settings.injectTokenBudgets[rule.id] ?? settings.maxTokens;
+    const format = options.format ?? rule.contextFormat ?? "markdown";
+    const key = `${format}:${budget}`;
+    let prompt = prompts.get(key);
+    if (prompt === undefined) {
+      prompt = generatePrompt(entries, { ...settings, ...options, maxTokens: budget, format });
+      prompts.set(key, prompt);
+    }
+    return prompt;
+  });
+}
+
+async function loadResume(
+  branch: string | undefined,
+  options: ResumeContextOptions
+): Promise<{ result: ResumeResult; entries: ContextEntry[]; inherited?: InheritedContext }> {
+  const store = await getContextStore();
+  const target = branch || (await getCurrentBranch());
+  const { entries, inherited } = await loadBranchContext(store, target);
+  const base = { branch: target, sessions: entries.length, inheritedFrom: inherited?.branch ?? null };
+
+  if (entries.length === 0 && !inherited) {
+    return { result: { ...base, prompt: null, tokens: 0, trimmed: [], truncated: false }, entries };
+  }
+  const settings = await resolvePromptOptions();
+  const { prompt, tokens, trimmed, truncated } = renderPrompt(entries, {
+    ...settings,
+    branch: target,
+    inherited,
+    maxTokens: options.maxTokens ?? settings.maxTokens,
+    format: options.format,
+  });
+  return { result: { ...base, prompt, tokens, trimmed, truncated }, entries, inherited };
+}
@@ -0,0 +1,77 @@
+import { collectGarbage, selectExpired, RetentionPolicy } from "./retention";
+import { createMemoryContextStore } from "./memory-store";
+import { getEntrySource } from "./source";
+import { ContextEntry, EntrySource } from "./types";
+import { makeEntry } from "./test-fixtures";
+
+const NOW = Date.UTC(2025, 5, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+const aged = (id: string, daysAgo: number, source: EntrySource) =>
+    makeEntry(id, { timestamp: new Date(NOW - daysAgo * DAY).toISOString(), source });
+
+const policy = (overrides: Partial<RetentionPolicy>): RetentionPolicy => ({
+    maxAgeDays: 0,
+    maxEntries: 0,
+    keepManual: true,
+    ...overrides,
+});
+
+const ids = (entries: ContextEntry[]) => entries.map((e) => e.id);
+
+describe("Retention", () => {
+    const entries = [
+        aged("m1", 40, "manual"),
+        aged("a1", 35, "auto"),
+        aged("a2", 20, "auto"),
+        aged("ai1", 10, "ai"),
+        aged("a3", 5, "auto"),
+        aged("a4", 50, "auto"), // out of order on purpose: still not the latest
+        aged("a5", 1, "auto"),
+    ].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    it("should remove only auto-saves older than the max age by default", () => {
+        expect(ids(selectExpired(entries, policy({ maxAgeDays: 30 }), NOW))).toEqual(["a4", "a1"]);
+    });
+
+    it("should remove manual saves too when keepManual is off", () => {
+        expect(ids(selectExpired(entries, policy({ maxAgeDays: 30, keepManual: false }), NOW))).toEqual([
+            "a4",
+            "m1",
+            "a1",
+        ]);
+    });
+
+    it("should trim the oldest removable entries down to the max count", () => {
+        expect(ids(selectExpired(entries, policy({ maxEntries: 4 }), NOW))).toEqual(["a4", "a1", "a2"]);
+        // Only 5 auto-saves exist and the newest is kept: manual/AI entries keep the branch above the limit
+        expect(ids(selectExpired(entries, policy({ maxEntries: 1 }), NOW))).toEqual(["a4", "a1", "a2", "a3"]);
+    });
+
+    it("should never remove the newest entry", () => {
+        const single = [aged("old", 400, "auto")];
+        expect(selectExpired(single, policy({ maxAgeDays: 1, maxEntries: 1, keepManual: false }), NOW)).toEqual([]);
+    });
+
+    it("should classify legacy entries without a source by their task", () => {
+        expect(getEntrySource(makeEntry("x", { task: "[auto-idle] Session idle after 3 tool calls" }))).toBe("auto");
+        expect(getEntrySource(makeEntry("x", { task: "Auto-saved on commit: fix" }))).toBe("auto");
+        expect(getEntrySource(makeEntry("x", { task: "Refactor auth" }))).toBe("manual");
+    });
+
+    it("should report without removing in a dry run, then remove", async () => {
+        const store = createMemoryContextStore([
+            aged("m1", 3, "manual"),
+            aged("a1", 2, "auto"),
+            aged("a2", 1, "auto"),
+        ]);
+
+        const dryRun = await collectGarbage(store, policy({ maxEntries: 2 }), { dryRun: true });
+        expect(dryRun.map((r) => [r.branch, ids(r.removed), r.remaining])).toEqual([["main", ["a1"], 2]]);
+        expect(ids(await store.loadBranch("main"))).toEqual(["m1", "a1", "a2"]);
+
+        await collectGarbage(store, policy({ maxEntries: 2 }));
+        expect(ids(await store.loadBranch("main"))).toEqual(["m1", "a2"]);
+        expect(ids(await store.loadAll())).not.toContain("a1");
+    });
+});
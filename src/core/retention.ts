@@ -0,0 +1,125 @@
+import { ContextEntry } from "./types";
+import { ContextStore } from "./store";
+import { getEntrySource } from "./source";
+
+/**
+ * Retention policy: how `valyrianctx gc` (and, with `autoGc`, every save)
+ * trims branch history. Watch mode and the git hooks save often, so without a
+ * policy `.valyrianctx/` only ever grows.
+ *
+ * The newest entry of a branch is never removed, so `resume` always has
+ * something to show.
+ */
+export interface RetentionPolicy {
+  /** Remove entries older than this many days (0 = no age limit) */
+  maxAgeDays: number;
+  /** Keep at most this many entries per branch (0 = no limit) */
+  maxEntries: number;
+  /** Only remove auto-saves; manual and AI-written entries are always kept */
+  keepManual: boolean;
+}
+
+export interface GcResult {
+  branch: string;
+  /** Entries removed (or, in a dry run, that would be), oldest first */
+  removed: ContextEntry[];
+  /** Entries left on the branch */
+  remaining: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function hasRetentionLimits(policy: RetentionPolicy): boolean {
+  return policy.maxAgeDays > 0 || policy.maxEntries > 0;
+}
+
+/**
+ * The entries of one branch (oldest first) that `policy` removes. Age is
+ * applied first; the entry limit then removes the oldest removable entries
+ * until the branch fits, or nothing removable is left.
+ */
+export function selectExpired(
+  entries: ContextEntry[],
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): ContextEntry[] {
+  if (entries.length <= 1 || !hasRetentionLimits(policy)) return [];
+
+  const latest = entries[entries.length - 1];
+  const removable = (e: ContextEntry) =>
+    e !== latest && (!policy.keepManual || getEntrySource(e) === "auto");
+  const expired = new Set<string>();
+
+  if (policy.maxAgeDays > 0) {
+    const cutoff = now - policy.maxAgeDays * DAY_MS;
+    for (const e of entries) {
+      if (removable(e) && new Date(e.timestamp).getTime() < cutoff) expired.add(e.id);
+    }
+  }
+
+  if (policy.maxEntries > 0) {
+    let remaining = entries.length - expired.size;
+    for (const e of entries) {
+      if (remaining <= policy.maxEntries) break;
+      if (expired.has(e.id) || !removable(e)) continue;
+      expired.add(e.id);
+      remaining--;
+    }
+  }
+
+  return entries.filter((e) => expired.has(e.id));
+}
+
+/**
+ * Apply `policy` to some branches (default: every branch with context).
+ * With `dryRun`, nothing is written.
+ */
+export async function collectGarbage(
+  store: ContextStore,
+  policy: RetentionPolicy,
+  options: { branches?: string[]; dryRun?: boolean } = {}
+): Promise<GcResult[]> {
+  const branches = options.branches ?? (await store.listBranches());
+  const results: GcResult[] = [];
+
+  for (const branch of branches) {
+    const entries = await store.loadBranch(branch);
+    let removed = selectExpired(entries, policy);
+
+    if (removed.length === 0 || options.dryRun) {
+      results.push({ branch, removed, remaining: entries.length - removed.length });
+      continue;
+    }
+
+    // Re-select inside the update so entries saved meanwhile are judged too
+    const next = await store.updateBranch(
+      branch,
+      (current) => {
+        removed = selectExpired(current, policy);
+        const ids = new Set(removed.map((e) => e.id));
+        return current.filter((e) => !ids.has(e.id));
+      },
+      { prune: true }
+    );
+    results.push({ branch, removed, remaining: next.length });
+  }
+
+  return results;
+}
+
+/**
+ * Wrap a store so every save is followed by gc of the saved branch (the
+ * `autoGc` setting). A failed gc never fails the save.
+ */
+export function withRetention(store: ContextStore, policy: RetentionPolicy): ContextStore {
+  if (!hasRetentionLimits(policy)) return store;
+
+  return {
+    ...store,
+    async save(entry) {
+      const savedTo = await store.save(entry);
+      await collectGarbage(store, policy, { branches: [entry.branch] }).catch(() => undefined);
+      return savedTo;
+    },
+  };
+}
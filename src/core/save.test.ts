@@ -0,0 +1,109 @@
+import { createEntry, saveContext } from "./save";
+import { setContextStore } from "./context";
+import { createMemoryContextStore } from "./memory-store";
+import { extractFromEditorSessions } from "./parser";
+import { UsageError } from "./errors";
+import { ContextEntry } from "./types";
+import { makeEntry } from "./test-fixtures";
+
+jest.mock("./git", () => ({
+    getCurrentBranch: jest.fn(async () => "feature/x"),
+    getRepoName: jest.fn(async () => "repo"),
+    getRepoRoot: jest.fn(async () => "/nonexistent/repo"),
+    getAuthor: jest.fn(async () => "dev"),
+    getChangedFiles: jest.fn(async () => ["src/a.ts"]),
+    getStagedFiles: jest.fn(async () => []),
+    getRecentCommits: jest.fn(async () => ["abc123 Add a"]),
+}));
+
+jest.mock("./parser", () => ({
+    extractFromEditorSessions: jest.fn(),
+}));
+
+jest.mock("./agent-rules", () => ({
+    injectContextIntoRules: jest.fn(async () => 2),
+}));
+
+const extract = extractFromEditorSessions as jest.MockedFunction<typeof extractFromEditorSessions>;
+
+function richEntry(minutesAgo: number): ContextEntry {
+    return makeEntry("rich", {
+        timestamp: new Date(Date.now() - minutesAgo * 60 * 1000).toISOString(),
+        branch: "feature/x",
+        task: "Structured save",
+        approaches: ["Tried polling"],
+    });
+}
+
+afterEach(() => {
+    setContextStore(null);
+    extract.mockReset();
+});
+
+describe("createEntry", () => {
+    it("should fill in the branch, author and git state", async () => {
+        const entry = await createEntry({ task: "Add a", blockers: [] });
+
+        expect(entry).toMatchObject({
+            branch: "feature/x",
+            repo: "repo",
+            author: "dev",
+            task: "Add a",
+            currentState: "Add a",
+            approaches: [],
+            filesChanged: ["src/a.ts"],
+            recentCommits: ["abc123 Add a"],
+            source: "manual",
+        });
+        expect(entry.blockers).toBeUndefined();
+    });
+});
+
+describe("saveContext", () => {
+    it("should save the entry and report the injected rule files", async () => {
+        const store = createMemoryContextStore();
+        setContextStore(store);
+
+        const result = await saveContext({ task: "Add a", decisions: ["Use zod"] });
+
+        expect(result).toMatchObject({ saved: true, savedTo: expect.stringMatching(/^memory:/), injectedRuleFiles: 2 });
+        expect(await store.loadBranch("feature/x")).toHaveLength(1);
+    });
+
+    it("should require a task unless auto-extracting", async () => {
+        setContextStore(createMemoryContextStore());
+        await expect(saveContext({ goal: "ENG-1" })).rejects.toBeInstanceOf(UsageError);
+    });
+
+    it("should not let an auto-save supersede a recent structured save", async () => {
+        setContextStore(createMemoryContextStore([richEntry(1)]));
+
+        expect(await saveContext({ auto: true })).toEqual({
+            saved: false,
+            branch: "feature/x",
+            reason: "recent-structured-save",
+        });
+        expect(extract).not.toHaveBeenCalled();
+    });
+
+    it("should fill an auto-save from editor sessions", async () => {
+        setContextStore(createMemoryContextStore([richEntry(30)]));
+        extract.mockResolvedValue({
+            task: "Refactor the parser",
+            approaches: [],
+            decisions: ["Keep readline"],
+            currentState: "Half done",
+            nextSteps: [],
+            blockers: [],
+            source: "cursor-rules",
+        });
+
+        const result = await saveContext({ auto: true });
+
+        expect(result).toMatchObject({
+            saved: true,
+            extractedFrom: "cursor-rules",
+            entry: { task: "Refactor the parser", decisions: ["Keep readline"], source: "auto" },
+        });
+    });
+});
@@ -0,0 +1,143 @@
+import { v4 as uuid } from "uuid";
+import { getContextStore } from "./context";
+import { getAuthor, getCurrentBranch, getRepoName, getRepoRoot } from "./git";
+import { captureGitState } from "./options";
+import { extractFromEditorSessions } from "./parser";
+import { injectContext } from "./resume";
+import { UsageError } from "./errors";
+import { ContextEntry, EntrySource } from "./types";
+
+/*
+ * Saving context: the one path the CLI (save, handoff, summarize), the MCP
+ * server and the SDK share, so an entry means the same thing however it got in.
+ */
+
+/** What the caller knows about the session; the git state is captured on save */
+export interface EntryInput {
+  task: string;
+  goal?: string;
+  approaches?: string[];
+  decisions?: string[];
+  /** Defaults to the task */
+  currentState?: string;
+  nextSteps?: string[];
+  blockers?: string[];
+  assignee?: string;
+  handoffNote?: string;
+  /** Default: manual */
+  source?: EntrySource;
+}
+
+export interface SaveInput extends Omit<EntryInput, "task"> {
+  /** Required unless `auto` is set */
+  task?: string;
+  /**
+   * Fill in the entry from AI editor session data (see core/parser.ts) and
+   * save it as an auto-save. Skipped if a structured save was made in the
+   * last few minutes, so a hook can't bury a better entry.
+   */
+  auto?: boolean;
+}
+
+export type SaveResult =
+  | {
+      saved: true;
+      entry: ContextEntry;
+      /** Where the store wrote the entry (a session file, or the git note's commit) */
+      savedTo: string;
+      /** IDE rule files the new context was injected into */
+      injectedRuleFiles: number;
+      /** With `auto`: the editor the context was extracted from, if any */
+      extractedFrom?: string;
+    }
+  | { saved: false; branch: string; reason: "recent-structured-save" };
+
+/** How long a structured save is protected from being superseded by an auto-save */
+const AUTO_SAVE_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * A new context entry for the current branch: the given fields plus the repo,
+ * author and git state (changed files, recent commits).
+ */
+export async function createEntry(input: EntryInput): Promise<ContextEntry> {
+  const [branch, repo, { filesChanged, filesStaged, recentCommits }, author] = await Promise.all([
+    getCurrentBranch(),
+    getRepoName(),
+    captureGitState(),
+    getAuthor(),
+  ]);
+
+  return {
+    id: uuid(),
+    timestamp: new Date().toISOString(),
+    branch,
+    repo,
+    author,
+    task: input.task,
+    goal: input.goal,
+    approaches: input.approaches ?? [],
+    decisions: input.decisions ?? [],
+    currentState: input.currentState ?? input.task,
+    nextSteps: input.nextSteps ?? [],
+    blockers: input.blockers && input.blockers.length > 0 ? input.blockers : undefined,
+    filesChanged,
+    filesStaged,
+    recentCommits,
+    assignee: input.assignee,
+    handoffNote: input.handoffNote,
+    source: input.source ?? "manual",
+  };
+}
+
+/**
+ * Save context for the current branch, then refresh the context injected into
+ * IDE rule files (the "living context" mechanism; best-effort).
+ */
+export async function saveContext(input: SaveInput): Promise<SaveResult> {
+  const store = await getContextStore();
+  let fields: EntryInput;
+  let extractedFrom: string | undefined;
+
+  if (input.auto) {
+    // Don't let an auto-save (post-commit hook, idle save) supersede a rich
+    // manual save made moments ago: resume shows the latest entry
+    const branch = await getCurrentBranch();
+    const [latest] = await store.loadBranch(branch, { limit: 1 });
+    if (latest) {
+      const ageMs = Date.now() - new Date(latest.timestamp).getTime();
+      const isRichSave = latest.approaches.length > 0 || latest.decisions.length > 0;
+      if (isRichSave && ageMs < AUTO_SAVE_GRACE_MS) {
+        return { saved: false, branch, reason: "recent-structured-save" };
+      }
+    }
+
+    const extracted = await extractFromEditorSessions(await getRepoRoot());
+    if (extracted) {
+      const { source: editor, ...found } = extracted;
+      extractedFrom = editor;
+      fields = { ...input, ...found, task: input.task || found.task };
+    } else {
+      fields = {
+        ...input,
+        task: input.task || "Session (auto-extract found nothing)",
+        currentState: input.currentState ?? input.task ?? "",
+      };
+    }
+    fields.source = input.source ?? "auto";
+  } else {
+    if (!input.task) throw new UsageError("A task description is required to save context.");
+    fields = { ...input, task: input.task };
+  }
+
+  const entry = await createEntry(fields);
+  const savedTo = await store.save(entry);
+
+  let injectedRuleFiles = 0;
+  try {
+    injectedRuleFiles = await injectContext(await store.loadBranch(entry.branch));
+  } catch {
+    // Non-fatal — injection is best-effort
+  }
+
+  return { saved: true, entry, savedTo, injectedRuleFiles, extractedFrom };
+}
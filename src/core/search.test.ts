@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { highlightParts, loadSearchIndex, parseQuery, searchEntries } from "./search";
+import { ContextEntry } from "./types";
+import { makeEntry } from "./test-fixtures";
+
+const TEST_DIR = path.join(os.tmpdir(), `valyrianctx-search-${Date.now()}`);
+
+const onDay = (day: number) => new Date(Date.UTC(2025, 0, day)).toISOString();
+
+const entries = [
+    makeEntry("queue", {
+        timestamp: onDay(1),
+        task: "Move jobs to Redis streams",
+        branch: "feature/queue",
+        author: "Alice",
+        decisions: ["Use Redis streams over pub/sub for replay"],
+    }),
+    makeEntry("cache", {
+        timestamp: onDay(2),
+        task: "Cache sessions",
+        author: "Bob",
+        approaches: ["Tried Redis as a session cache, too slow to warm"],
+    }),
+    makeEntry("auth", {
+        timestamp: onDay(3), task: "Refactor auth", currentState: "Streaming login events", author: "Alice" }),
+];
+
+const ids = (results: { entry: ContextEntry }[]) => results.map((r) => r.entry.id);
+
+beforeAll(() => {
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("Search", () => {
+    it("should require every term and rank task and decision matches first", () => {
+        expect(ids(searchEntries(entries, "redis"))).toEqual(["queue", "cache"]);
+        expect(ids(searchEntries(entries, "redis streams"))).toEqual(["queue"]);
+        expect(ids(searchEntries(entries, "kafka"))).toEqual([]);
+    });
+
+    it("should match word prefixes and report the matching items", () => {
+        const [first, second] = searchEntries(entries, "stream");
+        expect([first.entry.id, second.entry.id]).toEqual(["queue", "auth"]);
+        expect(first.matches.map((m) => m.field)).toEqual(["task", "decisions"]);
+        expect(second.matches).toEqual([{ field: "currentState", text: "Streaming login events" }]);
+    });
+
+    it("should apply author, branch and date filters and quoted phrases", () => {
+        expect(ids(searchEntries(entries, "redis", { filters: { author: "bob" } }))).toEqual(["cache"]);
+        expect(ids(searchEntries(entries, "redis", { filters: { branch: "feature/queue" } }))).toEqual(["queue"]);
+        expect(ids(searchEntries(entries, "redis", { filters: { since: new Date(Date.UTC(2025, 0, 2)) } }))).toEqual([
+            "cache",
+        ]);
+        expect(ids(searchEntries(entries, '"session cache"'))).toEqual(["cache"]);
+    });
+
+    it("should keep the on-disk index in step with edited and removed entries", () => {
+        const index = loadSearchIndex(TEST_DIR, entries);
+        expect(Object.keys(index.entries).sort()).toEqual(["auth", "cache", "queue"]);
+        expect(fs.existsSync(path.join(TEST_DIR, "search.idx"))).toBe(true);
+
+        const edited = [{ ...entries[1], approaches: ["Memcached"] }, entries[2]];
+        const refreshed = loadSearchIndex(TEST_DIR, edited);
+        expect(Object.keys(refreshed.entries).sort()).toEqual(["auth", "cache"]);
+        expect(ids(searchEntries(edited, "memcached", { index: refreshed }))).toEqual(["cache"]);
+        expect(ids(searchEntries(edited, "redis", { index: refreshed }))).toEqual([]);
+    });
+
+    it("should split text into highlighted parts", () => {
+        const parts = highlightParts("Use Redis streams, not redistribution", parseQuery("redis"));
+        expect(parts.filter((p) => p.match).map((p) => p.text)).toEqual(["Redis", "redistribution"]);
+        expect(parts.map((p) => p.text).join("")).toBe("Use Redis streams, not redistribution");
+    });
+});
@@ -0,0 +1,260 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { ContextEntry } from "./types";
+import { EntryFilters, matchesFilters } from "./entry-filter";
+import { writeFileAtomic } from "../utils/fs-safe";
+
+/*
+ * Full-text search over context entries.
+ *
+ * Entries are tokenized into a per-entry term table kept in
+ * `.valyrianctx/search.idx` (local-only, rebuilt on demand). Each search
+ * re-tokenizes only entries that were added or edited since the last one, so
+ * the cost of a search stays close to reading the entries.
+ *
+ * Every query term must match (as a word or the start of one); results are
+ * ranked by a tf-idf score weighted by field, with recency as the tiebreak.
+ * Quoted phrases must also appear verbatim.
+ */
+
+export type SearchField =
+  | "task"
+  | "approaches"
+  | "decisions"
+  | "currentState"
+  | "nextSteps"
+  | "blockers"
+  | "handoffNote";
+
+/** How much a match in each field counts: the task and decisions say most about an entry */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  task: 3,
+  decisions: 2,
+  approaches: 2,
+  blockers: 1.5,
+  handoffNote: 1.5,
+  currentState: 1,
+  nextSteps: 1,
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+export interface SearchMatch {
+  field: SearchField;
+  /** The matching list item or text */
+  text: string;
+}
+
+export interface SearchResult {
+  entry: ContextEntry;
+  score: number;
+  matches: SearchMatch[];
+}
+
+export interface ParsedQuery {
+  /** Lower-cased terms, each of which must match */
+  terms: string[];
+  /** Quoted phrases, lower-cased */
+  phrases: string[];
+}
+
+interface IndexedEntry {
+  hash: string;
+  /** term -> field -> occurrences */
+  terms: Record<string, Partial<Record<SearchField, number>>>;
+}
+
+export interface SearchIndex {
+  version: number;
+  entries: Record<string, IndexedEntry>;
+}
+
+const INDEX_VERSION = 1;
+const INDEX_FILE = "search.idx";
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const phrases = Array.from(query.matchAll(/"([^"]+)"/g), (m) => m[1].toLowerCase().trim()).filter(Boolean);
+  return { terms: Array.from(new Set(tokenize(query))), phrases };
+}
+
+function fieldTexts(entry: ContextEntry, field: SearchField): string[] {
+  const value = entry[field];
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function hashEntry(entry: ContextEntry): string {
+  return crypto.createHash("sha1").update(JSON.stringify(entry)).digest("hex");
+}
+
+function indexEntry(entry: ContextEntry): IndexedEntry {
+  const terms: IndexedEntry["terms"] = {};
+  for (const field of SEARCH_FIELDS) {
+    for (const text of fieldTexts(entry, field)) {
+      for (const term of tokenize(text)) {
+        const counts = (terms[term] ??= {});
+        counts[field] = (counts[field] ?? 0) + 1;
+      }
+    }
+  }
+  return { hash: hashEntry(entry), terms };
+}
+
+/**
+ * Bring an index up to date with `entries`: new and edited entries are
+ * (re)tokenized, removed ones dropped. Returns whether anything changed.
+ */
+export function updateSearchIndex(index: SearchIndex, entries: ContextEntry[]): boolean {
+  let changed = false;
+  const current = new Set<string>();
+
+  for (const entry of entries) {
+    current.add(entry.id);
+    const hash = hashEntry(entry);
+    if (index.entries[entry.id]?.hash === hash) continue;
+    index.entries[entry.id] = indexEntry(entry);
+    changed = true;
+  }
+
+  for (const id of Object.keys(index.entries)) {
+    if (current.has(id)) continue;
+    delete index.entries[id];
+    changed = true;
+  }
+  return changed;
+}
+
+export function createSearchIndex(): SearchIndex {
+  return { version: INDEX_VERSION, entries: {} };
+}
+
+/**
+ * The search index for a store directory, refreshed against `entries` (and
+ * saved back if it changed). A missing or unreadable index is rebuilt.
+ */
+export function loadSearchIndex(dir: string, entries: ContextEntry[]): SearchIndex {
+  const indexPath = path.join(dir, INDEX_FILE);
+  let index = createSearchIndex();
+  try {
+    const stored = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+    if (stored?.version === INDEX_VERSION && stored.entries) index = stored;
+  } catch {
+    // Missing or corrupt: it's derived data, rebuild it
+  }
+
+  if (updateSearchIndex(index, entries) && fs.existsSync(dir)) {
+    writeFileAtomic(indexPath, JSON.stringify(index));
+  }
+  return index;
+}
+
+/**
+ * Search entries. `index` must be up to date with `entries`; without one, a
+ * throwaway index is built. Results are best first; `limit` 0 means all.
+ */
+export function searchEntries(
+  entries: ContextEntry[],
+  query: string,
+  options: { filters?: EntryFilters; limit?: number; index?: SearchIndex } = {}
+): SearchResult[] {
+  const { terms, phrases } = parseQuery(query);
+  if (terms.length === 0) return [];
+
+  const index = options.index ?? createSearchIndex();
+  if (!options.index) updateSearchIndex(index, entries);
+
+  const candidates = entries.filter((e) => matchesFilters(e, options.filters ?? {}));
+  const vocabulary = new Set(candidates.flatMap((e) => Object.keys(index.entries[e.id]?.terms ?? {})));
+  const expansions = new Map(terms.map((t) => [t, Array.from(vocabulary).filter((v) => v.startsWith(t))]));
+
+  // Document frequency of each query term (any of its expansions) among the candidates
+  const docFrequency = new Map<string, number>();
+  for (const entry of candidates) {
+    const entryTerms = index.entries[entry.id]?.terms ?? {};
+    for (const term of terms) {
+      if (expansions.get(term)!.some((v) => entryTerms[v])) {
+        docFrequency.set(term, (docFrequency.get(term) ?? 0) + 1);
+      }
+    }
+  }
+
+  const results: SearchResult[] = [];
+  for (const entry of candidates) {
+    const entryTerms = index.entries[entry.id]?.terms ?? {};
+    let score = 0;
+    let matchedAll = true;
+
+    for (const term of terms) {
+      const idf = Math.log(1 + candidates.length / (docFrequency.get(term) ?? 1));
+      let termScore = 0;
+      for (const variant of expansions.get(term)!) {
+        const counts = entryTerms[variant];
+        if (!counts) continue;
+        // A whole-word match counts for more than a prefix match
+        const exactness = variant === term ? 1 : 0.6;
+        for (const [field, count] of Object.entries(counts) as [SearchField, number][]) {
+          termScore += exactness * FIELD_WEIGHTS[field] * (count / (count + 1));
+        }
+      }
+      if (termScore === 0) {
+        matchedAll = false;
+        break;
+      }
+      score += idf * termScore;
+    }
+    if (!matchedAll) continue;
+
+    const matches = findMatches(entry, terms, phrases);
+    if (phrases.length > 0 && !phrases.every((p) => matches.some((m) => m.text.toLowerCase().includes(p)))) {
+      continue;
+    }
+    results.push({ entry, score, matches });
+  }
+
+  results.sort((a, b) => b.score - a.score || b.entry.timestamp.localeCompare(a.entry.timestamp));
+  return options.limit ? results.slice(0, options.limit) : results;
+}
+
+/** The list items / texts that contain a query term or phrase, in field order */
+function findMatches(entry: ContextEntry, terms: string[], phrases: string[]): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  for (const field of SEARCH_FIELDS) {
+    for (const text of fieldTexts(entry, field)) {
+      const words = tokenize(text);
+      const lower = text.toLowerCase();
+      if (terms.some((t) => words.some((w) => w.startsWith(t))) || phrases.some((p) => lower.includes(p))) {
+        matches.push({ field, text });
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * Split text into plain and matching parts for highlighting: words starting
+ * with a query term, and quoted phrases.
+ */
+export function highlightParts(text: string, query: ParsedQuery): { text: string; match: boolean }[] {
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const patterns = [
+    ...query.phrases.map(escape),
+    ...query.terms.map((t) => `(?<![\\p{L}\\p{N}])${escape(t)}[\\p{L}\\p{N}]*`),
+  ];
+  if (patterns.length === 0) return [{ text, match: false }];
+
+  const regex = new RegExp(patterns.join("|"), "giu");
+  const parts: { text: string; match: boolean }[] = [];
+  let last = 0;
+  for (const m of text.matchAll(regex)) {
+    if (m.index! > last) parts.push({ text: text.slice(last, m.index), match: false });
+    parts.push({ text: m[0], match: true });
+    last = m.index! + m[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
@@ -0,0 +1,70 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import {
+    writeSession,
+    readAllSessions,
+    readSessionIndex,
+    hasLegacySessions,
+    migrateLegacySessions,
+    sessionFileName,
+} from "./session-store";
+import { makeEntry } from "./test-fixtures";
+
+const TEST_DIR = path.join(os.tmpdir(), `valyrianctx-sessions-${Date.now()}`);
+
+beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("Session Store", () => {
+    it("should keep two saves made in the same minute", () => {
+        writeSession(TEST_DIR, makeEntry("a", { timestamp: "2025-01-15T10:30:01.000Z" }));
+        writeSession(TEST_DIR, makeEntry("b", { timestamp: "2025-01-15T10:30:45.000Z" }));
+
+        const ids = readAllSessions(TEST_DIR).map((e) => e.id);
+        expect(ids).toEqual(["b", "a"]);
+    });
+
+    it("should name files with a sortable timestamp prefix and the entry ID", () => {
+        const name = sessionFileName(makeEntry("abc", { timestamp: "2025-01-15T10:30:01.123Z" }));
+        expect(name).toBe("2025-01-15T10-30-01-123Z_abc.json");
+    });
+
+    it("should read only the newest N sessions", () => {
+        writeSession(TEST_DIR, makeEntry("a", { timestamp: "2025-01-15T10:00:00.000Z" }));
+        writeSession(TEST_DIR, makeEntry("b", { timestamp: "2025-01-15T11:00:00.000Z" }));
+        writeSession(TEST_DIR, makeEntry("c", { timestamp: "2025-01-15T12:00:00.000Z" }));
+
+        expect(readAllSessions(TEST_DIR, { limit: 2 }).map((e) => e.id)).toEqual(["c", "b"]);
+    });
+
+    it("should index session files it didn't write", () => {
+        writeSession(TEST_DIR, makeEntry("a", { timestamp: "2025-01-15T10:00:00.000Z" }));
+        const pulled = makeEntry("b", { timestamp: "2025-01-15T11:00:00.000Z", branch: "feature/x" });
+        fs.writeFileSync(path.join(TEST_DIR, sessionFileName(pulled)), JSON.stringify(pulled));
+
+        const index = readSessionIndex(TEST_DIR);
+        expect(index.map((s) => s.id)).toEqual(["a", "b"]);
+        expect(index[1].branch).toBe("feature/x");
+    });
+
+    it("should migrate legacy minute-precision files and recover clobbered entries", () => {
+        // Entry "a" was overwritten by "b" under the old layout; both are in branch history
+        const a = makeEntry("a", { timestamp: "2025-01-15T10:30:01.000Z" });
+        const b = makeEntry("b", { timestamp: "2025-01-15T10:30:45.000Z" });
+        fs.writeFileSync(path.join(TEST_DIR, "2025-01-15T10-30.json"), JSON.stringify(b));
+
+        expect(hasLegacySessions(TEST_DIR)).toBe(true);
+        const result = migrateLegacySessions(TEST_DIR, [a, b]);
+
+        expect(result).toEqual({ renamed: 1, recovered: 1 });
+        expect(hasLegacySessions(TEST_DIR)).toBe(false);
+        expect(readAllSessions(TEST_DIR).map((e) => e.id)).toEqual(["b", "a"]);
+    });
+});
@@ -0,0 +1,189 @@
+import fs from "fs";
+import path from "path";
+import { ContextEntry } from "./types";
+import { StoreCorruptError } from "./store";
+import { writeFileAtomic } from "../utils/fs-safe";
+
+/**
+ * Session storage.
+ *
+ * Every saved entry is also written to `sessions/<timestamp>_<id>.json`. The
+ * timestamp prefix keeps files sortable by name, and the entry ID makes every
+ * name unique, so two saves in the same minute can't overwrite each other.
+ *
+ * `sessions/index.json` lists every session (id, file, timestamp, branch) so
+ * readers can sort and pick the newest N without parsing every file. Like the
+ * branch log index it is derived data: files it doesn't know about (pulled from
+ * a teammate, restored by hand) are picked up incrementally on the next read.
+ */
+
+export interface SessionIndexEntry {
+  id: string;
+  file: string;
+  timestamp: string;
+  branch: string;
+}
+
+const INDEX_FILE = "index.json";
+
+/** Pre-0.7 names: minute precision, e.g. `2025-01-15T10-30.json` */
+const LEGACY_NAME = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}\.json$/;
+
+export function sessionFileName(entry: ContextEntry): string {
+  const prefix = new Date(entry.timestamp).toISOString().replace(/[:.]/g, "-");
+  return `${prefix}_${entry.id}.json`;
+}
+
+/**
+ * Write a session file and record it in the index. Returns the file path.
+ */
+export function writeSession(sessionsDir: string, entry: ContextEntry): string {
+  const file = sessionFileName(entry);
+  const filePath = path.join(sessionsDir, file);
+  writeFileAtomic(filePath, JSON.stringify(entry, null, 2));
+
+  const index = readSessionIndex(sessionsDir).filter((s) => s.file !== file);
+  index.push({ id: entry.id, file, timestamp: entry.timestamp, branch: entry.branch });
+  saveIndex(sessionsDir, index);
+
+  return filePath;
+}
+
+/**
+ * Read the session index, oldest first, refreshing it against the directory.
+ */
+export function readSessionIndex(sessionsDir: string): SessionIndexEntry[] {
+  if (!fs.existsSync(sessionsDir)) return [];
+
+  const files = fs
+    .readdirSync(sessionsDir)
+    .filter((f) => f.endsWith(".json") && f !== INDEX_FILE);
+  const onDisk = new Set(files);
+
+  const stored = loadIndex(sessionsDir);
+  const known = new Map(stored.filter((s) => onDisk.has(s.file)).map((s) => [s.file, s]));
+  let changed = known.size !== stored.length;
+
+  for (const file of files) {
+    if (known.has(file)) continue;
+    const entry = readSessionFile(sessionsDir, file);
+    known.set(file, { id: entry.id, file, timestamp: entry.timestamp, branch: entry.branch });
+    changed = true;
+  }
+
+  const index = sortIndex(Array.from(known.values()));
+  if (changed) saveIndex(sessionsDir, index);
+  return index;
+}
+
+/**
+ * Read sessions, newest first. With `limit`, only the newest N files are read.
+ */
+export function readAllSessions(sessionsDir: string, options: { limit?: number } = {}): ContextEntry[] {
+  const index = readSessionIndex(sessionsDir).reverse();
+  const selected = options.limit !== undefined ? index.slice(0, options.limit) : index;
+  return selected.map((s) => readSessionFile(sessionsDir, s.file));
+}
+
+/**
+ * Delete the session file for an entry ID. Returns false if there is none.
+ */
+export function deleteSession(sessionsDir: string, id: string): boolean {
+  return deleteSessions(sessionsDir, [id]) > 0;
+}
+
+/**
+ * Delete the session files for several entry IDs in one index update.
+ * Returns how many entries had a session file.
+ */
+export function deleteSessions(sessionsDir: string, ids: string[]): number {
+  if (ids.length === 0) return 0;
+  const remove = new Set(ids);
+  const index = readSessionIndex(sessionsDir);
+  const matches = index.filter((s) => remove.has(s.id));
+  if (matches.length === 0) return 0;
+
+  for (const s of matches) fs.rmSync(path.join(sessionsDir, s.file), { force: true });
+  saveIndex(sessionsDir, index.filter((s) => !remove.has(s.id)));
+  return new Set(matches.map((s) => s.id)).size;
+}
+
+/**
+ * True if the directory still has minute-precision session files.
+ */
+export function hasLegacySessions(sessionsDir: string): boolean {
+  return listLegacySessions(sessionsDir).length > 0;
+}
+
+export function listLegacySessions(sessionsDir: string): string[] {
+  if (!fs.existsSync(sessionsDir)) return [];
+  return fs.readdirSync(sessionsDir).filter((f) => LEGACY_NAME.test(f));
+}
+
+/**
+ * Move minute-precision session files to the `<timestamp>_<id>.json` layout.
+ *
+ * Saves that landed in the same minute overwrote each other under the old
+ * layout, but every entry was also appended to its branch history — so any
+ * entry in `branchEntries` without a session file is recovered from there.
+ */
+export function migrateLegacySessions(
+  sessionsDir: string,
+  branchEntries: ContextEntry[]
+): { renamed: number; recovered: number } {
+  fs.mkdirSync(sessionsDir, { recursive: true });
+  let renamed = 0;
+  let recovered = 0;
+
+  for (const file of listLegacySessions(sessionsDir)) {
+    const entry = readSessionFile(sessionsDir, file);
+    fs.renameSync(path.join(sessionsDir, file), path.join(sessionsDir, sessionFileName(entry)));
+    renamed++;
+  }
+
+  const existingIds = new Set(readSessionIndex(sessionsDir).map((s) => s.id));
+  for (const entry of branchEntries) {
+    if (existingIds.has(entry.id)) continue;
+    writeSession(sessionsDir, entry);
+    existingIds.add(entry.id);
+    recovered++;
+  }
+
+  return { renamed, recovered };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function readSessionFile(sessionsDir: string, file: string): ContextEntry {
+  const content = fs.readFileSync(path.join(sessionsDir, file), "utf-8");
+  try {
+    return JSON.parse(content);
+  } catch (err: any) {
+    throw new StoreCorruptError(path.join(path.basename(sessionsDir), file), err.message);
+  }
+}
+
+function loadIndex(sessionsDir: string): SessionIndexEntry[] {
+  const indexPath = path.join(sessionsDir, INDEX_FILE);
+  if (!fs.existsSync(indexPath)) return [];
+  try {
+    const index = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+    return Array.isArray(index) ? index : [];
+  } catch {
+    return []; // Corrupt index — rebuilt from the files
+  }
+}
+
+function saveIndex(sessionsDir: string, index: SessionIndexEntry[]): void {
+  writeFileAtomic(path.join(sessionsDir, INDEX_FILE), JSON.stringify(sortIndex(index), null, 2));
+}
+
+function sortIndex(index: SessionIndexEntry[]): SessionIndexEntry[] {
+  return index.sort(
+    (a, b) =>
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() ||
+      a.file.localeCompare(b.file)
+  );
+}
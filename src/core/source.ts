@@ -0,0 +1,22 @@
+import { ContextEntry, EntrySource } from "./types";
+
+/**
+ * Task prefixes used by auto-saves written before entries recorded their
+ * `source`: the MCP idle save, watch mode, the post-commit hook's fallback,
+ * and `save --auto` when it found nothing.
+ */
+const AUTO_TASK_PREFIXES = [
+  "[auto-idle]",
+  "Auto-captured:",
+  "Auto-saved on commit:",
+  "Session (auto-extract found nothing)",
+];
+
+/**
+ * How an entry was created. Entries without a `source` are classified by
+ * their task text; anything unrecognised counts as a manual save.
+ */
+export function getEntrySource(entry: ContextEntry): EntrySource {
+  if (entry.source) return entry.source;
+  return AUTO_TASK_PREFIXES.some((prefix) => entry.task.startsWith(prefix)) ? "auto" : "manual";
+}
@@ -0,0 +1,45 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Files inside .valyrianctx/ that must never be committed, even when the
+ * store itself is shared via `valyrianctx share`: personal settings, lock and
+ * temp files, and derived indexes that are rebuilt on demand.
+ */
+const STORE_IGNORES = [
+  "config.local.json",
+  ".lock",
+  ".lock.*",
+  "*.tmp",
+  "branches/*.idx",
+  "archive/*.idx",
+  "sessions/index.json",
+  "search.idx",
+];
+
+const HEADER = "# Local-only ValyrianCtx files (managed by valyrianctx)";
+
+/**
+ * Create or update `.valyrianctx/.gitignore` so it lists every local-only file.
+ * Existing lines are preserved. Returns true if the file changed.
+ */
+export function ensureStoreGitignore(dir: string): boolean {
+  const gitignorePath = path.join(dir, ".gitignore");
+  const existing = fs.existsSync(gitignorePath) ? fs.readFileSync(gitignorePath, "utf-8") : "";
+  const lines = new Set(existing.split("\n").map((l) => l.trim()));
+
+  const missing = STORE_IGNORES.filter((p) => !lines.has(p));
+  if (missing.length === 0) return false;
+
+  let content = existing;
+  if (!lines.has(HEADER)) {
+    content += (content && !content.endsWith("\n") ? "\n" : "") + HEADER + "\n";
+  } else if (content && !content.endsWith("\n")) {
+    content += "\n";
+  }
+  content += missing.join("\n") + "\n";
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(gitignorePath, content);
+  return true;
+}
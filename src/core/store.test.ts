@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { ContextStore } from "./store";
+import { createFileContextStore } from "./file-store";
+import { createMemoryContextStore } from "./memory-store";
+import { atMinute, makeEntry } from "./test-fixtures";
+
+const TEST_DIR = path.join(os.tmpdir(), `valyrianctx-store-${Date.now()}`);
+
+const implementations: [string, () => ContextStore][] = [
+    ["file store", () => createFileContextStore(TEST_DIR, { notes: false })],
+    ["memory store", () => createMemoryContextStore()],
+];
+
+beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe.each(implementations)("ContextStore (%s)", (_name, createStore) => {
+    let store: ContextStore;
+
+    beforeEach(async () => {
+        store = createStore();
+        await store.save(makeEntry("a1", { timestamp: atMinute(1) }));
+        await store.save(makeEntry("b1", { branch: "feature/x", timestamp: atMinute(2) }));
+        await store.save(makeEntry("a2", { timestamp: atMinute(3) }));
+        await store.save(makeEntry("a3", { timestamp: atMinute(4) }));
+    });
+
+    it("should load a branch oldest first, optionally only the newest N", async () => {
+        expect((await store.loadBranch("main")).map((e) => e.id)).toEqual(["a1", "a2", "a3"]);
+        expect((await store.loadBranch("main", { limit: 2 })).map((e) => e.id)).toEqual(["a2", "a3"]);
+        expect(await store.loadBranch("nope")).toEqual([]);
+    });
+
+    it("should load all branches newest first", async () => {
+        expect((await store.loadAll()).map((e) => e.id)).toEqual(["a3", "a2", "b1", "a1"]);
+        expect((await store.loadAll({ limit: 2 })).map((e) => e.id)).toEqual(["a3", "a2"]);
+    });
+
+    it("should list branches with entries", async () => {
+        expect(await store.listBranches()).toEqual(["feature/x", "main"]);
+    });
+
+    it("should update a branch from its current entries, keeping dropped ones in the history", async () => {
+        await store.updateBranch("main", (current) => current.filter((e) => e.id !== "a2"));
+
+        expect((await store.loadBranch("main")).map((e) => e.id)).toEqual(["a1", "a3"]);
+        expect((await store.loadBranch("feature/x")).map((e) => e.id)).toEqual(["b1"]);
+        expect((await store.loadAll()).map((e) => e.id)).toEqual(["a3", "a2", "b1", "a1"]);
+    });
+
+    it("should prune dropped entries from the history when asked", async () => {
+        await store.updateBranch("main", (current) => current.filter((e) => e.id !== "a2"), { prune: true });
+
+        expect((await store.loadBranch("main")).map((e) => e.id)).toEqual(["a1", "a3"]);
+        expect((await store.loadAll()).map((e) => e.id)).toEqual(["a3", "b1", "a1"]);
+    });
+
+    it("should keep every copy of an entry in step when it is edited", async () => {
+        await store.updateBranch("main", (current) =>
+            current.map((e) => (e.id === "a2" ? { ...e, task: "Edited", timestamp: atMinute(9) } : e))
+        );
+
+        expect((await store.loadBranch("main")).find((e) => e.id === "a2")?.task).toBe("Edited");
+        const all = await store.loadAll();
+        expect(all.filter((e) => e.id === "a2").map((e) => e.task)).toEqual(["Edited"]);
+        expect(all[0].id).toBe("a2");
+    });
+
+    it("should replace a branch", async () => {
+        await store.replaceBranch("main", [makeEntry("c1", { timestamp: atMinute(5) })]);
+
+        expect((await store.loadBranch("main")).map((e) => e.id)).toEqual(["c1"]);
+    });
+
+    it("should delete an entry by id", async () => {
+        expect(await store.delete("a2")).toBe(true);
+        expect(await store.delete("a2")).toBe(false);
+
+        expect((await store.loadBranch("main")).map((e) => e.id)).toEqual(["a1", "a3"]);
+        expect((await store.loadAll()).map((e) => e.id)).not.toContain("a2");
+    });
+
+    it("should rename a branch, relabelling its entries", async () => {
+        await store.save(makeEntry("c1", { branch: "feature/y", timestamp: atMinute(5) }));
+
+        expect(await store.renameBranch("feature/x", "feature/y")).toBe(1);
+
+        expect(await store.listBranches()).toEqual(["feature/y", "main"]);
+        const renamed = await store.loadBranch("feature/y");
+        expect(renamed.map((e) => e.id)).toEqual(["b1", "c1"]);
+        expect(renamed.every((e) => e.branch === "feature/y")).toBe(true);
+        expect((await store.loadAll()).find((e) => e.id === "b1")?.branch).toBe("feature/y");
+    });
+
+    it("should archive a branch out of the active entries", async () => {
+        const archived = await store.archiveBranch("main");
+
+        expect(archived.map((e) => e.id)).toEqual(["a1", "a2", "a3"]);
+        expect(await store.listBranches()).toEqual(["feature/x"]);
+        expect((await store.loadAll()).map((e) => e.id)).toEqual(["b1"]);
+        expect((await store.loadArchived("main")).map((e) => e.id)).toEqual(["a1", "a2", "a3"]);
+        expect(await store.loadArchived("feature/x")).toEqual([]);
+        expect(await store.archiveBranch("main")).toEqual([]);
+    });
+});
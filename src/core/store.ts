@@ -0,0 +1,83 @@
+import { ContextEntry } from "./types";
+import { ValyrianCtxError } from "./errors";
+
+/**
+ * A file in `.valyrianctx/` that can't be read (conflict markers, a partial
+ * write, hand edits). `valyrianctx fsck` reports and repairs these.
+ */
+export class StoreCorruptError extends ValyrianCtxError {
+  constructor(
+    /** Path relative to `.valyrianctx/`, e.g. `branches/main.jsonl` */
+    public readonly file: string,
+    detail: string
+  ) {
+    super(`${file} is corrupt (${detail}). Run \`valyrianctx fsck\` to check and repair the context store.`, "STORE_CORRUPT");
+    this.name = "StoreCorruptError";
+  }
+}
+
+export interface LoadOptions {
+  /** Only return the newest N entries */
+  limit?: number;
+}
+
+export interface UpdateOptions {
+  /**
+   * Also remove entries dropped from the branch from the history loadAll
+   * reads (gc). By default they stay there, as `compress` leaves them.
+   */
+  prune?: boolean;
+}
+
+/**
+ * Persistence for context entries. Commands and the MCP server only talk to
+ * this interface (via getContextStore() in context.ts), never to the files.
+ *
+ * - createFileContextStore (file-store.ts): the `.valyrianctx/` layout, plus
+ *   entries in git notes. The default.
+ * - createMemoryContextStore (memory-store.ts): in-process, for tests.
+ */
+export interface ContextStore {
+  /** Save a new entry. Returns where it was written (file path or ref). */
+  save(entry: ContextEntry): Promise<string>;
+
+  /** Entries for a branch, oldest first. */
+  loadBranch(branch: string, options?: LoadOptions): Promise<ContextEntry[]>;
+
+  /** Entries across all branches, newest first. */
+  loadAll(options?: LoadOptions): Promise<ContextEntry[]>;
+
+  /** Branches that have at least one entry, sorted by name. */
+  listBranches(): Promise<string[]>;
+
+  /**
+   * Atomically rewrite a branch. `update` receives the entries currently
+   * stored, so concurrent saves since the caller last read are not lost.
+   */
+  updateBranch(
+    branch: string,
+    update: (current: ContextEntry[]) => ContextEntry[],
+    options?: UpdateOptions
+  ): Promise<ContextEntry[]>;
+
+  /** Replace every entry for a branch. */
+  replaceBranch(branch: string, entries: ContextEntry[]): Promise<void>;
+
+  /** Delete one entry by ID. Returns false if no such entry exists. */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Move entries from one branch name to another (relabelling them), merging
+   * with any entries already there. Returns how many entries moved.
+   */
+  renameBranch(from: string, to: string): Promise<number>;
+
+  /**
+   * Move a branch's entries to the archive: they no longer show up in
+   * loadBranch/loadAll/listBranches but are kept. Returns the archived entries.
+   */
+  archiveBranch(branch: string): Promise<ContextEntry[]>;
+
+  /** Archived entries, oldest first; only one branch's when given. */
+  loadArchived(branch?: string): Promise<ContextEntry[]>;
+}
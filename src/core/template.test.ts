@@ -0,0 +1,90 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { compileTemplate, TemplateError } from "./template";
+import { loadPromptTemplates } from "./prompt-templates";
+import { generatePrompt } from "./prompt";
+import { makeEntry } from "./test-fixtures";
+
+function render(text: string, data: Record<string, unknown>): string {
+    return compileTemplate(text).render(data);
+}
+
+describe("compileTemplate", () => {
+    it("should render values, nested paths and missing values as nothing", () => {
+        expect(render("{{task}} by {{latest.author}}{{goal}}", { task: "Fix", latest: { author: "dev" } })).toBe(
+            "Fix by dev"
+        );
+    });
+
+    it("should render conditionals, treating empty lists as false", () => {
+        const text = "{{#if items}}some{{else}}none{{/if}} {{#unless goal}}no goal{{/unless}}";
+        expect(render(text, { items: [] })).toBe("none no goal");
+        expect(render(text, { items: ["a"], goal: "g" })).toBe("some ");
+    });
+
+    it("should loop with the item, its fields and position in scope", () => {
+        const text = "{{#each steps}}{{@number}}. {{this}}{{#unless @last}}, {{/unless}}{{/each}}";
+        expect(render(text, { steps: ["a", "b"] })).toBe("1. a, 2. b");
+        expect(render("{{#each history}}[{{date}}] {{task}} in {{repo}}\n{{/each}}", {
+            repo: "r",
+            history: [{ date: "d1", task: "t1" }],
+        })).toBe("[d1] t1 in r\n");
+    });
+
+    it("should drop lines that hold only a block tag or comment", () => {
+        const text = "A\n{{! note }}\n{{#if x}}\nB\n{{/if}}\nC\n";
+        expect(render(text, { x: true })).toBe("A\nB\nC\n");
+        expect(render(text, { x: false })).toBe("A\nC\n");
+    });
+
+    it("should reject unbalanced blocks and malformed tags", () => {
+        expect(() => compileTemplate("{{#if a}}x", "t.md")).toThrow("Invalid template t.md: {{#if a}} is never closed");
+        expect(() => compileTemplate("{{#if a}}x{{/each}}")).toThrow(TemplateError);
+        expect(() => compileTemplate("{{#with a}}x{{/with}}")).toThrow("unknown block");
+        expect(() => compileTemplate("{{task | upper}}")).toThrow("malformed tag");
+    });
+});
+
+describe("prompt templates", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "valyrianctx-templates-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should render with a template from .valyrianctx/templates/", () => {
+        fs.mkdirSync(path.join(dir, "templates"));
+        fs.writeFileSync(
+            path.join(dir, "templates", "context.md"),
+            "# {{task}} ({{sessions}})\n{{#each decisions}}\n* {{this}}\n{{/each}}\n"
+        );
+        const entries = [makeEntry("1", { decisions: ["Use zod"] }), makeEntry("2", { decisions: ["use ZOD", "Keep CJS"] })];
+
+        const prompt = generatePrompt(entries, { templates: loadPromptTemplates(dir) });
+
+        expect(prompt).toBe("# Task 2 (2)\n* Use zod\n* Keep CJS\n");
+    });
+
+    it("should keep the built-in template when there is none, with the merge window", () => {
+        const entries = [makeEntry("1", { decisions: ["Old"] }), makeEntry("2", { decisions: ["New"] })];
+
+        const prompt = generatePrompt(entries, { templates: loadPromptTemplates(dir), mergeWindow: 1 });
+
+        expect(prompt).toContain("### Current Task\nTask 2\n\n### Key Decisions\n- New\n\n### Current State\nHalf done\n\n");
+        expect(prompt).not.toContain("Old");
+    });
+
+    it("should name the template file when it doesn't parse", () => {
+        fs.mkdirSync(path.join(dir, "templates"));
+        fs.writeFileSync(path.join(dir, "templates", "inherited.md"), "{{#each approaches}}");
+
+        expect(() => loadPromptTemplates(dir)).toThrow(
+            `Invalid template ${path.join(".valyrianctx", "templates", "inherited.md")}`
+        );
+    });
+});
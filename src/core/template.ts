@@ -0,0 +1,153 @@
+import { UsageError } from "./errors";
+
+/**
+ * A small logic-light template language for context prompts (see
+ * prompt-templates.ts), Handlebars-like:
+ *
+ *   {{task}}  {{latest.author}}        value (missing values render as nothing)
+ *   {{#if goal}}...{{else}}...{{/if}}  conditional (empty lists are false)
+ *   {{#unless goal}}...{{/unless}}     negated conditional
+ *   {{#each nextSteps}}...{{/each}}    loop: {{this}}, {{@index}} (0-based),
+ *                                      {{@number}} (1-based), {{@first}}, {{@last}};
+ *                                      an item's fields are in scope ({{task}})
+ *   {{! comment }}
+ *
+ * A line holding nothing but a block tag or comment is dropped entirely, so
+ * blocks can sit on their own lines without leaving blank lines behind.
+ * Values are inserted as is: the output is markdown, not HTML.
+ */
+
+export class TemplateError extends UsageError {
+  constructor(message: string, source?: string) {
+    super(source ? `Invalid template ${source}: ${message}` : `Invalid template: ${message}`);
+    this.name = "TemplateError";
+  }
+}
+
+type Node =
+  | { type: "text"; text: string }
+  | { type: "value"; path: string }
+  | { type: "if"; path: string; negate: boolean; then: Node[]; else: Node[] }
+  | { type: "each"; path: string; body: Node[]; else: Node[] };
+
+export interface Template {
+  render(data: Record<string, unknown>): string;
+}
+
+const STANDALONE_TAG = /^[ \t]*(\{\{(?:[#/!][^}]*|else)\}\})[ \t]*(?:\r?\n|$)/gm;
+const TAG = /\{\{([\s\S]*?)\}\}/g;
+const PATH = /^(?:this|@?[A-Za-z_$][\w$]*)(?:\.[A-Za-z_$][\w$]*)*$/;
+
+/**
+ * Parse a template. Throws TemplateError (naming `source`, e.g. the file it
+ * came from) on unbalanced blocks or malformed tags.
+ */
+export function compileTemplate(text: string, source?: string): Template {
+  const nodes = parse(text.replace(STANDALONE_TAG, "$1"), source);
+  return { render: (data) => renderNodes(nodes, [data]) };
+}
+
+function parse(text: string, source?: string): Node[] {
+  const root: Node[] = [];
+  // Open blocks, innermost last; `nodes` is where the next node goes
+  const stack: { tag: string; node: Extract<Node, { type: "if" | "each" }>; inElse: boolean }[] = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.node.type === "if") return top.inElse ? top.node.else : top.node.then;
+    return top.inElse ? top.node.else : top.node.body;
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(TAG)) {
+    if (match.index! > last) target().push({ type: "text", text: text.slice(last, match.index) });
+    last = match.index! + match[0].length;
+
+    const tag = match[1].trim();
+    if (tag.startsWith("!")) continue;
+
+    if (tag.startsWith("#")) {
+      const [name, path, ...rest] = tag.slice(1).trim().split(/\s+/);
+      if (!["if", "unless", "each"].includes(name)) throw new TemplateError(`unknown block {{#${name}}}`, source);
+      if (!path || rest.length > 0 || !PATH.test(path)) {
+        throw new TemplateError(`{{#${name}}} takes one value, got {{${tag}}}`, source);
+      }
+      const node: Extract<Node, { type: "if" | "each" }> =
+        name === "each"
+          ? { type: "each", path, body: [], else: [] }
+          : { type: "if", path, negate: name === "unless", then: [], else: [] };
+      target().push(node);
+      stack.push({ tag: name, node, inElse: false });
+    } else if (tag.startsWith("/")) {
+      const name = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open) throw new TemplateError(`{{/${name}}} without a matching {{#${name}}}`, source);
+      if (open.tag !== name) throw new TemplateError(`{{#${open.tag}}} closed by {{/${name}}}`, source);
+    } else if (tag === "else") {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) throw new TemplateError("{{else}} outside an {{#if}}, {{#unless}} or {{#each}}", source);
+      open.inElse = true;
+    } else {
+      if (!PATH.test(tag)) throw new TemplateError(`malformed tag {{${tag}}}`, source);
+      target().push({ type: "value", path: tag });
+    }
+  }
+  if (last < text.length) target().push({ type: "text", text: text.slice(last) });
+
+  const unclosed = stack.pop();
+  if (unclosed) throw new TemplateError(`{{#${unclosed.tag} ${unclosed.node.path}}} is never closed`, source);
+  return root;
+}
+
+function renderNodes(nodes: Node[], scopes: unknown[]): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        out += node.text;
+        break;
+      case "value": {
+        const value = lookup(node.path, scopes);
+        out += value === undefined || value === null ? "" : String(value);
+        break;
+      }
+      case "if":
+        out += renderNodes(isTruthy(lookup(node.path, scopes)) !== node.negate ? node.then : node.else, scopes);
+        break;
+      case "each": {
+        const value = lookup(node.path, scopes);
+        const items = Array.isArray(value) ? value : [];
+        if (items.length === 0) {
+          out += renderNodes(node.else, scopes);
+          break;
+        }
+        items.forEach((item, i) => {
+          const meta = { "@index": i, "@number": i + 1, "@first": i === 0, "@last": i === items.length - 1 };
+          out += renderNodes(node.body, [...scopes, meta, item]);
+        });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** Resolve a dotted path against the innermost scope that has its first segment */
+function lookup(path: string, scopes: unknown[]): unknown {
+  const [head, ...rest] = path.split(".");
+  let value: unknown;
+  if (head === "this") {
+    value = scopes[scopes.length - 1];
+  } else {
+    const scope = [...scopes].reverse().find((s) => s !== null && typeof s === "object" && head in s);
+    value = scope ? (scope as Record<string, unknown>)[head] : undefined;
+  }
+  for (const key of rest) {
+    value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
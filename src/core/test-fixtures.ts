@@ -0,0 +1,26 @@
+import { ContextEntry } from "./types";
+
+/** A minimal context entry on `main`, saved now, for tests */
+export function makeEntry(id: string, overrides: Partial<ContextEntry> = {}): ContextEntry {
+    return {
+        id,
+        timestamp: new Date().toISOString(),
+        branch: "main",
+        repo: "repo",
+        author: "dev",
+        task: `Task ${id}`,
+        approaches: [],
+        decisions: [],
+        currentState: "Half done",
+        nextSteps: [],
+        filesChanged: [],
+        filesStaged: [],
+        recentCommits: [],
+        ...overrides,
+    };
+}
+
+/** A timestamp `minute` minutes into a fixed hour, for entries that need a known order */
+export function atMinute(minute: number): string {
+    return new Date(Date.UTC(2025, 0, 15, 10, minute)).toISOString();
+}
@@ -1,3 +1,11 @@
+import { UserConfig } from "../utils/config";
+
+/**
+ * manual: an explicit save (CLI, handoff, MCP tool); auto: hooks, watch mode,
+ * idle saves and `save --auto`; ai: written by an AI command (summarize, compress)
+ */
+export type EntrySource = "manual" | "auto" | "ai";
+
 export interface ContextEntry {
   id: string;
   timestamp: string;
@@ -22,10 +30,36 @@ export interface ContextEntry {
   // Team
   assignee?: string;
   handoffNote?: string;
+
+  /** Set on the entry that folded a merged branch's decisions into this one */
+  mergedFrom?: string;
+
+  /** How the entry was created (absent on older entries, see getEntrySource()) */
+  source?: EntrySource;
+
+  /** Schema version the entry was written with (absent = 1, see core/migrations.ts) */
+  schemaVersion?: number;
+
+  /**
+   * When a copy in git notes was last changed (edited, relabelled); absent
+   * until then. After a notes merge the newest copy wins (see notes-store.ts).
+   */
+  updatedAt?: string;
 }
 
 export interface ValyrianCtxConfig {
   version: string;
   createdAt: string;
   repo: string;
+  /** Store schema version (absent = 1, see core/migrations.ts) */
+  schemaVersion?: number;
+  /** Team settings, shared with the repo (personal overrides live in config.local.json) */
+  settings?: Partial<UserConfig>;
+}
+
+/** Context carried over from the branch a new branch was created from */
+export interface InheritedContext {
+  /** The parent branch the entries belong to */
+  branch: string;
+  entries: ContextEntry[];
 }
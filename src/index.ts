@@ -4,9 +4,16 @@ import { initCommand } from "./commands/init";
 import { saveCommand } from "./commands/save";
 import { resumeCommand } from "./commands/resume";
 import { logCommand } from "./commands/log";
+import { showCommand, editCommand, amendCommand, dropCommand } from "./commands/entry";
+import { searchCommand } from "./commands/search";
 import { diffCommand } from "./commands/diff";
 import { handoffCommand } from "./commands/handoff";
+import { rememberCommand } from "./commands/remember";
 import { shareCommand } from "./commands/share";
+import { syncCommand } from "./commands/sync";
+import { branchesCommand } from "./commands/branches";
+import { gcCommand } from "./commands/gc";
+import { mergeDriverCommand } from "./commands/merge-driver";
 import { watchCommand } from "./commands/watch";
 import { hookCommand } from "./commands/hook";
 import { summarizeCommand } from "./commands/summarize";
@@ -14,13 +21,23 @@ import { suggestCommand } from "./commands/suggest";
 import { compressCommand } from "./commands/compress";
 import { configCommand } from "./commands/config-cmd";
 import { rulesCommand } from "./commands/rules";
+import { migrateCommand } from "./commands/migrate";
+import { fsckCommand } from "./commands/fsck";
+import { EXIT_CODES } from "./core/errors";
+import { configureOutput, fail, finishOutput } from "./utils/output";
 
 const program = new Command();
 
 program
   .name("valyrianctx")
   .description("Persistent AI coding context for teams")
-  .version("0.5.0");
+  .version("0.5.0")
+  .option("--json", "Print the result as one JSON document (see README)")
+  .option("-q, --quiet", "Only print the command's output and errors")
+  // Commander's own errors (unknown option, missing argument) are usage errors
+  .exitOverride((err) => process.exit(err.exitCode === 0 ? 0 : EXIT_CODES.USAGE))
+  .hook("preAction", (_program, command) => configureOutput({ ...program.opts(), command: command.name() }))
+  .hook("postAction", () => finishOutput());
 
 program
   .command("init")
@@ -43,17 +60,75 @@ program
   .command("resume")
   .description("Generate context prompt for AI tools")
   .option("-b, --branch <branch>", "Resume context from a specific branch")
-  .option("--stdout", "Output to stdout instead of clipboard")
+  .option("--stdout", "Output to stdout (default: defaultOutput setting)")
+  .option("--clipboard", "Copy to clipboard (default: defaultOutput setting)")
   .option("--inject", "Inject context into IDE rule files (used by git hooks)")
+  .option("--max-tokens <n>", "Cut the prompt down to about n tokens (default: maxPromptTokens setting, 0 = no limit)")
+  .option("--format <format>", "Prompt format: markdown, xml, json or text (default: markdown; with --inject, each IDE's own)")
   .action(resumeCommand);
 
 program
   .command("log")
   .description("View context history")
   .option("-a, --all", "Show all branches")
-  .option("-n, --count <n>", "Number of entries to show", "10")
+  .option("-n, --count <n>", "Number of entries to show (default: defaultLogCount setting)")
+  .option("--since <date>", "Only entries saved since (e.g. 2025-01-15, 3d, 2w)")
+  .option("--until <date>", "Only entries saved until")
+  .option("--author <name>", "Only entries by this author")
+  .option("--grep <pattern>", "Only entries whose text matches this pattern (case-insensitive regex)")
+  .option("--source <source>", "Only manual, auto or ai entries")
+  .option("--full", "Show approaches, decisions, next steps and blockers")
+  .option("--oneline", "One line per entry")
+  .option("--ndjson", "Print one JSON entry per line")
   .action(logCommand);
 
+program
+  .command("search <query...>")
+  .description("Search context history across every branch")
+  .option("--author <name>", "Only entries by this author")
+  .option("-b, --branch <branch>", "Only entries on this branch")
+  .option("--since <date>", "Only entries saved since (e.g. 2025-01-15, 3d, 2w)")
+  .option("--until <date>", "Only entries saved until")
+  .option("-n, --limit <n>", "Number of results to show (0 for all)", "20")
+  .option("--archived", "Include archived branches")
+  .action(searchCommand);
+
+program
+  .command("show <id>")
+  .description("Show one context entry (IDs can be shortened, as in `log`)")
+  .action(showCommand);
+
+program
+  .command("edit <id>")
+  .description("Edit a context entry in $EDITOR")
+  .action(editCommand);
+
+program
+  .command("amend [message]")
+  .description("Update the latest entry on this branch instead of saving a new one")
+  .option("-g, --goal <goal>", "Goal or ticket reference")
+  .option("--approaches <approaches>", "Approaches tried (;; separated, replaces the list)")
+  .option("--decisions <decisions>", "Key decisions made (;; separated, replaces the list)")
+  .option("--state <state>", "Current state / where you left off")
+  .option("--next-steps <nextSteps>", "Next steps (;; separated, replaces the list)")
+  .option("--blockers <blockers>", "Blockers (;; separated, replaces the list)")
+  .option("-e, --edit", "Open the amended entry in $EDITOR (the default when nothing else is given)")
+  .action(amendCommand);
+
+program
+  .command("drop <id>")
+  .description("Delete a context entry")
+  .option("-y, --yes", "Don't ask for confirmation")
+  .action(dropCommand);
+
+program
+  .command("remember [text...]")
+  .description("Add to project memory, shown on every branch (no text: show it)")
+  .option("-k, --kind <kind>", "convention, decision or glossary (default: decision)")
+  .option("--from <id>", "Promote the decisions of a saved entry")
+  .option("--pick <numbers>", "With --from: only these decisions, as numbered by `show` (e.g. 1,3)")
+  .action(rememberCommand);
+
 program
   .command("diff")
   .description("Show what changed since the last context save")
@@ -71,6 +146,28 @@ program
   .option("--stop", "Stop sharing (add .valyrianctx/ back to .gitignore)")
   .action(shareCommand);
 
+program
+  .command("sync <action> [remote]")
+  .description("Push or pull context stored in git notes (refs/notes/valyrianctx)")
+  .action(syncCommand);
+
+program
+  .command("branches [action] [args...]")
+  .description("List, archive, fold or rename branch contexts (list/archive/fold/rename)")
+  .option("--into <branch>", "Branch to compare against or fold into (default: current)")
+  .option("--merged", "archive: every branch already merged into the target")
+  .option("--gone", "archive: every branch whose git branch no longer exists")
+  .option("--stale", "archive: every branch with no save for --stale-days")
+  .option("--stale-days <days>", "Days without a save before a branch counts as stale (default: 30)")
+  .option("--archived", "list: show archived branch contexts")
+  .option("--last-merge", "fold: the branch merged by the last `git merge`, if it was created from this one or this is the default branch (post-merge hook)")
+  .action(branchesCommand);
+
+program
+  .command("merge-driver <base> <ours> <theirs> [path]", { hidden: true })
+  .description("Git merge driver for .valyrianctx/ files (run by git, registered by init and share)")
+  .action(mergeDriverCommand);
+
 // v0.3 — Auto-Capture
 program
   .command("watch")
@@ -101,7 +198,11 @@ program
 
 program
   .command("config [action] [key] [value]")
-  .description("Manage Valyrian Context configuration (list/get/set)")
+  .description("Manage Valyrian Context configuration (list/get/set/unset/describe/edit)")
+  .option("--global", "Use your global config (~/.config/valyrianctx/config.json) for all repos")
+  .option("--repo", "Use the shared repo config (committed by `share`)")
+  .option("--local", "Use your personal overrides for this repo (default)")
+  .option("--show-origin", "Show where each value comes from")
   .action(configCommand);
 
 program
@@ -111,5 +212,31 @@ program
   .option("--no-mcp", "Skip MCP server configuration")
   .action(rulesCommand);
 
-program.parse();
+program
+  .command("gc")
+  .description("Remove old context entries per the retention settings")
+  .option("--dry-run", "Show what would be removed without removing anything")
+  .option("-b, --branch <branch>", "Only this branch (default: every branch)")
+  .option("--max-age <days>", "Remove entries older than this (overrides retentionMaxAge)")
+  .option("--max-entries <n>", "Keep at most this many entries per branch (overrides retentionMaxEntries)")
+  .option("--include-manual", "Also remove manual saves (overrides retentionKeepManual)")
+  .action(gcCommand);
+
+program
+  .command("migrate")
+  .description("Upgrade .valyrianctx/ to the current context schema")
+  .option("--dry-run", "Show what would change without writing anything")
+  .action(migrateCommand);
+
+program
+  .command("fsck")
+  .description("Check .valyrianctx/ for corrupt, orphaned or duplicate entries")
+  .option("--rebuild <target>", "Rebuild branches/ from sessions/ and the logs, or sessions/ from the logs (branches|sessions)")
+  .option("--dry-run", "With --rebuild, show what would change without writing anything")
+  .action(fsckCommand);
+
+program.parseAsync().catch((err) => {
+  fail(err);
+  finishOutput();
+});
 
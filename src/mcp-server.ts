@@ -27,12 +27,15 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
-import { isInitialized, loadBranchContext, loadAllSessions, saveContext } from "./core/context";
-import { getCurrentBranch, getRepoName, getRepoRoot, getChangedFiles, getStagedFiles, getRecentCommits, getAuthor } from "./core/git";
-import { generatePrompt } from "./core/prompt";
-import { injectContextIntoRules } from "./core/agent-rules";
-import { ContextEntry } from "./core/types";
-import { v4 as uuid } from "uuid";
+import { isInitialized } from "./core/context";
+import { resolveLogOptions } from "./core/options";
+import { saveContext } from "./core/save";
+import { resumeContext } from "./core/resume";
+import { describeTrims } from "./core/prompt-budget";
+import { PromptFormat } from "./core/prompt-renderers";
+import { queryLog } from "./core/history";
+import { hasFilters } from "./core/entry-filter";
+import { getEntrySource } from "./core/source";
 
 const server = new McpServer({
     name: "valyrianctx",
@@ -75,11 +78,9 @@ async function getAutoResumePrefix(isResumeCall: boolean): Promise<string> {
 
     try {
         if (!(await isInitialized())) return "";
-        const branch = await getCurrentBranch();
-        const entries = await loadBranchContext(branch);
-        if (entries.length === 0) return "";
+        const { prompt } = await resumeContext();
+        if (prompt === null) return "";
 
-        const prompt = generatePrompt(entries);
         return [
             "═══ Auto-Resumed Context from Previous Session ═══",
             "",
@@ -115,43 +116,12 @@ async function autoSaveOnIdle(): Promise<void> {
 
     try {
         if (!(await isInitialized())) return;
-
-        const [branch, repo, filesChanged, filesStaged, recentCommits, author] = await Promise.all([
-            getCurrentBranch(),
-            getRepoName(),
-            getChangedFiles(),
-            getStagedFiles(),
-            getRecentCommits(),
-            getAuthor(),
-        ]);
-
-        const entry: ContextEntry = {
-            id: uuid(),
-            timestamp: new Date().toISOString(),
-            branch,
-            repo,
-            author,
+        // Saving also injects into rule files so the next session auto-resumes
+        await saveContext({
             task: `[auto-idle] Session idle after ${toolCallCount} tool calls`,
-            approaches: [],
-            decisions: [],
             currentState: "Session went idle — auto-saved by MCP server",
-            nextSteps: [],
-            filesChanged,
-            filesStaged,
-            recentCommits,
-        };
-
-        await saveContext(entry);
-
-        // Inject into rule files so next session auto-resumes
-        try {
-            const root = await getRepoRoot();
-            const entries = await loadBranchContext(branch);
-            const prompt = generatePrompt(entries);
-            await injectContextIntoRules(root, prompt);
-        } catch {
-            // Non-fatal
-        }
+            source: "auto",
+        });
 
         // Prevent repeated idle saves
         explicitSaveMade = true;
@@ -183,17 +153,29 @@ function stopIdleTimer(): void {
 
 interface ResumeArgs {
     branch?: string;
+    maxTokens?: number;
+    format?: PromptFormat;
 }
 
 const resumeSchema = {
     branch: z.string().optional().describe("Branch name to resume. Defaults to current branch."),
+    maxTokens: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Cut the context down to about this many tokens (0 = no limit). Defaults to the maxPromptTokens setting."),
+    format: z
+        .enum(["markdown", "xml", "json", "text"])
+        .optional()
+        .describe("Shape of the context: markdown (default), xml, json or text."),
 };
 
 server.tool(
     "valyrianctx_resume",
     "Generate AI-ready context prompt for the current or specified branch",
     resumeSchema as any,
-    async ({ branch }: ResumeArgs) => {
+    async ({ branch, maxTokens, format }: ResumeArgs) => {
         recordToolCall();
         // Mark session as resumed (this IS the resume call)
         sessionResumed = true;
@@ -202,17 +184,20 @@ server.tool(
             return { content: [{ type: "text" as const, text: "Valyrian Context not initialized. Run `valyrianctx init` first." }] };
         }
 
-        const targetBranch = branch || (await getCurrentBranch());
-        const entries = await loadBranchContext(targetBranch);
+        const result = await resumeContext(branch, { maxTokens, format });
+        const { branch: targetBranch, prompt } = result;
 
-        if (entries.length === 0) {
+        if (prompt === null) {
             return {
                 content: [{ type: "text" as const, text: `No context found for branch: ${targetBranch}. Run \`valyrianctx save\` first.` }],
             };
         }
 
-        const prompt = generatePrompt(entries);
-        return { content: [{ type: "text" as const, text: prompt }] };
+        const note =
+            result.trimmed.length > 0 || result.truncated
+                ? `\n\n(Context cut to ~${result.tokens} tokens: ${describeTrims(result)})`
+                : "";
+        return { content: [{ type: "text" as const, text: prompt + note }] };
     }
 );
 
@@ -248,43 +233,10 @@ server.tool(
             return { content: [{ type: "text" as const, text: prefix + "Valyrian Context not initialized. Run `valyrianctx init` first." }] };
         }
 
-        const [branch, repo, filesChanged, filesStaged, recentCommits, author] = await Promise.all([
-            getCurrentBranch(),
-            getRepoName(),
-            getChangedFiles(),
-            getStagedFiles(),
-            getRecentCommits(),
-            getAuthor(),
-        ]);
-
-        const entry: ContextEntry = {
-            id: uuid(),
-            timestamp: new Date().toISOString(),
-            branch,
-            repo,
-            author,
-            task: message,
-            goal,
-            approaches: approaches || [],
-            decisions: decisions || [],
-            currentState: currentState || message,
-            nextSteps: nextSteps || [],
-            filesChanged,
-            filesStaged,
-            recentCommits,
-        };
-
-        await saveContext(entry);
-
-        // Auto-inject context into IDE rule files for next session's auto-resume
-        try {
-            const root = await getRepoRoot();
-            const entries = await loadBranchContext(branch);
-            const prompt = generatePrompt(entries);
-            await injectContextIntoRules(root, prompt);
-        } catch {
-            // Non-fatal
-        }
+        // Also injects the context into IDE rule files for next session's auto-resume
+        const saved = await saveContext({ task: message, goal, approaches, decisions, currentState, nextSteps });
+        if (!saved.saved) return { content: [{ type: "text" as const, text: prefix }] };
+        const { branch, filesChanged, recentCommits } = saved.entry;
 
         const result = `Context saved for branch: ${branch}\n${filesChanged.length} files changed, ${recentCommits.length} recent commits captured.`;
         return {
@@ -296,18 +248,30 @@ server.tool(
 interface LogArgs {
     all?: boolean;
     count?: number;
+    since?: string;
+    until?: string;
+    author?: string;
+    grep?: string;
+    source?: "manual" | "auto" | "ai";
+    full?: boolean;
 }
 
 const logSchema = {
     all: z.boolean().optional().describe("Show all branches"),
-    count: z.number().optional().describe("Number of entries to show"),
+    count: z.number().optional().describe("Number of entries to show. Defaults to the defaultLogCount setting."),
+    since: z.string().optional().describe("Only entries saved since this date (e.g. 2025-01-15) or age (e.g. 3d, 2w)"),
+    until: z.string().optional().describe("Only entries saved until this date or age"),
+    author: z.string().optional().describe("Only entries whose author contains this text"),
+    grep: z.string().optional().describe("Only entries whose text matches this case-insensitive regex"),
+    source: z.enum(["manual", "auto", "ai"]).optional().describe("Only manual saves, auto-saves or AI-written entries"),
+    full: z.boolean().optional().describe("Include approaches, decisions, next steps and blockers"),
 };
 
 server.tool(
     "valyrianctx_log",
-    "View context history for the current branch or all branches",
+    "View context history for the current branch or all branches, optionally filtered",
     logSchema as any,
-    async ({ all, count }: LogArgs) => {
+    async ({ all, count, full, ...filterArgs }: LogArgs) => {
         recordToolCall();
         // Auto-resume prefix for first tool call
         const prefix = await getAutoResumePrefix(false);
@@ -316,39 +280,44 @@ server.tool(
             return { content: [{ type: "text" as const, text: prefix + "Valyrian Context not initialized." }] };
         }
 
-        const limit = count || 10;
-
-        if (all) {
-            const sessions = await loadAllSessions();
-            if (sessions.length === 0) {
-                return { content: [{ type: "text" as const, text: prefix + "No context entries found." }] };
-            }
-
-            const lines = sessions.slice(0, limit).map((s) => {
-                const date = new Date(s.timestamp).toLocaleString();
-                return `[${date}] ${s.branch} — ${s.task}`;
-            });
-
-            return { content: [{ type: "text" as const, text: prefix + `All branches:\n\n${lines.join("\n")}` }] };
+        let options;
+        try {
+            options = await resolveLogOptions({ all, count: count || undefined, ...filterArgs });
+        } catch (err: any) {
+            return { content: [{ type: "text" as const, text: prefix + `Error: ${err.message}` }], isError: true };
         }
 
-        const branch = await getCurrentBranch();
-        const entries = await loadBranchContext(branch);
+        const filtered = hasFilters(options.filters);
+        const { branch, entries } = await queryLog(options);
 
         if (entries.length === 0) {
-            return { content: [{ type: "text" as const, text: prefix + `No context for branch: ${branch}` }] };
+            const empty = filtered
+                ? "No context entries match the filters."
+                : branch
+                  ? `No context for branch: ${branch}`
+                  : "No context entries found.";
+            return { content: [{ type: "text" as const, text: prefix + empty }] };
         }
 
-        const lines = entries
-            .slice(-limit)
-            .reverse()
-            .map((e) => {
-                const date = new Date(e.timestamp).toLocaleString();
-                return `[${date}] ${e.task}${e.currentState ? `\n  └─ ${e.currentState}` : ""}`;
-            });
-
+        const lines = entries.map((e) => {
+            const date = new Date(e.timestamp).toLocaleString();
+            const header = branch ? `[${date}] ${e.task}` : `[${date}] ${e.branch} — ${e.task}`;
+            if (!full) return header + (branch && e.currentState ? `\n  └─ ${e.currentState}` : "");
+
+            const details = [
+                `  id: ${e.id}, by ${e.author || "unknown"} (${getEntrySource(e)})`,
+                ...(e.currentState ? [`  State: ${e.currentState}`] : []),
+                ...e.approaches.map((a) => `  Tried: ${a}`),
+                ...e.decisions.map((d) => `  Decided: ${d}`),
+                ...e.nextSteps.map((n) => `  Next: ${n}`),
+                ...(e.blockers ?? []).map((b) => `  Blocker: ${b}`),
+            ];
+            return [header, ...details].join("\n");
+        });
+
+        const title = branch ? `Branch: ${branch}` : "All branches:";
         return {
-            content: [{ type: "text" as const, text: prefix + `Branch: ${branch}\n\n${lines.join("\n")}` }],
+            content: [{ type: "text" as const, text: prefix + `${title}\n\n${lines.join(full ? "\n\n" : "\n")}` }],
         };
     }
 );
@@ -365,14 +334,12 @@ server.resource(
             return { contents: [{ uri: uri.href, text: "Valyrian Context not initialized.", mimeType: "text/plain" }] };
         }
 
-        const branch = await getCurrentBranch();
-        const entries = await loadBranchContext(branch);
+        const { prompt } = await resumeContext();
 
-        if (entries.length === 0) {
+        if (prompt === null) {
             return { contents: [{ uri: uri.href, text: "No context found.", mimeType: "text/plain" }] };
         }
 
-        const prompt = generatePrompt(entries);
         return { contents: [{ uri: uri.href, text: prompt, mimeType: "text/markdown" }] };
     }
 );
@@ -0,0 +1,83 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { execFileSync } from "child_process";
+import * as valyrianctx from "./sdk";
+import { getBranchLogPath } from "./core/branch-log";
+
+const TEST_DIR = path.join(os.tmpdir(), `valyrianctx-sdk-${Date.now()}`);
+const API = path.join(TEST_DIR, "api");
+const WEB = path.join(TEST_DIR, "web");
+const UNINITIALIZED = path.join(TEST_DIR, "uninitialized");
+const originalXdg = process.env.XDG_CONFIG_HOME;
+
+function createRepo(dir: string, branch: string, initialized = true): void {
+    fs.mkdirSync(dir, { recursive: true });
+    execFileSync("git", ["init", "-q", "-b", branch], { cwd: dir });
+    execFileSync("git", ["config", "user.name", "dev"], { cwd: dir });
+    execFileSync("git", ["config", "user.email", "dev@example.com"], { cwd: dir });
+    execFileSync("git", ["commit", "-q", "--allow-empty", "-m", "Initial commit"], { cwd: dir });
+    if (initialized) fs.mkdirSync(path.join(dir, ".valyrianctx"), { recursive: true });
+}
+
+function branchLog(dir: string, branch: string): string[] {
+    const file = getBranchLogPath(path.join(dir, ".valyrianctx", "branches"), branch);
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, "utf-8").trim().split("\n").map((line) => JSON.parse(line).task);
+}
+
+beforeAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    process.env.XDG_CONFIG_HOME = path.join(TEST_DIR, "xdg");
+    createRepo(API, "main");
+    createRepo(WEB, "feature/login");
+    createRepo(UNINITIALIZED, "main", false);
+});
+
+afterAll(() => {
+    if (originalXdg === undefined) delete process.env.XDG_CONFIG_HOME;
+    else process.env.XDG_CONFIG_HOME = originalXdg;
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("SDK", () => {
+    it("should keep concurrent calls for different repos apart", async () => {
+        const saves = [];
+        for (let i = 0; i < 3; i++) {
+            saves.push(valyrianctx.save({ task: `API task ${i}` }, { cwd: API }));
+            saves.push(valyrianctx.save({ task: `Web task ${i}` }, { cwd: path.join(WEB, ".valyrianctx") }));
+        }
+        const results = await Promise.all(saves);
+
+        expect(results.map((r) => r.saved && r.entry.branch)).toEqual([
+            "main", "feature/login", "main", "feature/login", "main", "feature/login",
+        ]);
+        expect(branchLog(API, "main").sort()).toEqual(["API task 0", "API task 1", "API task 2"]);
+        expect(branchLog(WEB, "feature/login").sort()).toEqual(["Web task 0", "Web task 1", "Web task 2"]);
+        expect(branchLog(API, "feature/login")).toEqual([]);
+        expect(branchLog(WEB, "main")).toEqual([]);
+
+        const [apiResume, webResume, apiLog, webLog] = await Promise.all([
+            valyrianctx.resume({ cwd: API }),
+            valyrianctx.resume({ cwd: WEB }),
+            valyrianctx.log({ cwd: API, all: true }),
+            valyrianctx.log({ cwd: WEB, all: true }),
+        ]);
+        expect(apiResume.prompt).toContain("API task");
+        expect(apiResume.prompt).not.toContain("Web task");
+        expect(webResume.prompt).toContain("Web task");
+        expect(webResume.prompt).not.toContain("API task");
+        expect(apiLog.map((e) => e.branch)).toEqual(["main", "main", "main"]);
+        expect(webLog.map((e) => e.branch)).toEqual(["feature/login", "feature/login", "feature/login"]);
+    });
+
+    it("should throw NotInitializedError for a repo without .valyrianctx/", async () => {
+        expect(await valyrianctx.isInitialized({ cwd: UNINITIALIZED })).toBe(false);
+        await expect(valyrianctx.save({ task: "Nope" }, { cwd: UNINITIALIZED })).rejects.toBeInstanceOf(
+            valyrianctx.NotInitializedError
+        );
+        await expect(valyrianctx.resume({ cwd: UNINITIALIZED })).rejects.toMatchObject({ code: "NOT_INITIALIZED" });
+        await expect(valyrianctx.log({ cwd: UNINITIALIZED })).rejects.toBeInstanceOf(valyrianctx.NotInitializedError);
+        expect(fs.existsSync(path.join(UNINITIALIZED, ".valyrianctx"))).toBe(false);
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * ValyrianCtx SDK — the typed library entry point (`require("valyrianctx")`).
+ *
+ * The same operations the CLI and MCP server run, for editor extensions,
+ * scripts and other tools that want context without shelling out:
+ *
+ *   import { save, resume } from "valyrianctx";
+ *
+ *   await save({ task: "Add rate limiting", nextSteps: ["Tune the limits"] }, { cwd: repo });
+ *   const { prompt } = await resume({ cwd: repo });
+ *
+ * Every function takes a `cwd` (default: the process's working directory) and
+ * works on the git repository that contains it, so one process can serve
+ * several repos. Failures throw the errors exported below; `code` on a
+ * ValyrianCtxError matches the CLI's exit codes.
+ */
+import { isInitialized as isRepoInitialized, NotInitializedError } from "./core/context";
+import { withRepoPath } from "./core/git";
+import { resolveLogOptions, resolveSearchOptions, FilterFlags } from "./core/options";
+import { saveContext, EntryInput, SaveInput, SaveResult } from "./core/save";
+import { resumeContext, ResumeResult } from "./core/resume";
+import { PromptFormat } from "./core/prompt-renderers";
+import { queryLog, searchHistory } from "./core/history";
+import { getProjectMemory, remember as rememberInProject, RememberInput, RememberResult } from "./core/remember";
+import { ProjectMemory } from "./core/project-memory";
+import { SearchResult } from "./core/search";
+import { ContextEntry, EntrySource } from "./core/types";
+import {
+  loadConfig,
+  saveConfig,
+  unsetConfig as unsetConfigKeys,
+  ConfigKey,
+  ConfigScope,
+  UserConfig,
+} from "./utils/config";
+
+export { generatePrompt, renderPrompt } from "./core/prompt";
+export type { PromptOptions, RenderedPrompt } from "./core/prompt";
+export { PROMPT_FORMATS } from "./core/prompt-renderers";
+export type { PromptFormat } from "./core/prompt-renderers";
+export { estimateTokens } from "./core/prompt-budget";
+export type { PromptTrim } from "./core/prompt-budget";
+export type { ContextEntry, EntrySource, InheritedContext } from "./core/types";
+export type { EntryInput, SaveInput, SaveResult } from "./core/save";
+export type { ResumeResult } from "./core/resume";
+export type { RememberInput, RememberResult } from "./core/remember";
+export type { MemoryKind, ProjectMemory } from "./core/project-memory";
+export type { SearchMatch, SearchResult } from "./core/search";
+export type { EntryFilters } from "./core/entry-filter";
+export type { ConfigKey, ConfigScope, UserConfig } from "./utils/config";
+export { EXIT_CODES, ValyrianCtxError, UsageError } from "./core/errors";
+export type { ErrorCode } from "./core/errors";
+export { NotInitializedError } from "./core/context";
+export { NotGitRepoError } from "./core/git";
+export { StoreCorruptError } from "./core/store";
+export { AIError } from "./core/ai";
+export { ConfigValidationError } from "./utils/config";
+export { TemplateError } from "./core/template";
+
+export interface RepoOptions {
+  /** A directory inside the repository. Default: `process.cwd()` */
+  cwd?: string;
+}
+
+export interface LogQuery extends FilterFlags, RepoOptions {
+  /** Entries from every branch instead of the current one */
+  all?: boolean;
+  /** How many entries (default: the `defaultLogCount` setting) */
+  count?: number;
+  /** Case-insensitive regex matched against the entry's text */
+  grep?: string;
+  source?: EntrySource;
+}
+
+export interface SearchQuery extends FilterFlags, RepoOptions {
+  branch?: string;
+  /** Maximum results (default 20, 0 for all) */
+  limit?: number;
+  /** Include archived branches */
+  archived?: boolean;
+}
+
+export interface ConfigOptions extends RepoOptions {
+  /** Default: `local` (this repo, not committed) */
+  scope?: ConfigScope;
+}
+
+/** Run `fn` in the repo at `cwd`, which must have been initialized */
+function inRepo<T>(options: RepoOptions | undefined, fn: () => Promise<T>): Promise<T> {
+  return withRepoPath(options?.cwd ?? process.cwd(), async () => {
+    if (!(await isRepoInitialized())) throw new NotInitializedError();
+    return fn();
+  });
+}
+
+/** Whether `valyrianctx init` has been run in the repo */
+export function isInitialized(options?: RepoOptions): Promise<boolean> {
+  return withRepoPath(options?.cwd ?? process.cwd(), isRepoInitialized);
+}
+
+/**
+ * Save context for the repo's current branch and refresh the context injected
+ * into IDE rule files. See SaveInput for `auto` (extract from editor sessions).
+ */
+export function save(input: SaveInput, options?: RepoOptions): Promise<SaveResult> {
+  return inRepo(options, () => saveContext(input));
+}
+
+/**
+ * The context prompt for a branch (default: the current one); `prompt` is
+ * null when there is nothing to resume. With `maxTokens` (default: the
+ * `maxPromptTokens` setting) lower-priority sections are cut to fit, and
+ * `trimmed` says what went. `format` picks markdown (default), xml, json or text.
+ */
+export function resume(
+  options?: { branch?: string; maxTokens?: number; format?: PromptFormat } & RepoOptions
+): Promise<ResumeResult> {
+  return inRepo(options, () =>
+    resumeContext(options?.branch, { maxTokens: options?.maxTokens, format: options?.format })
+  );
+}
+
+/** Context history, newest first, as `valyrianctx log` lists it */
+export function log(query: LogQuery = {}): Promise<ContextEntry[]> {
+  return inRepo(query, async () => {
+    const { cwd: _cwd, ...flags } = query;
+    return (await queryLog(await resolveLogOptions(flags))).entries;
+  });
+}
+
+/** Full-text search across every branch's history, best match first */
+export function search(query: string, options: SearchQuery = {}): Promise<SearchResult[]> {
+  return inRepo(options, async () => {
+    const { cwd: _cwd, ...flags } = options;
+    return searchHistory(query, resolveSearchOptions(flags));
+  });
+}
+
+/**
+ * Hand the current branch off to a teammate: saves an entry with the
+ * assignee and note, and a default task and state if `input` has none.
+ */
+export function handoff(
+  assignee: string,
+  note: string,
+  input: Partial<EntryInput> = {},
+  options?: RepoOptions
+): Promise<SaveResult> {
+  const to = assignee.replace(/^@/, "");
+  return inRepo(options, () =>
+    saveContext({
+      ...input,
+      task: input.task || `Handoff to @${to}`,
+      currentState: input.currentState ?? note,
+      assignee: to,
+      handoffNote: note,
+    })
+  );
+}
+
+/**
+ * Add to the repo's project memory — conventions, architecture decisions and
+ * a glossary that every branch's prompt starts with — either `items` or the
+ * decisions of a saved entry (`from`).
+ */
+export function remember(input: RememberInput, options?: RepoOptions): Promise<RememberResult> {
+  return inRepo(options, () => rememberInProject(input));
+}
+
+/** The repo's project memory, from `.valyrianctx/project/` */
+export function projectMemory(options?: RepoOptions): Promise<ProjectMemory> {
+  return inRepo(options, getProjectMemory);
+}
+
+/** The effective settings: defaults, global, repo and local config, and environment */
+export function getConfig(options?: RepoOptions): Promise<UserConfig> {
+  return withRepoPath(options?.cwd ?? process.cwd(), loadConfig);
+}
+
+/** Validate and store settings in a scope (throws ConfigValidationError) */
+export function setConfig(values: Partial<UserConfig>, options?: ConfigOptions): Promise<void> {
+  const scope = options?.scope ?? "local";
+  const write = () => saveConfig(values, scope);
+  return scope === "global" ? withRepoPath(options?.cwd ?? process.cwd(), write) : inRepo(options, write);
+}
+
+/** Remove settings from a scope; returns the keys that were set */
+export function unsetConfig(keys: ConfigKey[], options?: ConfigOptions): Promise<ConfigKey[]> {
+  const scope = options?.scope ?? "local";
+  const write = () => unsetConfigKeys(keys, scope);
+  return scope === "global" ? withRepoPath(options?.cwd ?? process.cwd(), write) : inRepo(options, write);
+}
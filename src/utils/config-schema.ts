@@ -0,0 +1,255 @@
+import { z } from "zod";
+import { UsageError } from "../core/errors";
+import { DEFAULT_DEDUP_THRESHOLD } from "../core/dedup";
+
+/**
+ * Schema for user preferences. Each key's `.describe()` text is what
+ * `valyrianctx config describe <key>` prints, so keep it user-facing.
+ */
+export const userConfigSchema = z
+    .object({
+        defaultOutput: z
+            .enum(["clipboard", "stdout"])
+            .default("clipboard")
+            .describe("Default output mode for resume"),
+        promptMergeWindow: z
+            .number()
+            .int()
+            .min(1)
+            .default(3)
+            .describe("resume: merge approaches, decisions and blockers from this many of the latest entries"),
+        maxPromptTokens: z
+            .number()
+            .int()
+            .min(0)
+            .default(0)
+            .describe("resume: cut the prompt down to about this many tokens (0 = no limit; --max-tokens overrides it)"),
+        injectTokenBudgets: z
+            .record(z.string(), z.number().int().min(0))
+            .default({})
+            .describe('Token budget for the context injected into each IDE\'s rule file, by IDE id, e.g. {"cursor": 1500} (others use maxPromptTokens)'),
+        dedupThreshold: z
+            .number()
+            .min(0.5)
+            .max(1)
+            .default(DEFAULT_DEDUP_THRESHOLD)
+            .describe("resume, compress, diff: how alike (0.5-1, by shared words) two decisions or approaches must be to count as one; 1 = same words only"),
+        autoGitCapture: z
+            .boolean()
+            .default(true)
+            .describe("Whether to auto-detect and include git info when saving"),
+        recentCommitCount: z
+            .number()
+            .int()
+            .min(0)
+            .max(100)
+            .default(5)
+            .describe("Number of recent commits to capture"),
+        defaultLogCount: z
+            .number()
+            .int()
+            .min(1)
+            .default(10)
+            .describe("Default number of log entries to show"),
+        watchInterval: z
+            .number()
+            .positive()
+            .default(5)
+            .describe("Watch mode auto-save interval in minutes"),
+        autoHook: z
+            .boolean()
+            .default(true)
+            .describe("Whether git hooks are auto-installed on init"),
+        retentionMaxAge: z
+            .number()
+            .int()
+            .min(0)
+            .default(0)
+            .describe("gc: remove entries older than this many days (0 = keep forever)"),
+        retentionMaxEntries: z
+            .number()
+            .int()
+            .min(0)
+            .default(0)
+            .describe("gc: keep at most this many entries per branch (0 = no limit)"),
+        retentionKeepManual: z
+            .boolean()
+            .default(true)
+            .describe("gc: never remove manual saves, only auto-saves (hooks, watch, idle)"),
+        autoGc: z
+            .boolean()
+            .default(false)
+            .describe("Run `valyrianctx gc` for the branch after every save"),
+        storage: z
+            .enum(["files", "git-notes"])
+            .default("files")
+            .describe("Where new context is saved: .valyrianctx/ files, or git notes (refs/notes/valyrianctx) exchanged with `valyrianctx sync`"),
+        aiProvider: z
+            .string()
+            .url()
+            .default("https://api.openai.com/v1")
+            .describe("AI provider base URL (OpenAI-compatible)"),
+        aiModel: z
+            .string()
+            .min(1)
+            .default("gpt-4o-mini")
+            .describe("AI model name"),
+        aiApiKey: z
+            .string()
+            .min(1)
+            .optional()
+            .describe("AI API key (prefer the VALYRIANCTX_AI_KEY env var)"),
+    })
+    .strict();
+
+export type UserConfig = z.infer<typeof userConfigSchema>;
+
+/** A partial config as stored in one layer (file); unknown keys are rejected */
+export const partialUserConfigSchema = userConfigSchema.partial().strict();
+
+export type ConfigKey = keyof UserConfig;
+
+const SHAPE = userConfigSchema.shape;
+
+export const CONFIG_KEYS = Object.keys(SHAPE) as ConfigKey[];
+
+export const DEFAULT_CONFIG: UserConfig = userConfigSchema.parse({});
+
+/** An invalid key or value given on the command line (exit code USAGE) */
+export class ConfigValidationError extends UsageError {
+    constructor(message: string) {
+        super(message);
+        this.name = "ConfigValidationError";
+    }
+}
+
+export function isConfigKey(key: string): key is ConfigKey {
+    return (CONFIG_KEYS as string[]).includes(key);
+}
+
+export function assertConfigKey(key: string): asserts key is ConfigKey {
+    if (!isConfigKey(key)) {
+        throw new ConfigValidationError(`Unknown config key: ${key}. Valid keys: ${CONFIG_KEYS.join(", ")}`);
+    }
+}
+
+/**
+ * Strip default/optional wrappers to get at the underlying value type.
+ */
+function baseType(key: ConfigKey): z.ZodTypeAny {
+    let type: z.ZodTypeAny = SHAPE[key];
+    while (type instanceof z.ZodDefault || type instanceof z.ZodOptional) {
+        type = type instanceof z.ZodDefault ? type._def.innerType : type.unwrap();
+    }
+    return type;
+}
+
+/**
+ * Parse a value typed on the command line (always a string) into the key's type
+ * and validate it. Throws ConfigValidationError with a readable message.
+ */
+export function parseConfigValue(key: string, raw: string): UserConfig[ConfigKey] {
+    assertConfigKey(key);
+    const type = baseType(key);
+    let value: unknown = raw;
+
+    if (type instanceof z.ZodBoolean) {
+        const normalized = raw.trim().toLowerCase();
+        if (["true", "yes", "on", "1"].includes(normalized)) value = true;
+        else if (["false", "no", "off", "0"].includes(normalized)) value = false;
+    } else if (type instanceof z.ZodRecord) {
+        try {
+            value = JSON.parse(raw);
+        } catch {
+            throw new ConfigValidationError(`Invalid value for ${key}: expected a JSON object, got "${raw}"`);
+        }
+    } else if (type instanceof z.ZodNumber) {
+        value = Number(raw);
+        if (raw.trim() === "" || Number.isNaN(value)) {
+            throw new ConfigValidationError(`Invalid value for ${key}: expected a number, got "${raw}"`);
+        }
+    }
+
+    return validateConfigValue(key, value);
+}
+
+/**
+ * Validate an already-typed value for a key (e.g. read from a JSON file).
+ */
+export function validateConfigValue(key: ConfigKey, value: unknown): UserConfig[ConfigKey] {
+    const result = baseType(key).safeParse(value);
+    if (!result.success) {
+        throw new ConfigValidationError(`Invalid value for ${key}: ${formatIssues(result.error)}`);
+    }
+    return result.data;
+}
+
+/**
+ * Validate a whole config layer, e.g. after `config edit`. Returns the parsed
+ * values or a list of human-readable problems.
+ */
+export function validateConfigLayer(
+    raw: unknown
+): { ok: true; values: Partial<UserConfig> } | { ok: false; problems: string[] } {
+    const result = partialUserConfigSchema.safeParse(raw);
+    if (result.success) return { ok: true, values: result.data };
+    return {
+        ok: false,
+        problems: result.error.issues.map((issue) => {
+            const where = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+            return `${where}${describeIssue(issue)}`;
+        }),
+    };
+}
+
+/**
+ * Describe a key for `config describe`: type, allowed values and default.
+ */
+export function describeConfigKey(key: ConfigKey): {
+    key: ConfigKey;
+    description: string;
+    type: string;
+    defaultValue: unknown;
+} {
+    return {
+        key,
+        description: SHAPE[key].description ?? "",
+        type: typeLabel(baseType(key)),
+        defaultValue: DEFAULT_CONFIG[key],
+    };
+}
+
+function typeLabel(type: z.ZodTypeAny): string {
+    if (type instanceof z.ZodEnum) return (type.options as string[]).map((o) => `"${o}"`).join(" | ");
+    if (type instanceof z.ZodBoolean) return "boolean";
+    if (type instanceof z.ZodNumber) {
+        const parts = [type.isInt ? "integer" : "number"];
+        for (const check of type._def.checks) {
+            if (check.kind === "min") parts.push(`${check.inclusive ? ">=" : ">"} ${check.value}`);
+            if (check.kind === "max") parts.push(`${check.inclusive ? "<=" : "<"} ${check.value}`);
+        }
+        return parts.join(", ");
+    }
+    if (type instanceof z.ZodString) {
+        return type.isURL ? "string (URL)" : "string";
+    }
+    if (type instanceof z.ZodRecord) return `object of ${typeLabel(type.valueSchema)} (JSON)`;
+    return "unknown";
+}
+
+function formatIssues(error: z.ZodError): string {
+    return error.issues.map(describeIssue).join("; ");
+}
+
+function describeIssue(issue: z.ZodIssue): string {
+    if (issue.code === "invalid_enum_value") {
+        return `expected one of ${issue.options.map((o) => `"${String(o)}"`).join(", ")}, got "${String(issue.received)}"`;
+    }
+    if (issue.code === "invalid_type") {
+        return `expected ${issue.expected}, got ${issue.received}`;
+    }
+    if (issue.code === "unrecognized_keys") {
+        return `unknown key${issue.keys.length > 1 ? "s" : ""} ${issue.keys.join(", ")}`;
+    }
+    return issue.message;
+}
@@ -0,0 +1,124 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+const TEST_DIR = path.join(os.tmpdir(), `valyrianctx-config-${Date.now()}`);
+const STORE_DIR = path.join(TEST_DIR, "repo", ".valyrianctx");
+const XDG_DIR = path.join(TEST_DIR, "xdg");
+
+jest.mock("../core/context", () => ({
+    getValyrianCtxDir: async () => STORE_DIR,
+    withStoreLock: async (fn: () => any) => fn(),
+}));
+
+import { loadConfig, loadConfigWithOrigins, saveConfig, unsetConfig, getGlobalConfigPath } from "./config";
+import { parseConfigValue, validateConfigLayer, ConfigValidationError } from "./config-schema";
+
+const ENV_KEYS = ["XDG_CONFIG_HOME", "VALYRIANCTX_AI_KEY", "VALYRIANCTX_AI_PROVIDER", "VALYRIANCTX_AI_MODEL"];
+const savedEnv: Record<string, string | undefined> = {};
+
+beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(STORE_DIR, { recursive: true });
+    fs.writeFileSync(path.join(STORE_DIR, "config.json"), JSON.stringify({ version: "0.1.0", settings: {} }));
+    for (const key of ENV_KEYS) {
+        savedEnv[key] = process.env[key];
+        delete process.env[key];
+    }
+    process.env.XDG_CONFIG_HOME = XDG_DIR;
+});
+
+afterEach(() => {
+    for (const key of ENV_KEYS) {
+        if (savedEnv[key] === undefined) delete process.env[key];
+        else process.env[key] = savedEnv[key];
+    }
+});
+
+afterAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("Layered Config", () => {
+    it("should store global settings under XDG_CONFIG_HOME", async () => {
+        await saveConfig({ watchInterval: 15 }, "global");
+
+        expect(getGlobalConfigPath()).toBe(path.join(XDG_DIR, "valyrianctx", "config.json"));
+        expect(JSON.parse(fs.readFileSync(getGlobalConfigPath(), "utf-8"))).toEqual({ watchInterval: 15 });
+    });
+
+    it("should keep the global and local files private to their owner", async () => {
+        fs.writeFileSync(path.join(STORE_DIR, "config.local.json"), "{}", { mode: 0o644 });
+        await saveConfig({ aiApiKey: "sk-global" }, "global");
+        await saveConfig({ aiApiKey: "sk-local" }, "local");
+
+        expect(fs.statSync(getGlobalConfigPath()).mode & 0o777).toBe(0o600);
+        expect(fs.statSync(path.join(STORE_DIR, "config.local.json")).mode & 0o777).toBe(0o600);
+    });
+
+    it("should apply global < repo < local < env precedence", async () => {
+        await saveConfig({ aiModel: "global-model", aiProvider: "http://global", watchInterval: 1 }, "global");
+        await saveConfig({ aiModel: "repo-model", aiProvider: "http://repo" }, "repo");
+        await saveConfig({ aiModel: "local-model" }, "local");
+        process.env.VALYRIANCTX_AI_MODEL = "env-model";
+
+        const { config, origins } = await loadConfigWithOrigins();
+
+        expect(config.watchInterval).toBe(1);
+        expect(config.aiProvider).toBe("http://repo");
+        expect(config.aiModel).toBe("env-model");
+        expect(config.autoHook).toBe(true);
+        expect(origins.watchInterval.origin).toBe("global");
+        expect(origins.aiProvider).toEqual({ origin: "repo", source: path.join(STORE_DIR, "config.json") });
+        expect(origins.aiModel).toEqual({ origin: "env", source: "VALYRIANCTX_AI_MODEL" });
+        expect(origins.autoHook.origin).toBe("default");
+
+        delete process.env.VALYRIANCTX_AI_MODEL;
+        expect((await loadConfig()).aiModel).toBe("local-model");
+    });
+
+    it("should refuse to write the API key to the shared repo config", async () => {
+        await expect(saveConfig({ aiApiKey: "sk-secret" }, "repo")).rejects.toThrow(/shared repo config/);
+    });
+
+    it("should fall back to the next layer when a stored value is invalid", async () => {
+        await saveConfig({ defaultOutput: "stdout" }, "repo");
+        fs.writeFileSync(path.join(STORE_DIR, "config.local.json"), JSON.stringify({ defaultOutput: "banana" }));
+
+        const { config, problems } = await loadConfigWithOrigins();
+
+        expect(config.defaultOutput).toBe("stdout");
+        expect(problems.join("\n")).toMatch(/defaultOutput/);
+    });
+
+    it("should unset a key so the lower layer shows through", async () => {
+        await saveConfig({ watchInterval: 2 }, "global");
+        await saveConfig({ watchInterval: 9 }, "local");
+
+        expect(await unsetConfig(["watchInterval"], "local")).toEqual(["watchInterval"]);
+        expect((await loadConfig()).watchInterval).toBe(2);
+        expect(await unsetConfig(["watchInterval"], "local")).toEqual([]);
+    });
+});
+
+describe("Config Schema", () => {
+    it("should coerce command-line strings to the key's type", () => {
+        expect(parseConfigValue("autoHook", "false")).toBe(false);
+        expect(parseConfigValue("recentCommitCount", "7")).toBe(7);
+        expect(parseConfigValue("aiModel", "123")).toBe("123");
+    });
+
+    it("should reject unknown keys, bad enums and out-of-range numbers", () => {
+        expect(() => parseConfigValue("nope", "1")).toThrow(ConfigValidationError);
+        expect(() => parseConfigValue("defaultOutput", "banana")).toThrow(/"clipboard", "stdout"/);
+        expect(() => parseConfigValue("recentCommitCount", "abc")).toThrow(/expected a number/);
+        expect(() => parseConfigValue("defaultLogCount", "0")).toThrow(ConfigValidationError);
+    });
+
+    it("should report every problem in an edited layer", () => {
+        const result = validateConfigLayer({ watchInterval: "soon", bogus: true });
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) expect(result.problems).toHaveLength(2);
+    });
+});
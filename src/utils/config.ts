@@ -1,66 +1,253 @@
 import fs from "fs";
+import os from "os";
 import path from "path";
-import { getValyrianCtxDir } from "../core/context";
-
-export interface UserConfig {
-    /** Default output mode for resume: "clipboard" | "stdout" */
-    defaultOutput: "clipboard" | "stdout";
-    /** Whether to auto-detect and include git info */
-    autoGitCapture: boolean;
-    /** Number of recent commits to capture */
-    recentCommitCount: number;
-    /** Default number of log entries to show */
-    defaultLogCount: number;
-    /** Watch mode auto-save interval in minutes */
-    watchInterval: number;
-    /** Whether git hook is auto-installed on init */
-    autoHook: boolean;
-    /** AI provider base URL (OpenAI-compatible) */
-    aiProvider: string;
-    /** AI model name */
-    aiModel: string;
-    /** AI API key (prefer VALYRIANCTX_AI_KEY env var) */
-    aiApiKey?: string;
+import { getValyrianCtxDir, withStoreLock } from "../core/context";
+import { ValyrianCtxConfig } from "../core/types";
+import { PRIVATE_FILE_MODE, withFileLock, writeFileAtomic } from "./fs-safe";
+import {
+    UserConfig,
+    ConfigKey,
+    CONFIG_KEYS,
+    DEFAULT_CONFIG,
+    ConfigValidationError,
+    isConfigKey,
+    validateConfigValue,
+} from "./config-schema";
+
+export type { UserConfig, ConfigKey } from "./config-schema";
+export { CONFIG_KEYS, ConfigValidationError } from "./config-schema";
+
+/**
+ * Where a setting is stored.
+ *
+ * - `global`: `~/.config/valyrianctx/config.json`, your defaults for every repo
+ * - `repo`: `settings` in `.valyrianctx/config.json`, committed with `share` (team defaults)
+ * - `local`: `.valyrianctx/config.local.json`, gitignored (personal overrides for this repo)
+ */
+export type ConfigScope = "global" | "repo" | "local";
+
+/** Where an effective value came from, in increasing order of precedence */
+export type ConfigOrigin = "default" | ConfigScope | "env";
+
+export interface ConfigValueOrigin {
+    origin: ConfigOrigin;
+    /** File path or env variable name (absent for defaults) */
+    source?: string;
 }
 
-const DEFAULT_CONFIG: UserConfig = {
-    defaultOutput: "clipboard",
-    autoGitCapture: true,
-    recentCommitCount: 5,
-    defaultLogCount: 10,
-    watchInterval: 5,
-    autoHook: true,
-    aiProvider: "https://api.openai.com/v1",
-    aiModel: "gpt-4o-mini",
+/** Environment variables that override config keys (highest precedence) */
+export const CONFIG_ENV_VARS: Partial<Record<keyof UserConfig, string>> = {
+    aiApiKey: "VALYRIANCTX_AI_KEY",
+    aiProvider: "VALYRIANCTX_AI_PROVIDER",
+    aiModel: "VALYRIANCTX_AI_MODEL",
 };
 
+/** Keys that must never be written to the committed repo config */
+const PERSONAL_ONLY_KEYS: (keyof UserConfig)[] = ["aiApiKey"];
+
+export const REPO_CONFIG_FILE = "config.json";
+export const LOCAL_CONFIG_FILE = "config.local.json";
+
 /**
- * Load user preferences from `.valyrianctx/config.json`.
- * Returns defaults if the file doesn't exist or is malformed.
+ * Path of the global (per-user) config file. Honours $XDG_CONFIG_HOME.
+ */
+export function getGlobalConfigPath(): string {
+    const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+    return path.join(base, "valyrianctx", "config.json");
+}
+
+/**
+ * Load user preferences, merging (lowest to highest precedence):
+ *
+ *   1. built-in defaults
+ *   2. global config (`~/.config/valyrianctx/config.json`)
+ *   3. repo settings (`.valyrianctx/config.json`, shared with the team)
+ *   4. local overrides (`.valyrianctx/config.local.json`)
+ *   5. environment (`VALYRIANCTX_AI_KEY`, `VALYRIANCTX_AI_PROVIDER`, `VALYRIANCTX_AI_MODEL`)
+ *
+ * Preferences that older releases wrote at the top level of `config.json` are
+ * still honoured, between the repo and local layers, until `valyrianctx migrate`
+ * moves them into `config.local.json`.
+ *
+ * Values that fail validation are skipped, so a bad entry in one layer falls
+ * back to the layer below it instead of breaking every command.
  */
 export async function loadConfig(): Promise<UserConfig> {
-    try {
-        const dir = await getValyrianCtxDir();
-        const configPath = path.join(dir, "config.json");
+    return (await loadConfigWithOrigins()).config;
+}
+
+/**
+ * Like loadConfig(), but also reports which layer each effective value came
+ * from and any values that were skipped because they failed validation.
+ */
+export async function loadConfigWithOrigins(): Promise<{
+    config: UserConfig;
+    origins: Record<string, ConfigValueOrigin>;
+    problems: string[];
+}> {
+    const config: Record<string, any> = { ...DEFAULT_CONFIG };
+    const origins: Record<string, ConfigValueOrigin> = {};
+    const problems: string[] = [];
+    for (const key of Object.keys(DEFAULT_CONFIG)) origins[key] = { origin: "default" };
 
-        if (!fs.existsSync(configPath)) return { ...DEFAULT_CONFIG };
+    const apply = (values: Record<string, any>, origin: ConfigValueOrigin) => {
+        for (const [key, value] of Object.entries(pickSettings(values))) {
+            try {
+                config[key] = validateConfigValue(key as ConfigKey, value);
+                origins[key] = origin;
+            } catch (err: any) {
+                problems.push(`${origin.source ?? origin.origin}: ${err.message}`);
+            }
+        }
+    };
 
-        const raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
-        return { ...DEFAULT_CONFIG, ...raw };
-    } catch {
-        return { ...DEFAULT_CONFIG };
+    const globalPath = getGlobalConfigPath();
+    apply(readJson(globalPath), { origin: "global", source: globalPath });
+
+    const dir = await getValyrianCtxDir().catch(() => null);
+    if (dir) {
+        const repoPath = path.join(dir, REPO_CONFIG_FILE);
+        const localPath = path.join(dir, LOCAL_CONFIG_FILE);
+        const repo = readJson(repoPath);
+        apply(repo.settings ?? {}, { origin: "repo", source: repoPath });
+        apply(repo, { origin: "repo", source: repoPath });
+        apply(readJson(localPath), { origin: "local", source: localPath });
+    }
+
+    for (const [key, envVar] of Object.entries(CONFIG_ENV_VARS)) {
+        const value = process.env[envVar!];
+        if (value) apply({ [key]: value }, { origin: "env", source: envVar });
+    }
+
+    return { config: config as UserConfig, origins, problems };
+}
+
+/**
+ * Load the repo metadata from `.valyrianctx/config.json` (without settings).
+ */
+export async function loadRepoMetadata(): Promise<Omit<ValyrianCtxConfig, "settings">> {
+    const dir = await getValyrianCtxDir();
+    const { settings: _settings, ...metadata } = readJson(path.join(dir, REPO_CONFIG_FILE));
+    return metadata as Omit<ValyrianCtxConfig, "settings">;
+}
+
+/**
+ * File that holds a scope's settings.
+ */
+export async function getConfigPath(scope: ConfigScope): Promise<string> {
+    if (scope === "global") return getGlobalConfigPath();
+    const dir = await getValyrianCtxDir();
+    return path.join(dir, scope === "repo" ? REPO_CONFIG_FILE : LOCAL_CONFIG_FILE);
+}
+
+/**
+ * Read the settings stored in a single scope, as written (not merged or validated).
+ */
+export async function readConfigLayer(scope: ConfigScope): Promise<Record<string, any>> {
+    const raw = readJson(await getConfigPath(scope));
+    return scope === "repo" ? raw.settings ?? {} : raw;
+}
+
+/**
+ * Save user preferences. Personal (`local`) scope by default; `repo` scope
+ * writes team defaults into the committed `config.json`, and `global` scope
+ * writes your defaults for every repo.
+ * Merges with existing values so partial updates work.
+ */
+export async function saveConfig(
+    partial: Partial<UserConfig>,
+    scope: ConfigScope = "local"
+): Promise<void> {
+    for (const [key, value] of Object.entries(partial)) {
+        if (!isConfigKey(key)) throw new ConfigValidationError(`Unknown config key: ${key}`);
+        validateConfigValue(key, value);
+    }
+    assertScopeAllows(Object.keys(partial), scope);
+    await updateConfigLayer(scope, (current) => ({ ...current, ...partial }));
+}
+
+/**
+ * Remove keys from a scope so the value falls back to the layer below.
+ * Returns the keys that were actually present.
+ */
+export async function unsetConfig(keys: ConfigKey[], scope: ConfigScope = "local"): Promise<ConfigKey[]> {
+    let removed: ConfigKey[] = [];
+    await updateConfigLayer(scope, (current) => {
+        removed = keys.filter((k) => k in current);
+        const next = { ...current };
+        for (const key of keys) delete next[key];
+        return next;
+    });
+    return removed;
+}
+
+/**
+ * Replace everything stored in a scope (used by `config edit`). Callers are
+ * expected to have validated `values` with validateConfigLayer().
+ */
+export async function replaceConfigLayer(values: Partial<UserConfig>, scope: ConfigScope): Promise<void> {
+    assertScopeAllows(Object.keys(values), scope);
+    await updateConfigLayer(scope, () => ({ ...values }));
+}
+
+/**
+ * Keep only known preference keys (drops metadata like `version`/`repo`).
+ */
+export function pickSettings(raw: Record<string, any>): Partial<UserConfig> {
+    const picked: Record<string, any> = {};
+    for (const key of CONFIG_KEYS) {
+        if (raw[key] !== undefined) picked[key] = raw[key];
+    }
+    return picked as Partial<UserConfig>;
+}
+
+function assertScopeAllows(keys: string[], scope: ConfigScope): void {
+    if (scope !== "repo") return;
+    const personal = PERSONAL_ONLY_KEYS.filter((k) => keys.includes(k));
+    if (personal.length > 0) {
+        throw new ConfigValidationError(
+            `${personal.join(", ")} can't be stored in the shared repo config. Use the local scope or an env var.`
+        );
     }
 }
 
 /**
- * Save user preferences to `.valyrianctx/config.json`.
- * Merges with existing config so partial updates work.
+ * Read-modify-write a scope's settings under the appropriate lock. The global
+ * and local files can hold the API key, so only their owner can read them.
  */
-export async function saveConfig(partial: Partial<UserConfig>): Promise<void> {
+async function updateConfigLayer(
+    scope: ConfigScope,
+    update: (current: Record<string, any>) => Record<string, any>
+): Promise<void> {
+    if (scope === "global") {
+        const configPath = getGlobalConfigPath();
+        fs.mkdirSync(path.dirname(configPath), { recursive: true });
+        await withFileLock(`${configPath}.lock`, () => {
+            writeFileAtomic(configPath, JSON.stringify(update(readJson(configPath)), null, 2), PRIVATE_FILE_MODE);
+        });
+        return;
+    }
+
     const dir = await getValyrianCtxDir();
-    const configPath = path.join(dir, "config.json");
 
-    const existing = await loadConfig();
-    const merged = { ...existing, ...partial };
-    fs.writeFileSync(configPath, JSON.stringify(merged, null, 2));
+    await withStoreLock(async () => {
+        if (scope === "repo") {
+            const configPath = path.join(dir, REPO_CONFIG_FILE);
+            const existing = readJson(configPath);
+            const settings = update(existing.settings ?? {});
+            writeFileAtomic(configPath, JSON.stringify({ ...existing, settings }, null, 2));
+        } else {
+            const configPath = path.join(dir, LOCAL_CONFIG_FILE);
+            writeFileAtomic(configPath, JSON.stringify(update(readJson(configPath)), null, 2), PRIVATE_FILE_MODE);
+        }
+    });
+}
+
+function readJson(filePath: string): Record<string, any> {
+    if (!fs.existsSync(filePath)) return {};
+    try {
+        return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch {
+        return {};
+    }
 }
@@ -0,0 +1,88 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { withFileLock, writeFileAtomic } from "./fs-safe";
+
+const TEST_DIR = path.join(os.tmpdir(), `valyrianctx-fs-safe-${Date.now()}`);
+const LOCK_PATH = path.join(TEST_DIR, ".lock");
+
+beforeEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterAll(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("writeFileAtomic", () => {
+    it("should replace file content without leaving temp files behind", () => {
+        const file = path.join(TEST_DIR, "data.json");
+        fs.writeFileSync(file, "old");
+
+        writeFileAtomic(file, "new");
+
+        expect(fs.readFileSync(file, "utf-8")).toBe("new");
+        expect(fs.readdirSync(TEST_DIR)).toEqual(["data.json"]);
+    });
+});
+
+describe("withFileLock", () => {
+    it("should release the lock after the callback, even on error", async () => {
+        await expect(
+            withFileLock(LOCK_PATH, () => {
+                throw new Error("boom");
+            })
+        ).rejects.toThrow("boom");
+
+        expect(fs.existsSync(LOCK_PATH)).toBe(false);
+    });
+
+    it("should serialize concurrent critical sections", async () => {
+        let active = 0;
+        let maxActive = 0;
+
+        await Promise.all(
+            Array.from({ length: 5 }, () =>
+                withFileLock(LOCK_PATH, async () => {
+                    active++;
+                    maxActive = Math.max(maxActive, active);
+                    await new Promise((r) => setTimeout(r, 20));
+                    active--;
+                })
+            )
+        );
+
+        expect(maxActive).toBe(1);
+    });
+
+    it("should recover a lock left behind by a dead process", async () => {
+        fs.writeFileSync(
+            LOCK_PATH,
+            JSON.stringify({ pid: 2 ** 22 + 1, host: os.hostname(), acquiredAt: Date.now() })
+        );
+
+        const result = await withFileLock(LOCK_PATH, () => "acquired", { timeoutMs: 2000 });
+        expect(result).toBe("acquired");
+    });
+
+    it("should recover a lock older than the stale threshold", async () => {
+        fs.writeFileSync(LOCK_PATH, "garbage");
+        const old = new Date(Date.now() - 60_000);
+        fs.utimesSync(LOCK_PATH, old, old);
+
+        const result = await withFileLock(LOCK_PATH, () => "acquired", { timeoutMs: 2000 });
+        expect(result).toBe("acquired");
+    });
+
+    it("should time out while a live process holds the lock", async () => {
+        fs.writeFileSync(
+            LOCK_PATH,
+            JSON.stringify({ pid: process.pid, host: os.hostname(), acquiredAt: Date.now() })
+        );
+
+        await expect(withFileLock(LOCK_PATH, () => "never", { timeoutMs: 200 })).rejects.toThrow(
+            /Timed out waiting for lock/
+        );
+    });
+});
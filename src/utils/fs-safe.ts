@@ -0,0 +1,186 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Crash-safe and concurrency-safe file primitives for the .valyrianctx store.
+ *
+ * Several writers can hit the store at the same moment (post-commit hook,
+ * watch mode, the MCP idle timer, the VS Code extension), so every
+ * read-modify-write runs under a lock file, and every full-file write goes
+ * to a temp file first and is renamed into place.
+ */
+
+interface LockInfo {
+    pid: number;
+    host: string;
+    acquiredAt: number;
+}
+
+export interface LockOptions {
+    /** Give up after this many ms (default: 10s) */
+    timeoutMs?: number;
+    /** A lock older than this is considered abandoned (default: 30s) */
+    staleMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_MS = 30_000;
+const RETRY_MIN_MS = 10;
+const RETRY_MAX_MS = 100;
+
+/** Owner-only permissions, for files that can hold secrets (the AI API key) */
+export const PRIVATE_FILE_MODE = 0o600;
+
+/**
+ * Write a file atomically: write to a sibling temp file, fsync, then rename.
+ * Readers see either the old content or the new content, never a partial file.
+ * The file gets `mode` (default 0o666, less the umask), replacing any it had.
+ */
+export function writeFileAtomic(filePath: string, data: string, mode?: number): void {
+    const tmpPath = path.join(
+        path.dirname(filePath),
+        `.${path.basename(filePath)}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`
+    );
+
+    const fd = fs.openSync(tmpPath, "w", mode);
+    try {
+        fs.writeSync(fd, data);
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    try {
+        fs.renameSync(tmpPath, filePath);
+    } catch (err) {
+        fs.rmSync(tmpPath, { force: true });
+        throw err;
+    }
+}
+
+/**
+ * Run `fn` while holding an exclusive lock file.
+ *
+ * The lock is created with O_EXCL so only one process can hold it. A lock left
+ * behind by a crashed process (dead PID on this host, or older than `staleMs`)
+ * is broken automatically.
+ */
+export async function withFileLock<T>(
+    lockPath: string,
+    fn: () => Promise<T> | T,
+    options: LockOptions = {}
+): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+    const deadline = Date.now() + timeoutMs;
+
+    while (!tryAcquire(lockPath)) {
+        breakStaleLock(lockPath, staleMs);
+
+        if (Date.now() > deadline) {
+            throw new Error(
+                `Timed out waiting for lock ${lockPath}. If no other valyrianctx process is running, delete it and retry.`
+            );
+        }
+        await sleep(RETRY_MIN_MS + Math.random() * (RETRY_MAX_MS - RETRY_MIN_MS));
+    }
+
+    try {
+        return await fn();
+    } finally {
+        release(lockPath);
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function tryAcquire(lockPath: string): boolean {
+    const info: LockInfo = { pid: process.pid, host: os.hostname(), acquiredAt: Date.now() };
+    try {
+        const fd = fs.openSync(lockPath, "wx");
+        try {
+            fs.writeSync(fd, JSON.stringify(info));
+        } finally {
+            fs.closeSync(fd);
+        }
+        return true;
+    } catch (err: any) {
+        if (err.code === "EEXIST") return false;
+        throw err;
+    }
+}
+
+function release(lockPath: string): void {
+    const info = readLock(lockPath);
+    // Only remove the lock if it's still ours (it may have been broken as stale)
+    if (info && info.pid === process.pid && info.host === os.hostname()) {
+        fs.rmSync(lockPath, { force: true });
+    }
+}
+
+function readLock(lockPath: string): LockInfo | null {
+    try {
+        return JSON.parse(fs.readFileSync(lockPath, "utf-8"));
+    } catch {
+        return null;
+    }
+}
+
+function isStale(lockPath: string, info: LockInfo | null, staleMs: number): boolean {
+    if (info && info.host === os.hostname() && info.pid !== process.pid && !isProcessAlive(info.pid)) {
+        return true;
+    }
+
+    try {
+        // Fall back to mtime: covers other hosts (network drives) and unreadable lock files
+        return Date.now() - fs.statSync(lockPath).mtimeMs > staleMs;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Break an abandoned lock.
+ *
+ * The lock is renamed aside rather than unlinked, so two processes that both
+ * decide the lock is stale can't both succeed. If what we renamed turns out to
+ * be a fresh lock another process just took, it is put back.
+ */
+function breakStaleLock(lockPath: string, staleMs: number): void {
+    const info = readLock(lockPath);
+    if (!isStale(lockPath, info, staleMs)) return;
+
+    const asidePath = `${lockPath}.stale.${process.pid}.${Math.random().toString(36).slice(2)}`;
+    try {
+        fs.renameSync(lockPath, asidePath);
+    } catch {
+        return; // Someone else already broke or released it
+    }
+
+    const moved = readLock(asidePath);
+    const sameLock = JSON.stringify(moved) === JSON.stringify(info);
+    if (!sameLock) {
+        try {
+            fs.linkSync(asidePath, lockPath);
+        } catch {
+            // Lock was re-acquired by another process in the meantime
+        }
+    }
+    fs.rmSync(asidePath, { force: true });
+}
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (err: any) {
+        return err.code === "EPERM";
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
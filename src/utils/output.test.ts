@@ -0,0 +1,94 @@
+import { configureOutput, fail, finishOutput, print, setResult } from "./output";
+import { NotInitializedError } from "../core/context";
+import { NotGitRepoError } from "../core/git";
+import { StoreCorruptError } from "../core/store";
+import { UsageError, getErrorCode } from "../core/errors";
+
+let stdout: string;
+let stderr: string[];
+let logged: string[];
+const originalLog = console.log;
+
+beforeEach(() => {
+    stdout = "";
+    stderr = [];
+    logged = [];
+    console.log = (...args: any[]) => logged.push(args.join(" "));
+    jest.spyOn(process.stdout, "write").mockImplementation((chunk: any) => {
+        stdout += chunk;
+        return true;
+    });
+    jest.spyOn(console, "error").mockImplementation((...args: any[]) => {
+        stderr.push(args.join(" "));
+    });
+});
+
+afterEach(() => {
+    finishOutput();
+    jest.restoreAllMocks();
+    console.log = originalLog;
+    process.exitCode = undefined;
+});
+
+describe("getErrorCode", () => {
+    it("should map each error class to its own code", () => {
+        expect(getErrorCode(new NotInitializedError())).toBe("NOT_INITIALIZED");
+        expect(getErrorCode(new NotGitRepoError())).toBe("NOT_GIT_REPO");
+        expect(getErrorCode(new StoreCorruptError("branches/main.jsonl", "bad line"))).toBe("STORE_CORRUPT");
+        expect(getErrorCode(new UsageError("bad flag"))).toBe("USAGE");
+        expect(getErrorCode(new Error("fatal: not a git repository (or any of the parent directories)"))).toBe(
+            "NOT_GIT_REPO"
+        );
+        expect(getErrorCode(new Error("boom"))).toBe("ERROR");
+    });
+});
+
+describe("output modes", () => {
+    it("should print progress and errors in human mode", () => {
+        configureOutput({ command: "save" });
+        console.log("Saving...");
+        fail(new NotInitializedError());
+        finishOutput();
+
+        expect(logged).toEqual(["Saving..."]);
+        expect(stderr[0]).toContain("✗ ValyrianCtx not initialized");
+        expect(process.exitCode).toBe(3);
+        expect(stdout).toBe("");
+    });
+
+    it("should keep only primary output and errors in quiet mode", () => {
+        configureOutput({ quiet: true, command: "resume" });
+        console.log("progress");
+        print("the prompt");
+        finishOutput();
+
+        expect(logged).toEqual([]);
+        expect(stdout).toBe("the prompt\n");
+    });
+
+    it("should write a single JSON envelope in JSON mode", () => {
+        configureOutput({ json: true, command: "log" });
+        console.log("progress");
+        print("a log line");
+        setResult([{ id: "1" }]);
+        finishOutput();
+
+        expect(logged).toEqual([]);
+        expect(JSON.parse(stdout)).toEqual({ ok: true, command: "log", data: [{ id: "1" }] });
+    });
+
+    it("should report failures in the JSON envelope with their exit code", () => {
+        configureOutput({ json: true, command: "fsck" });
+        fail(new StoreCorruptError("branches/main.jsonl", "bad line"));
+        finishOutput();
+
+        expect(stderr).toEqual([]);
+        expect(process.exitCode).toBe(6);
+        expect(JSON.parse(stdout)).toMatchObject({
+            ok: false,
+            command: "fsck",
+            data: null,
+            error: { code: "STORE_CORRUPT", exitCode: 6 },
+        });
+    });
+});
@@ -0,0 +1,104 @@
+import chalk from "chalk";
+import { EXIT_CODES, ErrorCode, ValyrianCtxError, getErrorCode } from "../core/errors";
+
+/**
+ * Output modes shared by every command.
+ *
+ * - Human (default): progress and results as colored text, errors on stderr.
+ * - `--quiet`: only the command's primary output (see `print`) and errors.
+ * - `--json`: nothing but one JSON document on stdout when the command ends:
+ *   `{ "ok": true, "command", "data" }` or
+ *   `{ "ok": false, "command", "data", "error": { "code", "exitCode", "message" } }`
+ *   (`data` is null unless the command got far enough to produce some).
+ *
+ * Commands keep using console.log for progress messages; this module silences
+ * it in the quiet and JSON modes. Failures go through `fail`, which also sets
+ * the exit code.
+ */
+
+export interface OutputOptions {
+    json?: boolean;
+    quiet?: boolean;
+    /** Command name reported in the JSON envelope */
+    command?: string;
+}
+
+export interface OutputError {
+    code: ErrorCode;
+    exitCode: number;
+    message: string;
+}
+
+interface OutputState {
+    json: boolean;
+    quiet: boolean;
+    command: string;
+    result?: unknown;
+    error?: OutputError;
+}
+
+let state: OutputState = { json: false, quiet: false, command: "" };
+/** The console.log to put back when the command ends, if it was silenced */
+let silencedLog: typeof console.log | null = null;
+
+export function configureOutput(options: OutputOptions): void {
+    state = { json: !!options.json, quiet: !!options.quiet, command: options.command ?? "" };
+    if ((state.json || state.quiet) && !silencedLog) {
+        silencedLog = console.log;
+        console.log = () => {};
+    }
+}
+
+export function isJsonOutput(): boolean {
+    return state.json;
+}
+
+/** Print a line of the command's primary output: shown unless `--json` is set */
+export function print(text = ""): void {
+    if (!state.json) process.stdout.write(`${text}\n`);
+}
+
+/**
+ * A warning about the command's output (e.g. that it was cut short): on stderr
+ * so piped output stays clean, and not shown with `--quiet` or `--json`.
+ */
+export function warn(text: string): void {
+    if (!state.json && !state.quiet) console.error(chalk.yellow(`⚠ ${text}`));
+}
+
+/** Set the `data` reported by `--json` */
+export function setResult(data: unknown): void {
+    state.result = data;
+}
+
+/**
+ * Report a failure: on stderr (or in the JSON envelope), with the exit code
+ * for its class of error. The command should return afterwards.
+ */
+export function fail(err: unknown, hint?: string): void {
+    const code = getErrorCode(err);
+    const message = err instanceof Error ? err.message : String(err);
+    process.exitCode = EXIT_CODES[code];
+
+    if (state.json) {
+        state.error = { code, exitCode: EXIT_CODES[code], message };
+        return;
+    }
+    console.error(chalk.red(err instanceof ValyrianCtxError ? `✗ ${message}` : `✗ Error: ${message}`));
+    if (hint) console.error(chalk.gray(hint));
+}
+
+/** Write the JSON envelope (in `--json` mode) and restore console.log */
+export function finishOutput(): void {
+    if (silencedLog) {
+        console.log = silencedLog;
+        silencedLog = null;
+    }
+    if (!state.json) return;
+
+    const data = state.result ?? null;
+    const envelope = state.error
+        ? { ok: false, command: state.command, data, error: state.error }
+        : { ok: true, command: state.command, data };
+    process.stdout.write(`${JSON.stringify(envelope, null, 2)}\n`);
+}
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import { exec } from "child_process";
 import { promisify } from "util";
+import * as valyrianctx from "valyrianctx";
 
 const execAsync = promisify(exec);
 
@@ -31,7 +32,7 @@ async function checkIdleAndSave(): Promise<void> {
 
     idleSaveFired = true;
     try {
-        await runValyrianCtx('save --auto "Session idle in VS Code"');
+        await autoSave("Session idle in VS Code");
         outputChannel.appendLine(`[ValyrianCtx] Auto-saved on idle (${Math.round(idleMs / 60000)}m inactive)`);
     } catch {
         // Best-effort
@@ -87,7 +88,7 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.window.onDidCloseTerminal(async () => {
             try {
-                await runValyrianCtx('save --auto "Terminal closed in VS Code"');
+                await autoSave("Terminal closed in VS Code");
                 outputChannel.appendLine("[ValyrianCtx] Auto-saved on terminal close");
                 updateStatusBar();
             } catch {
@@ -115,16 +116,13 @@ export function deactivate(): Thenable<void> | undefined {
     stopIdleTimer();
 
     // Attempt a quick auto-save before shutdown.
-    // VS Code gives deactivate() a limited window, so we use execSync-style
-    // approach via a short-timeout async exec.
+    // VS Code gives deactivate() a limited window, so give up after 5s.
     try {
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
         if (workspaceFolder) {
             // Return a thenable so VS Code waits for it (up to its timeout)
-            return execAsync('npx valyrianctx save --auto "VS Code session ending"', {
-                cwd: workspaceFolder,
-                timeout: 5000, // 5s max — VS Code may kill us sooner
-            }).then(
+            const timeout = new Promise<void>((resolve) => setTimeout(resolve, 5000));
+            return Promise.race([autoSave("VS Code session ending"), timeout]).then(
                 () => {
                     statusBarItem?.dispose();
                     outputChannel?.dispose();
@@ -148,25 +146,30 @@ export function deactivate(): Thenable<void> | undefined {
 // Core Helpers
 // ---------------------------------------------------------------------------
 
-async function runValyrianCtx(
-    args: string,
-    cwd?: string
-): Promise<{ stdout: string; stderr: string }> {
-    const workspaceFolder = cwd || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+function getWorkspaceFolder(): string {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     if (!workspaceFolder) {
         throw new Error("No workspace folder open");
     }
+    return workspaceFolder;
+}
+
+/** For commands the SDK doesn't cover */
+async function runValyrianCtx(args: string): Promise<{ stdout: string; stderr: string }> {
+    return execAsync(`npx valyrianctx ${args}`, { cwd: getWorkspaceFolder() });
+}
 
-    return execAsync(`npx valyrianctx ${args}`, { cwd: workspaceFolder });
+async function autoSave(message: string): Promise<void> {
+    await valyrianctx.save({ task: message, auto: true }, { cwd: getWorkspaceFolder() });
 }
 
 async function autoResume() {
     try {
-        const { stdout } = await runValyrianCtx("resume --stdout");
-        if (stdout.trim() && !stdout.includes("not initialized") && !stdout.includes("No context")) {
+        const { prompt } = await valyrianctx.resume({ cwd: getWorkspaceFolder() });
+        if (prompt) {
             outputChannel.clear();
             outputChannel.appendLine("═══ Valyrian Context Auto-Resume ═══\n");
-            outputChannel.appendLine(stdout);
+            outputChannel.appendLine(prompt);
             outputChannel.show(true); // true = preserve focus
         }
     } catch {
@@ -187,7 +190,7 @@ async function saveContext() {
     if (!message) return;
 
     try {
-        await runValyrianCtx(`save "${message.replace(/"/g, '\\"')}"`);
+        await valyrianctx.save({ task: message }, { cwd: getWorkspaceFolder() });
         vscode.window.showInformationMessage(`Valyrian Context: Context saved`);
         recordActivity(); // Explicit save resets idle
         idleSaveFired = true; // Don't idle-save right after explicit save
@@ -199,10 +202,10 @@ async function saveContext() {
 
 async function resumeContext() {
     try {
-        const { stdout } = await runValyrianCtx("resume --stdout");
+        const { branch, prompt } = await valyrianctx.resume({ cwd: getWorkspaceFolder() });
         outputChannel.clear();
         outputChannel.appendLine("═══ Valyrian Context Resume ═══\n");
-        outputChannel.appendLine(stdout);
+        outputChannel.appendLine(prompt ?? `No context found for branch: ${branch}`);
         outputChannel.show();
     } catch (err: any) {
         vscode.window.showErrorMessage(`Valyrian Context: ${err.message}`);
@@ -211,10 +214,14 @@ async function resumeContext() {
 
 async function showLog() {
     try {
-        const { stdout } = await runValyrianCtx("log");
+        const entries = await valyrianctx.log({ cwd: getWorkspaceFolder() });
         outputChannel.clear();
         outputChannel.appendLine("═══ Valyrian Context Log ═══\n");
-        outputChannel.appendLine(stdout);
+        if (entries.length === 0) outputChannel.appendLine("No context for this branch.");
+        for (const e of entries) {
+            outputChannel.appendLine(`[${new Date(e.timestamp).toLocaleString()}] ${e.task}`);
+            if (e.currentState) outputChannel.appendLine(`  └─ ${e.currentState}`);
+        }
         outputChannel.show();
     } catch (err: any) {
         vscode.window.showErrorMessage(`Valyrian Context: ${err.message}`);
@@ -235,15 +242,11 @@ async function showDiff() {
 
 async function updateStatusBar() {
     try {
-        const { stdout } = await runValyrianCtx("log -n 1");
-        if (stdout.includes("[")) {
-            // Extract timestamp from log output
-            const match = stdout.match(/\[([^\]]+)\]/);
-            if (match) {
-                statusBarItem.text = `$(history) ValCtx: ${match[1]}`;
-                statusBarItem.show();
-                return;
-            }
+        const [latest] = await valyrianctx.log({ count: 1, cwd: getWorkspaceFolder() });
+        if (latest) {
+            statusBarItem.text = `$(history) ValCtx: ${new Date(latest.timestamp).toLocaleString()}`;
+            statusBarItem.show();
+            return;
         }
         statusBarItem.text = "$(history) ValCtx";
         statusBarItem.show();